@@ -12,33 +12,53 @@ import type * as addresses from "../addresses.js";
 import type * as analytics from "../analytics.js";
 import type * as auth from "../auth.js";
 import type * as cart from "../cart.js";
+import type * as catalog from "../catalog.js";
 import type * as chat from "../chat.js";
+import type * as checkoutQuotes from "../checkoutQuotes.js";
+import type * as crons from "../crons.js";
 import type * as delivery from "../delivery.js";
+import type * as deliveryPricing from "../deliveryPricing.js";
+import type * as deliveryRuns from "../deliveryRuns.js";
+import type * as deliveryZones from "../deliveryZones.js";
+import type * as dispatch from "../dispatch.js";
+import type * as driverEarnings from "../driverEarnings.js";
 import type * as drivers from "../drivers.js";
+import type * as driverShifts from "../driverShifts.js";
 import type * as favorites from "../favorites.js";
+import type * as fees from "../fees.js";
 import type * as follows from "../follows.js";
+import type * as fulfillment from "../fulfillment.js";
 import type * as http from "../http.js";
 import type * as inventory from "../inventory.js";
+import type * as ledger from "../ledger.js";
 import type * as marketing from "../marketing.js";
 import type * as notifications from "../notifications.js";
+import type * as orderEvents from "../orderEvents.js";
 import type * as orders from "../orders.js";
 import type * as paymentsActions from "../paymentsActions.js";
 import type * as paymentsQueries from "../paymentsQueries.js";
 import type * as payouts from "../payouts.js";
+import type * as payoutStatements from "../payoutStatements.js";
 import type * as presence from "../presence.js";
 import type * as productCategories from "../productCategories.js";
 import type * as products from "../products.js";
+import type * as productVariants from "../productVariants.js";
 import type * as promotions from "../promotions.js";
+import type * as ratings from "../ratings.js";
 import type * as reports from "../reports.js";
 import type * as reviews from "../reviews.js";
 import type * as sampleData from "../sampleData.js";
+import type * as scheduledOrders from "../scheduledOrders.js";
 import type * as search from "../search.js";
 import type * as seedData from "../seedData.js";
+import type * as stockMovements from "../stockMovements.js";
 import type * as storeFavorites from "../storeFavorites.js";
 import type * as stores from "../stores.js";
 import type * as support from "../support.js";
+import type * as tracking from "../tracking.js";
 import type * as users from "../users.js";
 import type * as util from "../util.js";
+import type * as webhookEvents from "../webhookEvents.js";
 
 import type {
   ApiFromModules,
@@ -51,33 +71,53 @@ declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
   auth: typeof auth;
   cart: typeof cart;
+  catalog: typeof catalog;
   chat: typeof chat;
+  checkoutQuotes: typeof checkoutQuotes;
+  crons: typeof crons;
   delivery: typeof delivery;
+  deliveryPricing: typeof deliveryPricing;
+  deliveryRuns: typeof deliveryRuns;
+  deliveryZones: typeof deliveryZones;
+  dispatch: typeof dispatch;
+  driverEarnings: typeof driverEarnings;
   drivers: typeof drivers;
+  driverShifts: typeof driverShifts;
   favorites: typeof favorites;
+  fees: typeof fees;
   follows: typeof follows;
+  fulfillment: typeof fulfillment;
   http: typeof http;
   inventory: typeof inventory;
+  ledger: typeof ledger;
   marketing: typeof marketing;
   notifications: typeof notifications;
+  orderEvents: typeof orderEvents;
   orders: typeof orders;
   paymentsActions: typeof paymentsActions;
   paymentsQueries: typeof paymentsQueries;
   payouts: typeof payouts;
+  payoutStatements: typeof payoutStatements;
   presence: typeof presence;
   productCategories: typeof productCategories;
   products: typeof products;
+  productVariants: typeof productVariants;
   promotions: typeof promotions;
+  ratings: typeof ratings;
   reports: typeof reports;
   reviews: typeof reviews;
   sampleData: typeof sampleData;
+  scheduledOrders: typeof scheduledOrders;
   search: typeof search;
   seedData: typeof seedData;
+  stockMovements: typeof stockMovements;
   storeFavorites: typeof storeFavorites;
   stores: typeof stores;
   support: typeof support;
+  tracking: typeof tracking;
   users: typeof users;
   util: typeof util;
+  webhookEvents: typeof webhookEvents;
 }>;
 
 /**
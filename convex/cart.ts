@@ -3,6 +3,9 @@ import { v } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
 import { validateToken } from "./util";
 import { ConvexError } from "convex/values";
+import { getItemUnitPrice } from "./checkoutQuotes";
+import { getReservedStock } from "./inventory";
+import { getVariantLabel, resolveItemVariant } from "./productVariants";
 
 export const getCartItems = query({
   args: { tokenIdentifier: v.optional(v.string()) },
@@ -30,33 +33,22 @@ export const getCartItems = query({
     return Promise.all(
       cartItems.map(async (item) => {
         const product = productsById.get(item.productId);
+        // A variant only counts while its product still has variants.
+        const variant = product?.hasVariants && item.variantId ? await ctx.db.get(item.variantId) : null;
 
-        // Calculate the price including options
-        let finalPrice = product?.price ?? 0;
-        if (product?.options && item.options) {
-          for (const option of product.options) {
-            const selectedChoice = item.options[option.title];
-            if (selectedChoice) {
-              if (Array.isArray(selectedChoice)) { // Multiple choice
-                selectedChoice.forEach(choiceName => {
-                  const choice = option.choices.find(c => c.name === choiceName);
-                  finalPrice += choice?.price_increment ?? 0;
-                });
-              } else { // Single choice
-                const choice = option.choices.find(c => c.name === selectedChoice);
-                finalPrice += choice?.price_increment ?? 0;
-              }
-            }
-          }
-        }
+        // Calculate the price including options, the same way checkout quotes do
+        const finalPrice = product ? getItemUnitPrice(product, item.options, variant) : 0;
+        const imageId = variant?.imageId ?? product?.imageIds?.[0];
 
         return {
           ...item,
+          variantId: variant?._id,
           name: product?.name ?? "Unknown Item",
           price: finalPrice, // Use the final calculated price
           // FIX: Use the first image from the `imageIds` array.
           // The form saves an array of image IDs, not a single one.
-          imageUrls: product?.imageIds?.[0] ? await ctx.storage.getUrl(product.imageIds[0]) : undefined,
+          // A variant's own image is shown instead when it has one.
+          imageUrls: imageId ? await ctx.storage.getUrl(imageId) : undefined,
         };
       })
     );
@@ -67,6 +59,7 @@ export const addItemToCart = mutation({
   args: {
     tokenIdentifier: v.string(),
     productId: v.id("products"),
+    variantId: v.optional(v.id("productVariants")),
     storeId: v.id("stores"),
     quantity: v.number(),
     options: v.optional(v.any()),
@@ -74,6 +67,10 @@ export const addItemToCart = mutation({
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
 
+    const product = await ctx.db.get(args.productId);
+    if (!product || product.storeId !== args.storeId) throw new ConvexError("Product not found.");
+    const variant = await resolveItemVariant(ctx, product, args.options, args.variantId);
+
     // Check if cart has items from a different store
     const currentCart = await ctx.db.query("cartItems").withIndex("by_user", (q) => q.eq("userId", user._id)).collect();
     const firstItem = currentCart[0];
@@ -94,7 +91,7 @@ export const addItemToCart = mutation({
     if (existingItem) {
       // Update quantity if item exists
       const newQuantity = existingItem.quantity + args.quantity;
-      await ctx.db.patch(existingItem._id, { quantity: newQuantity });
+      await ctx.db.patch(existingItem._id, { quantity: newQuantity, variantId: variant?._id });
     } else {
       // Security: Limit cart size to prevent abuse (e.g., max 50 unique items)
       if (currentCart.length >= 50) {
@@ -105,6 +102,7 @@ export const addItemToCart = mutation({
       await ctx.db.insert("cartItems", {
         userId: user._id,
         productId: args.productId,
+        variantId: variant?._id,
         storeId: args.storeId,
         quantity: args.quantity,
         options: args.options,
@@ -173,10 +171,33 @@ export const validateCartInventory = mutation({
         continue;
       }
 
+      // Stock held for other customers' payments in progress is not available
+      const reserved = await getReservedStock(ctx, product._id);
+
+      // Products with variants keep their stock on the variant alone
+      if (product.hasVariants) {
+        const variant = item.variantId ? await ctx.db.get(item.variantId) : null;
+        if (!variant || variant.productId !== product._id) {
+          issues.push({ cartItemId: item._id, name: product.name, status: "unavailable" });
+          continue;
+        }
+        const available = Math.max(0, variant.quantity - (reserved.byVariant.get(variant._id) ?? 0));
+        if (available < item.quantity) {
+          issues.push({
+            cartItemId: item._id,
+            name: `${product.name} (${getVariantLabel(variant)})`,
+            status: "insufficient_stock",
+            available,
+          });
+        }
+        continue;
+      }
+
       // Check main product stock if it's tracked (not for options-based stock)
       if (product.quantity !== undefined && product.quantity !== null && !product.options?.length) {
-        if (product.quantity < item.quantity) {
-          issues.push({ cartItemId: item._id, name: product.name, status: "insufficient_stock", available: product.quantity });
+        const available = Math.max(0, product.quantity - reserved.total);
+        if (available < item.quantity) {
+          issues.push({ cartItemId: item._id, name: product.name, status: "insufficient_stock", available });
         }
       }
 
@@ -188,12 +209,13 @@ export const validateCartInventory = mutation({
 
           const productChoice = productOption.choices.find(c => c.name === selectedChoice);
           if (productChoice && productChoice.quantity !== undefined && productChoice.quantity !== null) {
-            if (productChoice.quantity < item.quantity) {
+            const available = Math.max(0, productChoice.quantity - (reserved.byChoice.get(`${optionTitle}/${productChoice.name}`) ?? 0));
+            if (available < item.quantity) {
               issues.push({
                 cartItemId: item._id,
                 name: `${product.name} (${productChoice.name})`,
                 status: "insufficient_stock",
-                available: productChoice.quantity,
+                available,
               });
             }
           }
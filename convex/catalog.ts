@@ -0,0 +1,541 @@
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError, Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { validateToken } from "./util";
+import { getProductStock, recordStockChange } from "./stockMovements";
+
+const MAX_IMPORT_ROWS = 2000;
+const BATCH_SIZE = 25; // Each row reads and writes several documents, so batches stay small
+const SPICE_LEVELS = ["mild", "medium", "hot", "very hot"];
+
+type ProductOptions = NonNullable<Doc<"products">["options"]>;
+
+/**
+ * One product of a catalog file, as exported and as imported. CSV cells arrive as strings and JSON values as written;
+ * both are checked and converted by `checkCatalogRow`. An empty cell leaves an existing product's field unchanged.
+ */
+export const catalogRowValidator = v.object({
+  id: v.optional(v.string()),
+  sku: v.optional(v.string()),
+  name: v.optional(v.string()),
+  description: v.optional(v.string()),
+  category: v.optional(v.string()),
+  price: v.optional(v.union(v.number(), v.string())),
+  quantity: v.optional(v.union(v.number(), v.string())),
+  isAvailable: v.optional(v.union(v.boolean(), v.string())),
+  spiceLevel: v.optional(v.string()),
+  dietaryInfo: v.optional(v.union(v.array(v.string()), v.string())), // "; "-separated in CSV
+  options: v.optional(v.union(v.array(v.any()), v.string())), // JSON text in CSV
+});
+
+export type CatalogRow = Infer<typeof catalogRowValidator>;
+
+// The product fields a valid row sets. Name, category and price are always set for new products.
+type CatalogProduct = {
+  sku?: string;
+  name?: string;
+  description?: string;
+  category?: string;
+  price?: number;
+  quantity?: number;
+  isAvailable?: boolean;
+  spiceLevel?: string;
+  dietaryInfo?: string[];
+  options?: ProductOptions;
+};
+
+type CheckedRow = {
+  existing: Doc<"products"> | null; // The product the row updates, matched by ID or else by SKU
+  product: CatalogProduct | null; // Null when the row has errors
+  errors: string[];
+  warnings: string[];
+};
+
+async function getOwnedStore(ctx: QueryCtx, tokenIdentifier: string, storeId: Id<"stores">) {
+  const user = await validateToken(ctx, tokenIdentifier);
+  const store = await ctx.db.get(storeId);
+  if (!store || store.ownerId !== user.tokenIdentifier) {
+    throw new ConvexError("You do not have permission to manage this store's catalog.");
+  }
+  return { user, store };
+}
+
+const isBlank = (value: string | number | boolean | undefined) =>
+  value === undefined || (typeof value === "string" && value.trim() === "");
+
+const parseNumber = (value: string | number) => (typeof value === "number" ? value : Number(value.trim()));
+
+function parseBoolean(value: string | boolean) {
+  if (typeof value === "boolean") return value;
+  const text = value.trim().toLowerCase();
+  if (["true", "yes", "1"].includes(text)) return true;
+  if (["false", "no", "0"].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Checks a list of options against the shape products store them in. Returns the error message if it doesn't match.
+ */
+function parseOptions(value: string | any[]): ProductOptions | string {
+  let options: unknown = value;
+  if (typeof value === "string") {
+    try {
+      options = JSON.parse(value);
+    } catch {
+      return "Options must be a JSON list of options.";
+    }
+  }
+  if (!Array.isArray(options)) return "Options must be a JSON list of options.";
+
+  const parsed: ProductOptions = [];
+  for (const option of options) {
+    const title = typeof option?.title === "string" ? option.title.trim() : "";
+    if (!title) return "Every option needs a title.";
+    if (option.type !== "single" && option.type !== "multiple") {
+      return `Option "${title}" must have the type "single" or "multiple".`;
+    }
+    if (!Array.isArray(option.choices) || option.choices.length === 0) return `Option "${title}" needs at least one choice.`;
+
+    const choices: ProductOptions[number]["choices"] = [];
+    for (const choice of option.choices) {
+      const name = typeof choice?.name === "string" ? choice.name.trim() : "";
+      if (!name) return `Every choice of option "${title}" needs a name.`;
+      const priceIncrement = choice.price_increment ?? 0;
+      if (typeof priceIncrement !== "number" || priceIncrement < 0) {
+        return `The price increment of "${title}: ${name}" must be a number of at least 0.`;
+      }
+      const quantity = choice.quantity ?? undefined;
+      if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 0)) {
+        return `Stock of "${title}: ${name}" must be a whole number of at least 0.`;
+      }
+      const ingredients = choice.ingredients ?? undefined;
+      if (ingredients !== undefined && typeof ingredients !== "string") {
+        return `The ingredients of "${title}: ${name}" must be text.`;
+      }
+      choices.push({ name, price_increment: priceIncrement, quantity, ingredients });
+    }
+    parsed.push({ title, type: option.type, choices });
+  }
+  return parsed;
+}
+
+/**
+ * Validates one catalog row against the store's products and converts it to the fields it sets.
+ * Rows without a matching product create one, so they need a name, category and price.
+ */
+async function checkCatalogRow(ctx: QueryCtx, store: Doc<"stores">, row: CatalogRow): Promise<CheckedRow> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let existing: Doc<"products"> | null = null;
+  const id = row.id?.trim();
+  const sku = row.sku?.trim() || undefined;
+  if (id) {
+    const productId = ctx.db.normalizeId("products", id);
+    const product = productId ? await ctx.db.get(productId) : null;
+    if (product && product.storeId === store._id) existing = product;
+    else errors.push(`There is no product with ID ${id} in this store.`);
+  }
+  if (sku) {
+    const skuOwner = await ctx.db
+      .query("products")
+      .withIndex("by_store_and_sku", (q) => q.eq("storeId", store._id).eq("sku", sku))
+      .first();
+    if (!id) existing = skuOwner;
+    else if (skuOwner && existing && skuOwner._id !== existing._id) errors.push(`SKU ${sku} is already used by "${skuOwner.name}".`);
+
+    const variant = await ctx.db
+      .query("productVariants")
+      .withIndex("by_store_and_sku", (q) => q.eq("storeId", store._id).eq("sku", sku))
+      .first();
+    if (variant) errors.push(`SKU ${sku} is already used by a product variant.`);
+  }
+
+  const name = row.name?.trim() || undefined;
+  const category = row.category?.trim() || undefined;
+  if (!existing && !id) {
+    if (!name) errors.push("Name is required for new products.");
+    if (!category) errors.push("Category is required for new products.");
+    if (isBlank(row.price)) errors.push("Price is required for new products.");
+  }
+
+  let price: number | undefined;
+  if (!isBlank(row.price)) {
+    price = parseNumber(row.price!);
+    if (!Number.isFinite(price) || price < 0) errors.push("Price must be a number of at least 0.");
+  }
+
+  let quantity: number | undefined;
+  if (!isBlank(row.quantity)) {
+    quantity = parseNumber(row.quantity!);
+    if (!Number.isInteger(quantity) || quantity < 0) errors.push("Quantity must be a whole number of at least 0.");
+  }
+
+  let isAvailable: boolean | undefined;
+  if (!isBlank(row.isAvailable)) {
+    isAvailable = parseBoolean(row.isAvailable!) ?? undefined;
+    if (isAvailable === undefined) errors.push("Available must be true or false.");
+  }
+
+  const spiceLevel = row.spiceLevel?.trim().toLowerCase() || undefined;
+  if (spiceLevel && !SPICE_LEVELS.includes(spiceLevel)) errors.push(`Spice level must be one of: ${SPICE_LEVELS.join(", ")}.`);
+
+  const dietaryInfo = row.dietaryInfo === undefined || (typeof row.dietaryInfo === "string" && row.dietaryInfo.trim() === "")
+    ? undefined
+    : (typeof row.dietaryInfo === "string" ? row.dietaryInfo.split(/[;,]/) : row.dietaryInfo)
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+
+  let options: ProductOptions | undefined;
+  if (typeof row.options === "string" ? row.options.trim() !== "" : row.options !== undefined) {
+    const parsed = parseOptions(row.options!);
+    if (typeof parsed === "string") errors.push(parsed);
+    else options = parsed;
+  }
+
+  // Variant stock and the options variants are made of are edited in the variant matrix.
+  if (existing?.hasVariants) {
+    if (options && JSON.stringify(options) !== JSON.stringify(parseOptions(existing.options ?? []))) {
+      warnings.push("Options are kept: this product's variants are edited in Inventory.");
+    }
+    if (quantity !== undefined && quantity !== existing.quantity) {
+      warnings.push("Quantity is kept: this product is stocked per variant.");
+    }
+    options = undefined;
+    quantity = undefined;
+  } else {
+    const stockedOptions = options ?? existing?.options;
+    if (quantity !== undefined && stockedOptions && stockedOptions.length > 0) {
+      if (quantity !== getProductStock({ options: stockedOptions })) {
+        warnings.push("Quantity is ignored: this product is stocked per option choice.");
+      }
+      quantity = undefined;
+    }
+  }
+
+  return {
+    existing,
+    product: errors.length > 0 ? null : {
+      sku,
+      name,
+      description: row.description?.trim() || undefined,
+      category,
+      price,
+      quantity,
+      isAvailable,
+      spiceLevel,
+      dietaryInfo,
+      options,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Validates every row of a catalog file, including that no product or SKU appears twice.
+ * Also returns the categories the import would create.
+ */
+async function checkCatalogRows(ctx: QueryCtx, store: Doc<"stores">, rows: CatalogRow[]) {
+  if (rows.length === 0) throw new ConvexError("The file has no products.");
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ConvexError(`A catalog import can have at most ${MAX_IMPORT_ROWS} products. Split the file and import it in parts.`);
+  }
+
+  const categories = await ctx.db
+    .query("productCategories")
+    .withIndex("by_store", (q) => q.eq("storeId", store._id))
+    .collect();
+  const knownCategories = new Set(categories.map((category) => category.name.toLowerCase()));
+  const newCategories: string[] = [];
+  const rowByProduct = new Map<Id<"products">, number>();
+  const rowBySku = new Map<string, number>();
+
+  const results = [];
+  for (let i = 0; i < rows.length; i++) {
+    const rowNumber = i + 1;
+    const checked = await checkCatalogRow(ctx, store, rows[i]);
+
+    if (checked.existing) {
+      const firstRow = rowByProduct.get(checked.existing._id);
+      if (firstRow) checked.errors.push(`This product is already on row ${firstRow}.`);
+      else rowByProduct.set(checked.existing._id, rowNumber);
+    }
+    const sku = rows[i].sku?.trim();
+    if (sku) {
+      const firstRow = rowBySku.get(sku);
+      if (firstRow) checked.errors.push(`SKU ${sku} is already on row ${firstRow}.`);
+      else rowBySku.set(sku, rowNumber);
+    }
+
+    const category = checked.product?.category;
+    if (checked.errors.length === 0 && category && !knownCategories.has(category.toLowerCase())) {
+      knownCategories.add(category.toLowerCase());
+      newCategories.push(category);
+    }
+
+    results.push({
+      rowNumber,
+      name: checked.product?.name ?? checked.existing?.name ?? rows[i].name?.trim() ?? "",
+      action: checked.existing ? "update" as const : "create" as const,
+      errors: checked.errors,
+      warnings: checked.warnings,
+    });
+  }
+
+  const valid = results.filter((result) => result.errors.length === 0);
+  return {
+    rows: results,
+    toCreate: valid.filter((result) => result.action === "create").length,
+    toUpdate: valid.filter((result) => result.action === "update").length,
+    errorCount: results.length - valid.length,
+    newCategories,
+  };
+}
+
+/**
+ * The store's category with this name, ignoring case, creating it if there is none.
+ */
+async function ensureCategory(ctx: MutationCtx, storeId: Id<"stores">, categories: Doc<"productCategories">[], name: string) {
+  const match = categories.find((category) => category.name.toLowerCase() === name.toLowerCase());
+  if (match) return match.name;
+  const categoryId = await ctx.db.insert("productCategories", { storeId, name });
+  categories.push((await ctx.db.get(categoryId))!);
+  return name;
+}
+
+/**
+ * Creates or updates the product of a validated row, logging its stock change. Returns which it did.
+ */
+async function upsertCatalogProduct(
+  ctx: MutationCtx,
+  store: Doc<"stores">,
+  existing: Doc<"products"> | null,
+  fields: CatalogProduct,
+  categories: Doc<"productCategories">[],
+  actorId: Id<"users">
+) {
+  const category = fields.category ? await ensureCategory(ctx, store._id, categories, fields.category) : undefined;
+  // Products with options are stocked per choice.
+  const options = fields.options ?? existing?.options;
+  const quantity = options && options.length > 0 && !existing?.hasVariants ? getProductStock({ options }) : fields.quantity;
+
+  if (!existing) {
+    const productId = await ctx.db.insert("products", {
+      storeId: store._id,
+      sku: fields.sku,
+      name: fields.name!,
+      description: fields.description ?? "",
+      price: fields.price!,
+      category: category!,
+      imageIds: [],
+      quantity,
+      spiceLevel: fields.spiceLevel,
+      dietaryInfo: fields.dietaryInfo ?? [],
+      options: fields.options,
+      isAvailable: fields.isAvailable ?? (quantity !== undefined ? quantity > 0 : true),
+      isPopular: false,
+      ingredients: [],
+    });
+    const product = (await ctx.db.get(productId))!;
+    // Logged as a change from an empty product so the ledger starts with the opening stock.
+    await recordStockChange(ctx, store, { ...product, quantity: undefined, options: undefined }, product, {
+      type: "restock",
+      reason: "Opening stock (catalog import)",
+      actorId,
+    });
+    return "created" as const;
+  }
+
+  const changes: Partial<Doc<"products">> = {
+    sku: fields.sku,
+    name: fields.name,
+    description: fields.description,
+    price: fields.price,
+    category,
+    quantity,
+    spiceLevel: fields.spiceLevel,
+    dietaryInfo: fields.dietaryInfo,
+    options: fields.options,
+    isAvailable: fields.isAvailable ?? (quantity !== undefined ? quantity > 0 : undefined),
+  };
+  // Patching a field to undefined removes it, so fields the row leaves empty are left out.
+  const updateData = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as Partial<Doc<"products">>;
+
+  await recordStockChange(ctx, store, existing, updateData, { reason: "Catalog import", actorId });
+  await ctx.db.patch(existing._id, updateData);
+  return "updated" as const;
+}
+
+/**
+ * Dry run of a catalog import: validates every row and reports what the import would create and update,
+ * without changing anything. Store owner only.
+ */
+export const previewCatalogImport = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    rows: v.array(catalogRowValidator),
+  },
+  handler: async (ctx, args) => {
+    const { store } = await getOwnedStore(ctx, args.tokenIdentifier, args.storeId);
+    return checkCatalogRows(ctx, store, args.rows);
+  },
+});
+
+/**
+ * Starts a catalog import in the background. Every row must validate; rows are upserted in batches,
+ * creating product categories as needed. Store owner only.
+ */
+export const startCatalogImport = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    rows: v.array(catalogRowValidator),
+    fileName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user, store } = await getOwnedStore(ctx, args.tokenIdentifier, args.storeId);
+
+    const running = await ctx.db
+      .query("catalogImports")
+      .withIndex("by_store", (q) => q.eq("storeId", store._id))
+      .filter((q) => q.eq(q.field("status"), "running"))
+      .first();
+    if (running) throw new ConvexError("An import is already running for this store. Wait for it to finish.");
+
+    const report = await checkCatalogRows(ctx, store, args.rows);
+    if (report.errorCount > 0) {
+      throw new ConvexError(`Fix the ${report.errorCount} row(s) with errors before importing.`);
+    }
+
+    const importId = await ctx.db.insert("catalogImports", {
+      storeId: store._id,
+      userId: user._id,
+      fileName: args.fileName,
+      status: "running",
+      total: args.rows.length,
+      processed: 0,
+      created: 0,
+      updated: 0,
+      failedRows: [],
+    });
+    for (let i = 0; i < args.rows.length; i++) {
+      await ctx.db.insert("catalogImportRows", { importId, rowNumber: i + 1, row: args.rows[i] });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.catalog.processCatalogImportBatch, { importId });
+    return importId;
+  },
+});
+
+// Internal mutation to upsert an import's rows in batches (Background Job)
+export const processCatalogImportBatch = internalMutation({
+  args: { importId: v.id("catalogImports") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.importId);
+    if (!job || job.status !== "running") return;
+
+    // Upserted rows are deleted, so the next batch always starts at the first remaining row.
+    const rows = await ctx.db
+      .query("catalogImportRows")
+      .withIndex("by_import", (q) => q.eq("importId", job._id))
+      .take(BATCH_SIZE);
+    const store = await ctx.db.get(job.storeId);
+    if (!store || rows.length === 0) {
+      await ctx.db.patch(job._id, { status: "completed", finishedAt: Date.now() });
+      return;
+    }
+
+    const categories = await ctx.db
+      .query("productCategories")
+      .withIndex("by_store", (q) => q.eq("storeId", store._id))
+      .collect();
+    let created = 0;
+    let updated = 0;
+    const failedRows = [...job.failedRows];
+    for (const { _id, rowNumber, row } of rows) {
+      // Checked again, as the store's products may have changed since the import started.
+      const checked = await checkCatalogRow(ctx, store, row);
+      if (checked.product) {
+        const result = await upsertCatalogProduct(ctx, store, checked.existing, checked.product, categories, job.userId);
+        if (result === "created") created++;
+        else updated++;
+      } else {
+        failedRows.push({ rowNumber, errors: checked.errors });
+      }
+      await ctx.db.delete(_id);
+    }
+
+    if (created > 0) {
+      // OPTIMIZATION: Increment the store's totalProducts counter
+      await ctx.db.patch(store._id, { totalProducts: (store.totalProducts ?? 0) + created });
+    }
+    await ctx.db.patch(job._id, {
+      processed: job.processed + rows.length,
+      created: job.created + created,
+      updated: job.updated + updated,
+      failedRows,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.catalog.processCatalogImportBatch, { importId: job._id });
+  },
+});
+
+/**
+ * The store's most recent catalog import, to follow its progress. Store owner only.
+ */
+export const getLatestCatalogImport = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedStore(ctx, args.tokenIdentifier, args.storeId);
+    return ctx.db
+      .query("catalogImports")
+      .withIndex("by_store", (q) => q.eq("storeId", args.storeId))
+      .order("desc")
+      .first();
+  },
+});
+
+/**
+ * A page of the store's catalog as import rows, so an export can be edited and imported again. Store owner only.
+ */
+export const exportCatalogPage = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const { store } = await getOwnedStore(ctx, args.tokenIdentifier, args.storeId);
+    const result = await ctx.db
+      .query("products")
+      .withIndex("by_store", (q) => q.eq("storeId", store._id))
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((product): CatalogRow => ({
+        id: product._id,
+        sku: product.sku ?? "",
+        name: product.name,
+        description: product.description,
+        category: product.category,
+        price: product.price,
+        // Restaurants don't track stock.
+        quantity: store.storeType === 'restaurant' ? undefined : getProductStock(product),
+        isAvailable: product.isAvailable,
+        spiceLevel: product.spiceLevel ?? "",
+        dietaryInfo: product.dietaryInfo ?? [],
+        options: product.options ?? [],
+      })),
+    };
+  },
+});
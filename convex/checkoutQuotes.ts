@@ -0,0 +1,279 @@
+import { mutation, internalQuery, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { validateToken } from "./util";
+import { evaluateDiscountCode } from "./marketing";
+import { quoteDeliveryFee } from "./deliveryPricing";
+import { assertDeliveryCoverage } from "./deliveryZones";
+import { assertFulfillmentAvailable } from "./fulfillment";
+import { resolveItemVariant } from "./productVariants";
+
+// How long a customer has to start paying once their cart is priced.
+export const CHECKOUT_QUOTE_TTL_MINUTES = 10;
+// Quotes are kept a day so payments approved just before expiry can still be turned into orders.
+// Quotes with an approved payment are kept longer, until its order exists or the payment is dropped.
+const CHECKOUT_QUOTE_RETENTION_MS = 24 * 60 * 60 * 1000;
+// Pi amounts have 7 decimal places.
+const AMOUNT_TOLERANCE = 0.0000001;
+
+/**
+ * A product's price with the `price_increment` of every chosen option added.
+ * A variant with its own price replaces the product price and the increments of the choices that pick it.
+ */
+export function getItemUnitPrice(
+  product: Doc<"products">,
+  options?: Record<string, any>,
+  variant?: Doc<"productVariants"> | null
+) {
+  const hasPrice = variant?.price !== undefined;
+  let price = hasPrice ? variant!.price! : product.price;
+  if (!product.options || !options) return price;
+  for (const option of product.options) {
+    const selected = options[option.title];
+    if (!selected || (hasPrice && variant!.optionValues.some((value) => value.title === option.title))) continue;
+    for (const choiceName of Array.isArray(selected) ? selected : [selected]) {
+      price += option.choices.find((c) => c.name === choiceName)?.price_increment ?? 0;
+    }
+  }
+  return price;
+}
+
+// Option objects are compared by content, not key order.
+const getItemKey = (productId: string, variantId: string | undefined, quantity: number, options?: Record<string, any>) =>
+  JSON.stringify([productId, variantId ?? null, quantity, Object.keys(options ?? {}).sort().map((key) => [key, options![key]])]);
+
+/**
+ * Prices the customer's cart on the server from the products, the discount rules and the delivery fee,
+ * and stores the result as a quote their payment must match.
+ */
+export const createCheckoutQuote = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    items: v.array(v.object({
+      productId: v.id("products"),
+      variantId: v.optional(v.id("productVariants")),
+      quantity: v.number(),
+      options: v.optional(v.any()),
+    })),
+    fulfillmentType: v.union(v.literal("delivery"), v.literal("pickup")),
+    discountCode: v.optional(v.string()),
+    deliveryAddressId: v.optional(v.id("userAddresses")),
+    tip: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store) throw new ConvexError("Store not found.");
+    if (args.items.length === 0) throw new ConvexError("Your cart is empty.");
+    assertFulfillmentAvailable(store, args.fulfillmentType);
+
+    const items = await Promise.all(
+      args.items.map(async (item) => {
+        const product = await ctx.db.get(item.productId);
+        if (!product || product.storeId !== store._id) {
+          throw new ConvexError("An item in your cart is no longer sold by this store.");
+        }
+        if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+          throw new ConvexError(`Invalid quantity for ${product.name}.`);
+        }
+        const variant = await resolveItemVariant(ctx, product, item.options, item.variantId);
+        return { ...item, variantId: variant?._id, unitPrice: getItemUnitPrice(product, item.options, variant) };
+      })
+    );
+    const subtotal = items.reduce((sum, item) => sum + item.unitPrice * item.quantity, 0);
+
+    let discount: Doc<"discounts"> | null = null;
+    let discountAmount = 0;
+    if (args.discountCode) {
+      const result = await evaluateDiscountCode(ctx, {
+        storeId: store._id,
+        code: args.discountCode,
+        orderTotal: subtotal,
+        userId: user._id,
+      });
+      if (result.isValid === false) throw new ConvexError(result.message);
+      discount = result.discount;
+      discountAmount = result.discountAmount;
+    }
+
+    // Delivery is priced from the customer's saved address, never from coordinates the client sends.
+    const isDelivery = args.fulfillmentType === "delivery";
+    const address = isDelivery && args.deliveryAddressId ? await ctx.db.get(args.deliveryAddressId) : null;
+    if (isDelivery && (!address || address.userId !== user._id)) {
+      throw new ConvexError("Please choose one of your saved addresses for delivery.");
+    }
+    if (address) {
+      await assertDeliveryCoverage(ctx, store, {
+        country: address.country,
+        city: address.city,
+        latitude: address.latitude,
+        longitude: address.longitude,
+        subtotal,
+      });
+    }
+    // Addresses without coordinates can't be priced by distance, and have always been delivered for free.
+    const deliveryQuote = address && address.latitude !== undefined && address.longitude !== undefined
+      ? await quoteDeliveryFee(ctx, store, { latitude: address.latitude, longitude: address.longitude, subtotal })
+      : null;
+    if (address && address.latitude !== undefined && !deliveryQuote) {
+      throw new ConvexError("This store can't deliver to your address.");
+    }
+    const deliveryFee = deliveryQuote?.fee ?? 0;
+    if (args.tip !== undefined && !Number.isFinite(args.tip)) {
+      throw new ConvexError("Invalid tip amount.");
+    }
+    // Tips go to the driver, so pickup orders have none.
+    const tip = isDelivery ? Math.max(0, args.tip ?? 0) : 0;
+
+    const quote = {
+      userId: user._id,
+      storeId: store._id,
+      items,
+      fulfillmentType: args.fulfillmentType,
+      subtotal,
+      discountId: discount?._id,
+      discountCode: discount?.code,
+      discountAmount,
+      deliveryFee,
+      deliveryFeeBreakdown: deliveryQuote?.breakdown,
+      tip,
+      total: subtotal - discountAmount + deliveryFee + tip,
+      deliveryAddressId: address?._id,
+      expiresAt: Date.now() + CHECKOUT_QUOTE_TTL_MINUTES * 60 * 1000,
+    };
+    const quoteId = await ctx.db.insert("checkoutQuotes", quote);
+    await ctx.scheduler.runAfter(CHECKOUT_QUOTE_RETENTION_MS, internal.checkoutQuotes.deleteCheckoutQuote, { quoteId });
+
+    return { quoteId, ...quote };
+  },
+});
+
+/**
+ * Checks a payment against the customer's checkout quote: the quote must be theirs, unused and unexpired,
+ * the amount must be its total, and the metadata must describe the same store, items, fulfillment, discount
+ * and delivery address.
+ */
+export async function assertCheckoutQuoteMatches(ctx: QueryCtx, userId: Id<"users">, amount: number, metadata: any) {
+  const quoteId = typeof metadata?.quoteId === "string" ? ctx.db.normalizeId("checkoutQuotes", metadata.quoteId) : null;
+  const quote = quoteId ? await ctx.db.get(quoteId) : null;
+  if (!quote || quote.userId !== userId) {
+    throw new ConvexError("Your checkout could not be verified. Please review your cart and try again.");
+  }
+  if (quote.usedAt !== undefined) {
+    throw new ConvexError("This checkout has already been paid for.");
+  }
+  if (quote.expiresAt < Date.now()) {
+    throw new ConvexError("Your checkout has expired. Please review your cart and try again.");
+  }
+  if (Math.abs(amount - quote.total) > AMOUNT_TOLERANCE) {
+    throw new ConvexError("The payment amount does not match your checkout total.");
+  }
+
+  const metadataItems = Array.isArray(metadata.items) ? (metadata.items as any[]) : [];
+  const itemsMatch =
+    metadataItems.length === quote.items.length &&
+    metadataItems.every((item, i) => {
+      const quoted = quote.items[i];
+      return getItemKey(String(item.id), item.variantId, item.quantity, item.options) ===
+        getItemKey(quoted.productId, quoted.variantId, quoted.quantity, quoted.options);
+    });
+  const fulfillmentType = metadata.fulfillmentType === "pickup" ? "pickup" : "delivery";
+  const discountCode = metadata.discount?.code ? String(metadata.discount.code).toUpperCase() : undefined;
+  const deliveryAddressId = fulfillmentType === "delivery" ? metadata.deliveryAddressId : undefined;
+  if (
+    metadata.storeId !== quote.storeId ||
+    !itemsMatch ||
+    fulfillmentType !== quote.fulfillmentType ||
+    discountCode !== quote.discountCode ||
+    deliveryAddressId !== quote.deliveryAddressId
+  ) {
+    throw new ConvexError("Your cart changed since checkout was priced. Please review your cart and try again.");
+  }
+  return quote;
+}
+
+/**
+ * Checks that the store still delivers to the quote's saved address, for the quote's own subtotal.
+ * @throws ConvexError describing why the order cannot be delivered.
+ */
+export async function assertQuoteDeliveryCoverage(ctx: QueryCtx, quote: Doc<"checkoutQuotes">) {
+  if (quote.fulfillmentType !== "delivery") return;
+  const store = await ctx.db.get(quote.storeId);
+  const address = quote.deliveryAddressId ? await ctx.db.get(quote.deliveryAddressId) : null;
+  if (!store) throw new ConvexError("Store not found.");
+  if (!address) throw new ConvexError("Please choose one of your saved addresses for delivery.");
+  await assertDeliveryCoverage(ctx, store, {
+    country: address.country,
+    city: address.city,
+    latitude: address.latitude,
+    longitude: address.longitude,
+    subtotal: quote.subtotal,
+  });
+}
+
+/**
+ * Internal query used by payment approval to check the payment against its checkout quote,
+ * and that the quoted address is still delivered to.
+ */
+export const checkCheckoutQuote = internalQuery({
+  args: {
+    userId: v.id("users"),
+    amount: v.number(),
+    metadata: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const quote = await assertCheckoutQuoteMatches(ctx, args.userId, args.amount, args.metadata);
+    await assertQuoteDeliveryCoverage(ctx, quote);
+    return null;
+  },
+});
+
+/**
+ * Records the Pi payment approved against a checkout quote, so the quote is kept until that payment's order exists.
+ */
+export async function markCheckoutQuoteApproved(ctx: MutationCtx, metadata: any, paymentId: string) {
+  const quoteId = typeof metadata?.quoteId === "string" ? ctx.db.normalizeId("checkoutQuotes", metadata.quoteId) : null;
+  if (quoteId && await ctx.db.get(quoteId)) {
+    await ctx.db.patch(quoteId, { paymentId });
+  }
+}
+
+/**
+ * Marks the quote a paid checkout was priced with as used, and returns it for creating the order.
+ * The payment was checked against the quote before it was taken, so expiry is not checked again.
+ */
+export async function claimCheckoutQuote(ctx: MutationCtx, userId: Id<"users">, metadata: any) {
+  const quoteId = typeof metadata?.quoteId === "string" ? ctx.db.normalizeId("checkoutQuotes", metadata.quoteId) : null;
+  const quote = quoteId ? await ctx.db.get(quoteId) : null;
+  if (!quote || quote.userId !== userId) {
+    throw new ConvexError("Checkout quote not found for this order.");
+  }
+  if (quote.usedAt === undefined) {
+    await ctx.db.patch(quote._id, { usedAt: Date.now() });
+  }
+  return quote;
+}
+
+export const deleteCheckoutQuote = internalMutation({
+  args: { quoteId: v.id("checkoutQuotes") },
+  handler: async (ctx, args) => {
+    const quote = await ctx.db.get(args.quoteId);
+    if (!quote) return;
+
+    // A payment approved against the quote can still be completed, by the customer or by reconciliation,
+    // so the quote stays until its order is created or the payment is cancelled or fails.
+    if (quote.paymentId && quote.usedAt === undefined) {
+      const payment = await ctx.db
+        .query("piPayments")
+        .withIndex("by_payment_id", (q) => q.eq("paymentId", quote.paymentId!))
+        .first();
+      if (payment && payment.status !== "cancelled" && payment.status !== "failed") {
+        await ctx.scheduler.runAfter(CHECKOUT_QUOTE_RETENTION_MS, internal.checkoutQuotes.deleteCheckoutQuote, { quoteId: quote._id });
+        return;
+      }
+    }
+    await ctx.db.delete(quote._id);
+  },
+});
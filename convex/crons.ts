@@ -0,0 +1,22 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Recover Pi payments stuck in pending/approved when both the client callback and the webhook failed.
+crons.interval(
+  "reconcile pi payments",
+  { minutes: 15 },
+  internal.paymentsActions.reconcilePayments,
+  {}
+);
+
+// Pay stores on a daily or weekly payout schedule as one statement each.
+crons.interval(
+  "process payout statements",
+  { hours: 1 },
+  internal.paymentsActions.processPayoutStatements,
+  {}
+);
+
+export default crons;
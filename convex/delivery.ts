@@ -1,6 +1,8 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 import { validateToken } from "./util";
+import { estimateRunStopEtas } from "./tracking";
 
 /**
  * Fetches all orders assigned to the currently authenticated driver.
@@ -38,14 +40,49 @@ export const getAssignedOrders = query({
     // Get all orders assigned to this driver that are 'out_for_delivery'
     // OPTIMIZATION: Use 'by_status' index to avoid full table scan on 'driverId'.
     // Fetching active deliveries is much faster than scanning all history.
-    const assignedOrders = await ctx.db
+    const activeOrders = await ctx.db
       .query("orders")
       .withIndex("by_status", (q) => q.eq("status", "out_for_delivery"))
       .filter(q => q.eq(q.field("driverId"), user._id))
       .collect();
-    
-    // Sort in memory (newest first)
-    assignedOrders.sort((a, b) => b._creationTime - a._creationTime);
+
+    // Orders the driver accepted through auto-dispatch that are still being prepared
+    const awaitingPickupOrders = await ctx.db
+      .query("orders")
+      .withIndex("by_status", (q) => q.eq("status", "preparing"))
+      .filter(q => q.eq(q.field("driverId"), user._id))
+      .collect();
+
+    const assignedOrders = [...activeOrders, ...awaitingPickupOrders];
+
+    // Stop numbers and ETAs of the driver's multi-drop runs, from their last known position
+    const presence = await ctx.db
+      .query("presence")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+    const runIds = Array.from(new Set(assignedOrders.flatMap((order) => (order.deliveryRunId ? [order.deliveryRunId] : []))));
+    const runStops = new Map<Id<"orders">, { runId: Id<"deliveryRuns">; stopNumber: number; totalStops: number; etaMinutes: number | null }>();
+    for (const runId of runIds) {
+      const run = await ctx.db.get(runId);
+      if (!run) continue;
+      const etas = presence?.latitude !== undefined && presence?.longitude !== undefined
+        ? await estimateRunStopEtas(ctx, run, { latitude: presence.latitude, longitude: presence.longitude })
+        : new Map();
+      run.orderIds.forEach((orderId, index) => {
+        runStops.set(orderId, { runId, stopNumber: index + 1, totalStops: run.orderIds.length, etaMinutes: etas.get(orderId)?.etaMinutes ?? null });
+      });
+    }
+
+    // Sort in memory (newest first), keeping the stops of a run together in route order
+    const sortKey = (order: Doc<"orders">) => {
+      const run = order.deliveryRunId ? assignedOrders.filter((o) => o.deliveryRunId === order.deliveryRunId) : [order];
+      return Math.max(...run.map((o) => o._creationTime));
+    };
+    assignedOrders.sort((a, b) =>
+      sortKey(b) - sortKey(a) ||
+      (a.deliveryRunId ?? "").localeCompare(b.deliveryRunId ?? "") ||
+      (runStops.get(a._id)?.stopNumber ?? 0) - (runStops.get(b._id)?.stopNumber ?? 0)
+    );
 
     // Fetch customer profiles to get phone numbers
     const ordersWithDetails = await Promise.all(
@@ -57,6 +94,8 @@ export const getAssignedOrders = query({
         return {
           ...order,
           customerPhone: profile?.phone,
+          runStop: runStops.get(order._id) ?? null,
+          handoverCode: undefined, // The driver gets the code from the customer at the door
         };
       })
     );
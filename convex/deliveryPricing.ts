@@ -0,0 +1,241 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken, getDistanceFromLatLonInKm } from "./util";
+import { findDeliveryZone, getStoreDeliveryZones } from "./deliveryZones";
+
+export type DeliveryFeeLine = { label: string; amount: number };
+
+type PricingRules = Pick<
+  Doc<"deliveryPricingRules">,
+  "baseFee" | "distanceTiers" | "smallOrderThreshold" | "smallOrderSurcharge" | "freeDeliveryThreshold" | "surges" | "utcOffsetMinutes"
+>;
+
+/**
+ * Pricing used before any rules are saved: the legacy flat `deliveryPricePerKm` app setting.
+ */
+async function getLegacyPricingRules(ctx: QueryCtx): Promise<PricingRules> {
+  const setting = await ctx.db.query("appSettings").withIndex("by_key", q => q.eq("key", "deliveryPricePerKm")).unique();
+  return {
+    baseFee: 0,
+    distanceTiers: [{ perKmFee: setting?.value ?? 0.5 }], // Default to 0.5 Pi if not set
+    surges: [],
+  };
+}
+
+/**
+ * The rules that price a store's deliveries: its own rules, else the platform default, else the legacy setting.
+ */
+export async function getDeliveryPricingRules(ctx: QueryCtx, storeId: Id<"stores">): Promise<PricingRules> {
+  const storeRules = await ctx.db
+    .query("deliveryPricingRules")
+    .withIndex("by_store", (q) => q.eq("storeId", storeId))
+    .unique();
+  if (storeRules) return storeRules;
+
+  const platformRules = await ctx.db
+    .query("deliveryPricingRules")
+    .withIndex("by_store", (q) => q.eq("storeId", undefined))
+    .unique();
+  return platformRules ?? (await getLegacyPricingRules(ctx));
+}
+
+/**
+ * Charges each tier's rate for the kilometers that fall inside it.
+ */
+function priceDistance(distanceKm: number, tiers: PricingRules["distanceTiers"]) {
+  let fee = 0;
+  let coveredKm = 0;
+  for (const tier of tiers) {
+    const tierEnd = tier.upToKm ?? Infinity;
+    if (distanceKm <= coveredKm) break;
+    fee += (Math.min(distanceKm, tierEnd) - coveredKm) * tier.perKmFee;
+    coveredKm = tierEnd;
+  }
+  return fee;
+}
+
+function isInHourWindow(hour: number, startHour: number, endHour: number) {
+  // Windows may wrap past midnight, e.g. 22 to 2.
+  return startHour <= endHour ? hour >= startHour && hour < endHour : hour >= startHour || hour < endHour;
+}
+
+/**
+ * The surge that applies right now: manual flags that are switched on and time-of-day windows we are inside.
+ * Surges do not compound; the highest multiplier wins.
+ */
+function findActiveSurge(rules: PricingRules, now: number) {
+  const localHour = new Date(now + (rules.utcOffsetMinutes ?? 0) * 60 * 1000).getUTCHours();
+  const active = rules.surges.filter((surge) => {
+    if (surge.isActive === false) return false;
+    if (surge.startHour === undefined || surge.endHour === undefined) return surge.isActive === true;
+    return isInHourWindow(localHour, surge.startHour, surge.endHour);
+  });
+  return active.sort((a, b) => b.multiplier - a.multiplier)[0] ?? null;
+}
+
+/**
+ * Prices a delivery and explains the price line by line.
+ * A delivery zone covering the destination replaces the base fee and distance rate.
+ * Returns null when the store cannot deliver to the destination.
+ */
+export async function quoteDeliveryFee(
+  ctx: QueryCtx,
+  store: Doc<"stores">,
+  destination: { latitude: number; longitude: number; subtotal?: number },
+  now = Date.now()
+) {
+  const rules = await getDeliveryPricingRules(ctx, store._id);
+  const point = { latitude: destination.latitude, longitude: destination.longitude };
+  const breakdown: DeliveryFeeLine[] = [];
+
+  const zones = await getStoreDeliveryZones(ctx, store._id);
+  if (zones.length > 0) {
+    const match = await findDeliveryZone(ctx, store, point);
+    if (!match) return null;
+    const distanceKm = match.distanceKm ?? 0;
+    breakdown.push({ label: `Base fee (${match.zone.name})`, amount: match.zone.baseFee });
+    breakdown.push({ label: `Distance (${distanceKm.toFixed(1)} km)`, amount: distanceKm * match.zone.perKmFee });
+  } else {
+    if (store.latitude == null || store.longitude == null) return null;
+    const distanceKm = getDistanceFromLatLonInKm(store.latitude, store.longitude, point.latitude, point.longitude);
+    breakdown.push({ label: "Base fee", amount: rules.baseFee });
+    breakdown.push({ label: `Distance (${distanceKm.toFixed(1)} km)`, amount: priceDistance(distanceKm, rules.distanceTiers) });
+  }
+
+  const subtotal = destination.subtotal;
+  if (
+    subtotal !== undefined &&
+    rules.smallOrderThreshold !== undefined &&
+    rules.smallOrderSurcharge !== undefined &&
+    subtotal < rules.smallOrderThreshold
+  ) {
+    breakdown.push({ label: `Small order surcharge (under ${rules.smallOrderThreshold} Pi)`, amount: rules.smallOrderSurcharge });
+  }
+
+  const surge = findActiveSurge(rules, now);
+  if (surge && surge.multiplier > 1) {
+    const beforeSurge = breakdown.reduce((sum, line) => sum + line.amount, 0);
+    breakdown.push({ label: `${surge.label} (×${surge.multiplier})`, amount: beforeSurge * (surge.multiplier - 1) });
+  }
+
+  if (subtotal !== undefined && rules.freeDeliveryThreshold !== undefined && subtotal >= rules.freeDeliveryThreshold) {
+    const beforeDiscount = breakdown.reduce((sum, line) => sum + line.amount, 0);
+    breakdown.push({ label: `Free delivery over ${rules.freeDeliveryThreshold} Pi`, amount: -beforeDiscount });
+  }
+
+  const lines = breakdown.filter((line) => line.amount !== 0);
+  return {
+    fee: Math.max(0, lines.reduce((sum, line) => sum + line.amount, 0)),
+    breakdown: lines,
+  };
+}
+
+/**
+ * Quotes the delivery fee of a store for an address, with an itemized breakdown.
+ */
+export const getDeliveryQuote = query({
+  args: {
+    storeId: v.id("stores"),
+    userLatitude: v.number(),
+    userLongitude: v.number(),
+    subtotal: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const store = await ctx.db.get(args.storeId);
+    if (!store) return null;
+    return await quoteDeliveryFee(ctx, store, {
+      latitude: args.userLatitude,
+      longitude: args.userLongitude,
+      subtotal: args.subtotal,
+    });
+  },
+});
+
+async function assertCanManagePricing(ctx: QueryCtx, tokenIdentifier: string, storeId?: Id<"stores">) {
+  const user = await validateToken(ctx, tokenIdentifier);
+  if (storeId) {
+    const store = await ctx.db.get(storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to manage delivery pricing for this store.");
+    }
+  } else if (user.role !== "admin") {
+    throw new ConvexError("Unauthorized: Admin access required.");
+  }
+  return user;
+}
+
+/**
+ * Fetches the saved delivery pricing rules of a store, or the platform default when no store is given.
+ * Store owner, or admin for the platform default.
+ */
+export const getDeliveryPricing = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.optional(v.id("stores")),
+  },
+  handler: async (ctx, args) => {
+    await assertCanManagePricing(ctx, args.tokenIdentifier, args.storeId);
+    return await ctx.db
+      .query("deliveryPricingRules")
+      .withIndex("by_store", (q) => q.eq("storeId", args.storeId))
+      .unique();
+  },
+});
+
+/**
+ * Saves the delivery pricing rules of a store, or the platform default when no store is given.
+ * Store owner, or admin for the platform default.
+ */
+export const saveDeliveryPricing = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.optional(v.id("stores")),
+    baseFee: v.number(),
+    distanceTiers: v.array(v.object({
+      upToKm: v.optional(v.number()),
+      perKmFee: v.number(),
+    })),
+    smallOrderThreshold: v.optional(v.number()),
+    smallOrderSurcharge: v.optional(v.number()),
+    freeDeliveryThreshold: v.optional(v.number()),
+    surges: v.array(v.object({
+      label: v.string(),
+      multiplier: v.number(),
+      startHour: v.optional(v.number()),
+      endHour: v.optional(v.number()),
+      isActive: v.optional(v.boolean()),
+    })),
+    utcOffsetMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, { tokenIdentifier, ...rules }) => {
+    await assertCanManagePricing(ctx, tokenIdentifier, rules.storeId);
+
+    if (rules.baseFee < 0 || rules.distanceTiers.some((tier) => tier.perKmFee < 0) || (rules.smallOrderSurcharge ?? 0) < 0) {
+      throw new ConvexError("Delivery fees cannot be negative.");
+    }
+    const tierEnds = rules.distanceTiers.map((tier) => tier.upToKm ?? Infinity);
+    if (tierEnds.some((end, i) => i > 0 && end <= tierEnds[i - 1])) {
+      throw new ConvexError("Distance tiers must be listed from nearest to farthest.");
+    }
+    for (const surge of rules.surges) {
+      if (surge.multiplier < 1) {
+        throw new ConvexError("A surge multiplier must be at least 1.");
+      }
+      const hours = [surge.startHour, surge.endHour].filter((hour) => hour !== undefined);
+      if (hours.length === 1 || hours.some((hour) => hour! < 0 || hour! > 24)) {
+        throw new ConvexError(`Surge "${surge.label}" needs both a start and end hour between 0 and 24.`);
+      }
+    }
+
+    const existing = await ctx.db
+      .query("deliveryPricingRules")
+      .withIndex("by_store", (q) => q.eq("storeId", rules.storeId))
+      .unique();
+    if (existing) {
+      await ctx.db.replace(existing._id, { ...rules, updatedAt: Date.now() });
+      return existing._id;
+    }
+    return await ctx.db.insert("deliveryPricingRules", { ...rules, updatedAt: Date.now() });
+  },
+});
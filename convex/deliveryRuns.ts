@@ -0,0 +1,192 @@
+import { mutation, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { validateToken, generateHandoverCode, getDistanceFromLatLonInKm } from "./util";
+import { transitionOrderStatus } from "./orderEvents";
+import { getOrderDestination } from "./tracking";
+import { isDriverAvailable, getDriverLoad, meetsMinDriverRating } from "./drivers";
+import { cancelPendingDispatchOffers } from "./dispatch";
+
+type Point = { latitude: number; longitude: number };
+type Stop = { orderId: Id<"orders">; point: Point | null };
+
+// Runs are small, so an exhaustive improvement pass stays cheap.
+const MAX_STOPS_PER_RUN = 8;
+
+const distanceBetween = (a: Point, b: Point) => getDistanceFromLatLonInKm(a.latitude, a.longitude, b.latitude, b.longitude);
+
+function routeLength(start: Point, stops: Array<{ point: Point }>) {
+  let length = 0;
+  let position = start;
+  for (const stop of stops) {
+    length += distanceBetween(position, stop.point);
+    position = stop.point;
+  }
+  return length;
+}
+
+/**
+ * Orders the stops of a run to keep the drive short: nearest neighbour from the store,
+ * then 2-opt passes that reverse any stretch of the route that makes it shorter.
+ * Stops without a location go last, in the order they were given.
+ */
+export function optimizeStopOrder(start: Point | null, stops: Stop[]) {
+  const located = stops.filter((stop): stop is { orderId: Id<"orders">; point: Point } => stop.point !== null);
+  const unlocated = stops.filter((stop) => stop.point === null);
+  if (!start || located.length < 2) {
+    return [...located, ...unlocated].map((stop) => stop.orderId);
+  }
+
+  const route: typeof located = [];
+  const remaining = [...located];
+  let position = start;
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (distanceBetween(position, remaining[i].point) < distanceBetween(position, remaining[nearestIndex].point)) {
+        nearestIndex = i;
+      }
+    }
+    const [nearest] = remaining.splice(nearestIndex, 1);
+    route.push(nearest);
+    position = nearest.point;
+  }
+
+  let best = route;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        if (routeLength(start, candidate) < routeLength(start, best) - 1e-9) {
+          best = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return [...best, ...unlocated].map((stop) => stop.orderId);
+}
+
+/**
+ * Groups several prepared orders of a store into one delivery run for a driver and dispatches them together.
+ * Store owner only.
+ */
+export const createDeliveryRun = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    orderIds: v.array(v.id("orders")),
+    driverId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to dispatch orders for this store.");
+    }
+
+    const orderIds = Array.from(new Set(args.orderIds));
+    if (orderIds.length < 2) {
+      throw new ConvexError("A delivery run needs at least two orders.");
+    }
+    if (orderIds.length > MAX_STOPS_PER_RUN) {
+      throw new ConvexError(`A delivery run can have at most ${MAX_STOPS_PER_RUN} stops.`);
+    }
+
+    const driverLink = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_store_and_driver", (q) => q.eq("storeId", store._id).eq("driverId", args.driverId))
+      .first();
+    if (!driverLink) {
+      throw new ConvexError("This driver does not deliver for your store.");
+    }
+    const driverProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", args.driverId))
+      .unique();
+    if (!meetsMinDriverRating(store, driverProfile)) {
+      throw new ConvexError("This driver's rating is below your store's minimum.");
+    }
+
+    const stops: Stop[] = [];
+    // Orders already assigned to the driver are part of their load.
+    let newDeliveries = 0;
+    for (const orderId of orderIds) {
+      const order = await ctx.db.get(orderId);
+      if (!order || order.storeId !== store._id) {
+        throw new ConvexError("Every order of a run must belong to this store.");
+      }
+      if (order.fulfillmentType === "pickup") {
+        throw new ConvexError(`Order #${orderId.slice(-6)} is a pickup order.`);
+      }
+      if (order.status !== "preparing") {
+        throw new ConvexError(`Order #${orderId.slice(-6)} is not ready to be dispatched.`);
+      }
+      if (order.driverId && order.driverId !== args.driverId) {
+        throw new ConvexError(`Order #${orderId.slice(-6)} is already assigned to another driver.`);
+      }
+      stops.push({ orderId, point: await getOrderDestination(ctx, order) });
+      if (order.driverId !== args.driverId) newDeliveries++;
+    }
+
+    // Offers still out for these orders are withdrawn, so no other driver can accept an order of the run.
+    // They are withdrawn before the driver's load is counted, as their own pending offers count towards it.
+    for (const orderId of orderIds) {
+      await cancelPendingDispatchOffers(ctx, orderId);
+    }
+    if (!isDriverAvailable(driverLink, await getDriverLoad(ctx, args.driverId), newDeliveries)) {
+      throw new ConvexError("This driver is off duty or the run would take them over their delivery limit.");
+    }
+
+    const storeLocation = store.latitude != null && store.longitude != null
+      ? { latitude: store.latitude, longitude: store.longitude }
+      : null;
+    const route = optimizeStopOrder(storeLocation, stops);
+
+    const runId = await ctx.db.insert("deliveryRuns", {
+      storeId: store._id,
+      driverId: args.driverId,
+      orderIds: route,
+      status: "active",
+    });
+
+    for (let index = 0; index < route.length; index++) {
+      const order = (await ctx.db.get(route[index]))!;
+      await transitionOrderStatus(ctx, order, "out_for_delivery", {
+        actorId: user._id,
+        actorRole: "store_owner",
+        note: `Stop ${index + 1} of ${route.length} in a delivery run`,
+      }, {
+        driverId: args.driverId,
+        handoverCode: generateHandoverCode(),
+        deliveryRunId: runId,
+      });
+    }
+
+    await ctx.db.insert("notifications", {
+      userId: args.driverId,
+      storeId: store._id,
+      message: `${store.name} assigned you a delivery run with ${route.length} stops.`,
+      isRead: false,
+      type: "status_update",
+    });
+
+    return runId;
+  },
+});
+
+/**
+ * Closes a run once none of its stops is still out for delivery. Called whenever one of its orders is delivered.
+ */
+export async function completeRunStop(ctx: MutationCtx, runId: Id<"deliveryRuns">) {
+  const run = await ctx.db.get(runId);
+  if (!run || run.status !== "active") return;
+
+  const orders = await Promise.all(run.orderIds.map((orderId) => ctx.db.get(orderId)));
+  if (orders.some((order) => order?.status === "out_for_delivery")) return;
+
+  await ctx.db.patch(run._id, { status: "completed", completedAt: Date.now() });
+}
@@ -0,0 +1,211 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken, getStoreDeliveryRestriction, getDistanceFromLatLonInKm } from "./util";
+
+type Point = { latitude: number; longitude: number };
+
+export type DeliveryDestination = {
+  country?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  subtotal?: number;
+};
+
+/**
+ * Ray casting test: counts how many polygon edges a ray from the point crosses.
+ */
+export function isPointInPolygon(point: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function getStoreDistanceKm(store: Doc<"stores">, point: Point) {
+  if (store.latitude == null || store.longitude == null) return null;
+  return getDistanceFromLatLonInKm(store.latitude, store.longitude, point.latitude, point.longitude);
+}
+
+function zoneContains(zone: Doc<"deliveryZones">, point: Point, distanceKm: number | null) {
+  if (zone.maxDistanceKm !== undefined && (distanceKm === null || distanceKm > zone.maxDistanceKm)) {
+    return false;
+  }
+  if (zone.shape.type === "polygon") {
+    return isPointInPolygon(point, zone.shape.points);
+  }
+  // Radius rings are centered on the store.
+  if (distanceKm === null) return false;
+  return distanceKm >= (zone.shape.innerRadiusKm ?? 0) && distanceKm <= zone.shape.radiusKm;
+}
+
+export async function getStoreDeliveryZones(ctx: QueryCtx, storeId: Id<"stores">) {
+  return await ctx.db
+    .query("deliveryZones")
+    .withIndex("by_store", (q) => q.eq("storeId", storeId))
+    .collect();
+}
+
+/**
+ * Finds the zone of a store that covers a point. When zones overlap, the cheapest one wins.
+ * Returns null when no zone covers the point.
+ */
+export async function findDeliveryZone(ctx: QueryCtx, store: Doc<"stores">, point: Point) {
+  const zones = await getStoreDeliveryZones(ctx, store._id);
+  const distanceKm = getStoreDistanceKm(store, point);
+
+  const matches = zones
+    .filter((zone) => zoneContains(zone, point, distanceKm))
+    .map((zone) => ({ zone, distanceKm, fee: zone.baseFee + (distanceKm ?? 0) * zone.perKmFee }))
+    .sort((a, b) => a.fee - b.fee);
+  return matches[0] ?? null;
+}
+
+/**
+ * Decides whether a store delivers to a destination.
+ * Stores with drawn zones are checked with the destination's coordinates; other stores fall back to
+ * their country and city lists.
+ */
+export async function getDeliveryCoverage(ctx: QueryCtx, store: Doc<"stores">, destination: DeliveryDestination) {
+  const zones = await getStoreDeliveryZones(ctx, store._id);
+  if (zones.length === 0) {
+    const restriction = getStoreDeliveryRestriction(store, destination.country, destination.city);
+    return restriction ? { allowed: false as const, reason: restriction } : { allowed: true as const };
+  }
+
+  if (destination.latitude === undefined || destination.longitude === undefined) {
+    return { allowed: false as const, reason: "Please choose a delivery address with a map location to order from this store." };
+  }
+
+  const match = await findDeliveryZone(ctx, store, { latitude: destination.latitude, longitude: destination.longitude });
+  if (!match) {
+    return { allowed: false as const, reason: "This store does not deliver to your address." };
+  }
+  if (match.zone.minimumOrderValue !== undefined && (destination.subtotal ?? 0) < match.zone.minimumOrderValue) {
+    return {
+      allowed: false as const,
+      reason: `Orders delivered to ${match.zone.name} must be at least ${match.zone.minimumOrderValue} Pi.`,
+      zoneName: match.zone.name,
+    };
+  }
+  return { allowed: true as const, zoneName: match.zone.name, fee: match.fee };
+}
+
+/**
+ * Checks that a store delivers to a destination.
+ * @throws ConvexError describing why the order cannot be delivered.
+ */
+export async function assertDeliveryCoverage(ctx: QueryCtx, store: Doc<"stores">, destination: DeliveryDestination) {
+  const coverage = await getDeliveryCoverage(ctx, store, destination);
+  if (!coverage.allowed) {
+    throw new ConvexError(coverage.reason);
+  }
+  return coverage;
+}
+
+const destinationArgs = {
+  country: v.optional(v.string()),
+  city: v.optional(v.string()),
+  latitude: v.optional(v.number()),
+  longitude: v.optional(v.number()),
+  subtotal: v.optional(v.number()),
+};
+
+/**
+ * Tells the cart whether a store delivers to the selected address, and which zone applies.
+ */
+export const getDeliveryCoverageForAddress = query({
+  args: {
+    storeId: v.id("stores"),
+    ...destinationArgs,
+  },
+  handler: async (ctx, { storeId, ...destination }) => {
+    const store = await ctx.db.get(storeId);
+    if (!store) return null;
+    return await getDeliveryCoverage(ctx, store, destination);
+  },
+});
+
+/**
+ * Lists the delivery zones of a store.
+ */
+export const getDeliveryZonesByStore = query({
+  args: { storeId: v.id("stores") },
+  handler: async (ctx, args) => {
+    return await getStoreDeliveryZones(ctx, args.storeId);
+  },
+});
+
+const pointValidator = v.object({ latitude: v.number(), longitude: v.number() });
+
+/**
+ * Creates a delivery zone, drawn either as a polygon or as a ring around the store. Store owner only.
+ */
+export const createDeliveryZone = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    name: v.string(),
+    shape: v.union(
+      v.object({ type: v.literal("polygon"), points: v.array(pointValidator) }),
+      v.object({ type: v.literal("radius"), innerRadiusKm: v.optional(v.number()), radiusKm: v.number() })
+    ),
+    baseFee: v.number(),
+    perKmFee: v.number(),
+    minimumOrderValue: v.optional(v.number()),
+    maxDistanceKm: v.optional(v.number()),
+  },
+  handler: async (ctx, { tokenIdentifier, ...zone }) => {
+    const user = await validateToken(ctx, tokenIdentifier);
+    const store = await ctx.db.get(zone.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to manage delivery zones for this store.");
+    }
+
+    if (!zone.name.trim()) {
+      throw new ConvexError("A delivery zone needs a name.");
+    }
+    if (zone.baseFee < 0 || zone.perKmFee < 0) {
+      throw new ConvexError("Delivery fees cannot be negative.");
+    }
+    if (zone.shape.type === "polygon" && zone.shape.points.length < 3) {
+      throw new ConvexError("A polygon zone needs at least 3 points.");
+    }
+    if (zone.shape.type === "radius") {
+      if (store.latitude == null || store.longitude == null) {
+        throw new ConvexError("Set your store's GPS location before adding a radius zone.");
+      }
+      if (zone.shape.radiusKm <= (zone.shape.innerRadiusKm ?? 0)) {
+        throw new ConvexError("The outer radius must be larger than the inner radius.");
+      }
+    }
+
+    return await ctx.db.insert("deliveryZones", { ...zone, name: zone.name.trim() });
+  },
+});
+
+/**
+ * Removes a delivery zone. Store owner only.
+ */
+export const deleteDeliveryZone = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    zoneId: v.id("deliveryZones"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const zone = await ctx.db.get(args.zoneId);
+    const store = zone ? await ctx.db.get(zone.storeId) : null;
+    if (!zone || !store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to manage delivery zones for this store.");
+    }
+    await ctx.db.delete(args.zoneId);
+  },
+});
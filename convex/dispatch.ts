@@ -0,0 +1,256 @@
+import { query, mutation, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken, getDistanceFromLatLonInKm } from "./util";
+import { getDriverLoad, isDriverAvailable, meetsMinDriverRating } from "./drivers";
+
+// How long a driver has to answer an offer before it moves on to the next candidate.
+const OFFER_TIMEOUT_MS = 2 * 60 * 1000;
+// A driver whose presence was updated within this window counts as online.
+const ONLINE_WINDOW_MS = 5 * 60 * 1000;
+
+type DispatchCandidate = {
+  driverId: Id<"users">;
+  isOnline: boolean;
+  load: number;
+  distanceKm?: number;
+};
+
+/**
+ * Ranks a store's available drivers (on duty, under their cap and rated high enough) for an offer:
+ * online drivers first, then the least busy, then the closest to the store by last known location.
+ */
+async function rankDispatchCandidates(ctx: QueryCtx, store: Doc<"stores">, excludedDriverIds: Set<Id<"users">>) {
+  const links = await ctx.db
+    .query("storeDrivers")
+    .withIndex("by_store", (q) => q.eq("storeId", store._id))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .collect();
+
+  const now = Date.now();
+  const candidates: Array<DispatchCandidate | null> = await Promise.all(
+    links
+      .filter((link) => !excludedDriverIds.has(link.driverId))
+      .map(async (link) => {
+        const load = await getDriverLoad(ctx, link.driverId);
+        if (!isDriverAvailable(link, load)) return null;
+        const driverProfile = await ctx.db
+          .query("userProfiles")
+          .withIndex("by_user", (q) => q.eq("userId", link.driverId))
+          .unique();
+        if (!meetsMinDriverRating(store, driverProfile)) return null;
+        const presence = await ctx.db
+          .query("presence")
+          .withIndex("by_user", (q) => q.eq("userId", link.driverId))
+          .unique();
+        const hasLocation = presence?.latitude !== undefined && presence?.longitude !== undefined;
+        const distanceKm = hasLocation && store.latitude !== undefined && store.longitude !== undefined
+          ? getDistanceFromLatLonInKm(store.latitude, store.longitude, presence!.latitude!, presence!.longitude!)
+          : undefined;
+        return {
+          driverId: link.driverId,
+          isOnline: !!presence && now - presence.lastSeen <= ONLINE_WINDOW_MS,
+          load,
+          distanceKm,
+        };
+      })
+  );
+
+  return candidates.filter((candidate): candidate is DispatchCandidate => candidate !== null).sort((a, b) => {
+    if (a.isOnline !== b.isOnline) return a.isOnline ? -1 : 1;
+    if (a.load !== b.load) return a.load - b.load;
+    return (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+  });
+}
+
+async function notifyStoreOwner(ctx: MutationCtx, store: Doc<"stores">, orderId: Id<"orders">, message: string) {
+  const owner = await ctx.db
+    .query("users")
+    .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
+    .unique();
+  if (owner) {
+    await ctx.db.insert("notifications", {
+      userId: owner._id,
+      storeId: store._id,
+      orderId,
+      message,
+      isRead: false,
+      type: "status_update",
+    });
+  }
+}
+
+/**
+ * Offers an order to the best driver who has not been asked yet.
+ * When every driver has declined or let the offer expire, the store owner is asked to assign one manually.
+ */
+export async function offerOrderToNextDriver(ctx: MutationCtx, order: Doc<"orders">) {
+  const store = await ctx.db.get(order.storeId);
+  if (!store || order.fulfillmentType === "pickup") return null;
+
+  const previousOffers = await ctx.db
+    .query("dispatchOffers")
+    .withIndex("by_order", (q) => q.eq("orderId", order._id))
+    .collect();
+  if (previousOffers.some((offer) => offer.status === "pending" || offer.status === "accepted")) {
+    return null;
+  }
+
+  const excludedDriverIds = new Set(previousOffers.map((offer) => offer.driverId));
+  const [candidate] = await rankDispatchCandidates(ctx, store, excludedDriverIds);
+  if (!candidate) {
+    await notifyStoreOwner(ctx, store, order._id, `No driver accepted order #${order._id.slice(-6)}. Please assign a driver manually.`);
+    return null;
+  }
+
+  const offerId = await ctx.db.insert("dispatchOffers", {
+    orderId: order._id,
+    storeId: store._id,
+    driverId: candidate.driverId,
+    status: "pending",
+    expiresAt: Date.now() + OFFER_TIMEOUT_MS,
+  });
+  await ctx.scheduler.runAfter(OFFER_TIMEOUT_MS, internal.dispatch.expireDispatchOffer, { offerId });
+
+  await ctx.db.insert("notifications", {
+    userId: candidate.driverId,
+    storeId: store._id,
+    orderId: order._id,
+    message: `New delivery offer from ${store.name} for order #${order._id.slice(-6)}.`,
+    isRead: false,
+    type: "status_update",
+  });
+  return offerId;
+}
+
+/**
+ * Withdraws the offers still waiting for an answer on an order, once it has been given to a driver another way
+ * or cancelled.
+ */
+export async function cancelPendingDispatchOffers(ctx: MutationCtx, orderId: Id<"orders">) {
+  const offers = await ctx.db
+    .query("dispatchOffers")
+    .withIndex("by_order", (q) => q.eq("orderId", orderId))
+    .filter((q) => q.eq(q.field("status"), "pending"))
+    .collect();
+  for (const offer of offers) {
+    await ctx.db.patch(offer._id, { status: "cancelled" });
+  }
+}
+
+/**
+ * Internal mutation run when an offer times out: the order moves on to the next candidate.
+ */
+export const expireDispatchOffer = internalMutation({
+  args: { offerId: v.id("dispatchOffers") },
+  handler: async (ctx, args) => {
+    const offer = await ctx.db.get(args.offerId);
+    if (!offer || offer.status !== "pending") return;
+
+    await ctx.db.patch(offer._id, { status: "expired" });
+
+    const order = await ctx.db.get(offer.orderId);
+    if (order && order.status === "preparing" && !order.driverId) {
+      await offerOrderToNextDriver(ctx, order);
+    }
+  },
+});
+
+/**
+ * Lets a driver accept or decline a delivery offer.
+ * Accepting assigns the driver to the order if they are still eligible for it (on duty, within their cap and rated
+ * high enough), as when candidates were ranked; otherwise, like declining, it offers the order to the next candidate.
+ */
+export const respondToDispatchOffer = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    offerId: v.id("dispatchOffers"),
+    accept: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const offer = await ctx.db.get(args.offerId);
+    if (!offer || offer.driverId !== user._id) {
+      throw new ConvexError("Delivery offer not found.");
+    }
+    if (offer.status !== "pending") {
+      throw new ConvexError("This delivery offer is no longer available.");
+    }
+
+    const order = await ctx.db.get(offer.orderId);
+    if (!order || order.status !== "preparing" || order.driverId) {
+      throw new ConvexError("This order no longer needs a driver.");
+    }
+
+    if (!args.accept) {
+      await ctx.db.patch(offer._id, { status: "declined", respondedAt: Date.now() });
+      await offerOrderToNextDriver(ctx, order);
+      return { success: true, message: undefined };
+    }
+
+    // The driver may have taken other orders, gone off duty or been rated down since the offer was made.
+    const store = await ctx.db.get(order.storeId);
+    const driverLink = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_store_and_driver", (q) => q.eq("storeId", order.storeId).eq("driverId", user._id))
+      .first();
+    const driverProfile = await ctx.db
+      .query("userProfiles")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .unique();
+    // This offer is still pending, so it is already part of the driver's load.
+    const isEligible = !!store && !!driverLink &&
+      isDriverAvailable(driverLink, (await getDriverLoad(ctx, user._id)) - 1) &&
+      meetsMinDriverRating(store, driverProfile);
+    if (!isEligible) {
+      await ctx.db.patch(offer._id, { status: "cancelled", respondedAt: Date.now() });
+      await offerOrderToNextDriver(ctx, order);
+      return { success: false, message: "You can no longer take this delivery: you are off duty, at your delivery limit or below the store's minimum rating." };
+    }
+
+    await ctx.db.patch(offer._id, { status: "accepted", respondedAt: Date.now() });
+    await ctx.db.patch(order._id, { driverId: user._id });
+
+    if (store) {
+      await notifyStoreOwner(ctx, store, order._id, `${user.name ?? "A driver"} accepted the delivery of order #${order._id.slice(-6)}.`);
+    }
+    return { success: true, message: undefined };
+  },
+});
+
+/**
+ * Fetches the delivery offers currently waiting for the authenticated driver's answer.
+ */
+export const getMyDispatchOffers = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const offers = await ctx.db
+      .query("dispatchOffers")
+      .withIndex("by_driver_and_status", (q) => q.eq("driverId", user._id).eq("status", "pending"))
+      .collect();
+
+    const now = Date.now();
+    const withDetails = await Promise.all(
+      offers
+        .filter((offer) => offer.expiresAt > now)
+        .map(async (offer) => {
+          const order = await ctx.db.get(offer.orderId);
+          const store = await ctx.db.get(offer.storeId);
+          if (!order || !store || order.status !== "preparing" || order.driverId) return null;
+          return {
+            ...offer,
+            storeName: store.name,
+            storeAddress: store.address,
+            deliveryAddress: order.deliveryAddress,
+            totalAmount: order.totalAmount,
+            deliveryFee: order.deliveryFee,
+            paymentMethod: order.paymentMethod,
+            itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+          };
+        })
+    );
+    return withDetails.filter((offer) => offer !== null);
+  },
+});
@@ -0,0 +1,184 @@
+import { query, internalMutation, MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+import { postLedgerTransfer } from "./ledger";
+
+// A payout still processing after this long is assumed to have crashed and may be retried.
+const PAYOUT_IN_PROGRESS_MS = 2 * 60 * 1000;
+
+/**
+ * Credits the assigned driver with their share of a completed order: the tip first, then the store's driver fee.
+ * Pi orders move the share out of escrow; cash orders were settled at the door and are only recorded.
+ * Idempotent: an order is credited at most once.
+ */
+export async function creditDriverEarnings(
+  ctx: MutationCtx,
+  orderId: Id<"orders">,
+  driverAmount: number,
+  { settledInCash = false }: { settledInCash?: boolean } = {}
+) {
+  const order = await ctx.db.get(orderId);
+  if (!order?.driverId || driverAmount <= 0) return;
+
+  const existing = await ctx.db
+    .query("driverEarnings")
+    .withIndex("by_order", (q) => q.eq("orderId", orderId))
+    .first();
+  if (existing) return;
+
+  const tipAmount = Math.min(order.tipAmount ?? 0, driverAmount);
+  await ctx.db.insert("driverEarnings", {
+    driverId: order.driverId,
+    orderId,
+    storeId: order.storeId,
+    tipAmount,
+    deliveryFee: driverAmount - tipAmount,
+    amount: driverAmount,
+    status: settledInCash ? "settled_in_cash" : "available",
+  });
+
+  if (!settledInCash) {
+    await postLedgerTransfer(ctx, {
+      key: `driver_earnings:${orderId}`,
+      type: "driver_earnings",
+      orderId,
+      amount: driverAmount,
+      from: { account: "escrow" },
+      to: { account: "driver", accountOwnerId: order.driverId },
+    });
+  }
+}
+
+/**
+ * The authenticated driver's earnings: the balance they can withdraw, lifetime totals,
+ * recent deliveries and recent payouts.
+ */
+export const getMyEarnings = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+
+    const earnings = await ctx.db
+      .query("driverEarnings")
+      .withIndex("by_driver_and_status", (q) => q.eq("driverId", user._id))
+      .collect();
+    const available = earnings.filter((earning) => earning.status === "available" && !earning.driverPayoutId);
+
+    const recentEarnings = await Promise.all(
+      earnings
+        .sort((a, b) => b._creationTime - a._creationTime)
+        .slice(0, 20)
+        .map(async (earning) => {
+          const store = await ctx.db.get(earning.storeId);
+          return { ...earning, storeName: store?.name ?? "Unknown store" };
+        })
+    );
+
+    const payouts = await ctx.db
+      .query("driverPayouts")
+      .withIndex("by_driver", (q) => q.eq("driverId", user._id))
+      .order("desc")
+      .take(10);
+
+    return {
+      availableBalance: available.reduce((sum, earning) => sum + earning.amount, 0),
+      totalTips: earnings.reduce((sum, earning) => sum + earning.tipAmount, 0),
+      totalDeliveryFees: earnings.reduce((sum, earning) => sum + earning.deliveryFee, 0),
+      deliveryCount: earnings.length,
+      recentEarnings,
+      payouts,
+    };
+  },
+});
+
+/**
+ * Starts a payout of a driver's available earnings, ensuring idempotency.
+ * A payout that is still processing is reported as in progress; one that crashed is retried as is,
+ * so its A2U idempotency key and amount stay the same.
+ */
+export const startDriverPayout = internalMutation({
+  args: { driverId: v.id("users") },
+  handler: async (ctx, args) => {
+    const processing = await ctx.db
+      .query("driverPayouts")
+      .withIndex("by_driver", (q) => q.eq("driverId", args.driverId))
+      .filter((q) => q.eq(q.field("status"), "processing"))
+      .first();
+    if (processing) {
+      if (Date.now() - processing._creationTime < PAYOUT_IN_PROGRESS_MS) {
+        return { status: "in_progress" as const };
+      }
+      return { status: "started" as const, payoutId: processing._id, amount: processing.amount };
+    }
+
+    const available = await ctx.db
+      .query("driverEarnings")
+      .withIndex("by_driver_and_status", (q) => q.eq("driverId", args.driverId).eq("status", "available"))
+      .filter((q) => q.eq(q.field("driverPayoutId"), undefined))
+      .collect();
+    const amount = available.reduce((sum, earning) => sum + earning.amount, 0);
+    if (amount <= 0) {
+      return { status: "nothing_to_pay" as const };
+    }
+
+    const payoutId = await ctx.db.insert("driverPayouts", {
+      driverId: args.driverId,
+      amount,
+      status: "processing",
+    });
+    for (const earning of available) {
+      await ctx.db.patch(earning._id, { driverPayoutId: payoutId });
+    }
+    return { status: "started" as const, payoutId, amount };
+  },
+});
+
+/**
+ * Records the outcome of a driver payout's A2U transfer.
+ * On failure the covered earnings are released so the next payout includes them again.
+ */
+export const finalizeDriverPayout = internalMutation({
+  args: {
+    payoutId: v.id("driverPayouts"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    txid: v.optional(v.string()),
+    failureReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const payout = await ctx.db.get(args.payoutId);
+    if (!payout || payout.status !== "processing") return;
+
+    await ctx.db.patch(args.payoutId, {
+      status: args.status,
+      txid: args.txid,
+      failureReason: args.failureReason,
+      completedAt: args.status === "completed" ? Date.now() : undefined,
+    });
+
+    const earnings = await ctx.db
+      .query("driverEarnings")
+      .withIndex("by_driver_and_status", (q) => q.eq("driverId", payout.driverId).eq("status", "available"))
+      .filter((q) => q.eq(q.field("driverPayoutId"), args.payoutId))
+      .collect();
+
+    if (args.status === "failed") {
+      for (const earning of earnings) {
+        await ctx.db.patch(earning._id, { driverPayoutId: undefined });
+      }
+      return;
+    }
+
+    for (const earning of earnings) {
+      await ctx.db.patch(earning._id, { status: "paid_out" });
+    }
+    // Pi only leaves the app wallet once the A2U transfer succeeds.
+    await postLedgerTransfer(ctx, {
+      key: `driver_payout:${args.payoutId}`,
+      type: "payout",
+      amount: payout.amount,
+      from: { account: "driver", accountOwnerId: payout.driverId },
+      to: { account: "external_wallet", accountOwnerId: payout.driverId },
+    });
+  },
+});
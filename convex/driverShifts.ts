@@ -0,0 +1,174 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+
+async function assertStoreOwner(ctx: QueryCtx, tokenIdentifier: string, storeId: Id<"stores">) {
+  const user = await validateToken(ctx, tokenIdentifier);
+  const store = await ctx.db.get(storeId);
+  if (!store || store.ownerId !== user.tokenIdentifier) {
+    throw new ConvexError("You are not authorized to manage shifts for this store.");
+  }
+  return store;
+}
+
+/**
+ * Lists a store's upcoming and ongoing shifts with the names of the drivers who took them. Store owner only.
+ */
+export const getShiftsForStore = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+  },
+  handler: async (ctx, args) => {
+    await assertStoreOwner(ctx, args.tokenIdentifier, args.storeId);
+
+    const shifts = await ctx.db
+      .query("driverShifts")
+      .withIndex("by_store_and_start", (q) => q.eq("storeId", args.storeId))
+      .filter((q) => q.gt(q.field("endsAt"), Date.now()))
+      .collect();
+
+    return await Promise.all(
+      shifts.map(async (shift) => {
+        const drivers = await Promise.all(shift.driverIds.map((driverId) => ctx.db.get(driverId)));
+        return {
+          ...shift,
+          driverNames: drivers.map((driver) => driver?.name ?? "Unknown Driver"),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Publishes a shift slot for the store's drivers to sign up for. Store owner only.
+ */
+export const createShift = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    startsAt: v.number(),
+    endsAt: v.number(),
+    slots: v.number(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, { tokenIdentifier, ...shift }) => {
+    await assertStoreOwner(ctx, tokenIdentifier, shift.storeId);
+
+    if (shift.endsAt <= shift.startsAt) {
+      throw new ConvexError("A shift must end after it starts.");
+    }
+    if (shift.endsAt <= Date.now()) {
+      throw new ConvexError("This shift is already over.");
+    }
+    if (!Number.isInteger(shift.slots) || shift.slots < 1) {
+      throw new ConvexError("A shift needs at least one driver slot.");
+    }
+
+    return await ctx.db.insert("driverShifts", { ...shift, note: shift.note?.trim() || undefined, driverIds: [] });
+  },
+});
+
+/**
+ * Removes a shift and lets the drivers who took it know. Store owner only.
+ */
+export const deleteShift = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    shiftId: v.id("driverShifts"),
+  },
+  handler: async (ctx, args) => {
+    const shift = await ctx.db.get(args.shiftId);
+    if (!shift) throw new ConvexError("Shift not found.");
+    const store = await assertStoreOwner(ctx, args.tokenIdentifier, shift.storeId);
+
+    await ctx.db.delete(shift._id);
+    for (const driverId of shift.driverIds) {
+      await ctx.db.insert("notifications", {
+        userId: driverId,
+        storeId: store._id,
+        message: `${store.name} cancelled your shift on ${new Date(shift.startsAt).toUTCString()}.`,
+        isRead: false,
+        type: "status_update",
+      });
+    }
+  },
+});
+
+/**
+ * Lists the upcoming shifts of every store the authenticated driver is approved at,
+ * marking the ones they already took.
+ */
+export const getMyShifts = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const activeLinks = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_driver", (q) => q.eq("driverId", user._id))
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .collect();
+
+    const now = Date.now();
+    const shiftsByStore = await Promise.all(
+      activeLinks.map(async (link) => {
+        const store = await ctx.db.get(link.storeId);
+        const shifts = await ctx.db
+          .query("driverShifts")
+          .withIndex("by_store_and_start", (q) => q.eq("storeId", link.storeId))
+          .filter((q) => q.gt(q.field("endsAt"), now))
+          .collect();
+        return shifts.map((shift) => ({
+          _id: shift._id,
+          storeName: store?.name ?? "Unknown store",
+          startsAt: shift.startsAt,
+          endsAt: shift.endsAt,
+          note: shift.note,
+          openSlots: shift.slots - shift.driverIds.length,
+          isMine: shift.driverIds.includes(user._id),
+        }));
+      })
+    );
+
+    return shiftsByStore.flat().sort((a, b) => a.startsAt - b.startsAt);
+  },
+});
+
+/**
+ * Lets a driver take an open slot of a shift, or give back the one they took.
+ */
+export const setShiftSignup = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    shiftId: v.id("driverShifts"),
+    signUp: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const shift = await ctx.db.get(args.shiftId);
+    if (!shift || shift.endsAt <= Date.now()) {
+      throw new ConvexError("This shift is no longer available.");
+    }
+
+    const link = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_store_and_driver", (q) => q.eq("storeId", shift.storeId).eq("driverId", user._id))
+      .first();
+    if (!link || link.status !== "active") {
+      throw new ConvexError("You are not an active driver for this store.");
+    }
+
+    const isSignedUp = shift.driverIds.includes(user._id);
+    if (args.signUp) {
+      if (isSignedUp) return { success: true };
+      if (shift.driverIds.length >= shift.slots) {
+        throw new ConvexError("All slots of this shift are taken.");
+      }
+      await ctx.db.patch(shift._id, { driverIds: [...shift.driverIds, user._id] });
+    } else if (isSignedUp) {
+      await ctx.db.patch(shift._id, { driverIds: shift.driverIds.filter((driverId) => driverId !== user._id) });
+    }
+    return { success: true };
+  },
+});
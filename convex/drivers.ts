@@ -1,8 +1,50 @@
-import { mutation, query } from "./_generated/server";
+import { mutation, query, QueryCtx } from "./_generated/server";
 import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
 import { validateToken } from "./util";
 import { ConvexError } from "convex/values";
 
+// Deliveries a driver may handle at once when the store has not set a cap.
+export const DEFAULT_MAX_CONCURRENT_DELIVERIES = 2;
+
+/**
+ * Number of deliveries a driver is currently handling or being offered.
+ */
+export async function getDriverLoad(ctx: QueryCtx, driverId: Id<"users">) {
+  const activeOrders = await ctx.db
+    .query("orders")
+    .withIndex("by_status", (q) => q.eq("status", "out_for_delivery"))
+    .filter((q) => q.eq(q.field("driverId"), driverId))
+    .collect();
+  const awaitingPickup = await ctx.db
+    .query("orders")
+    .withIndex("by_status", (q) => q.eq("status", "preparing"))
+    .filter((q) => q.eq(q.field("driverId"), driverId))
+    .collect();
+  const pendingOffers = await ctx.db
+    .query("dispatchOffers")
+    .withIndex("by_driver_and_status", (q) => q.eq("driverId", driverId).eq("status", "pending"))
+    .collect();
+  return activeOrders.length + awaitingPickup.length + pendingOffers.length;
+}
+
+/**
+ * A driver can take more deliveries from a store when they are approved, on duty and stay within the store's cap
+ * with the new ones (one by default) added to their current load.
+ */
+export function isDriverAvailable(link: Doc<"storeDrivers">, load: number, newDeliveries = 1) {
+  const cap = link.maxConcurrentDeliveries ?? DEFAULT_MAX_CONCURRENT_DELIVERIES;
+  return link.status === "active" && !!link.isOnDuty && load + newDeliveries <= cap;
+}
+
+/**
+ * Whether a driver's average rating meets the store's minimum. Drivers nobody has rated yet always qualify.
+ */
+export function meetsMinDriverRating(store: Doc<"stores">, driverProfile: Doc<"userProfiles"> | null) {
+  if (store.minDriverRating === undefined || !driverProfile?.driverRatingCount) return true;
+  return (driverProfile.driverRating ?? 0) >= store.minDriverRating;
+}
+
 /**
  * Allows a user to apply to be a driver for a specific store.
  */
@@ -86,10 +128,16 @@ export const getDriversForStore = query({
         const profileImageUrl = driverProfile?.profileImageId 
           ? await ctx.storage.getUrl(driverProfile.profileImageId) 
           : null;
+        const load = await getDriverLoad(ctx, link.driverId);
+        const meetsMinRating = meetsMinDriverRating(store, driverProfile);
         return {
           ...link,
           profile: driverProfile ? { ...driverProfile, profileImageUrl } : null,
           name: driverUser?.name ?? "Unknown Driver",
+          load,
+          maxConcurrentDeliveries: link.maxConcurrentDeliveries ?? DEFAULT_MAX_CONCURRENT_DELIVERIES,
+          meetsMinRating,
+          isAvailable: isDriverAvailable(link, load) && meetsMinRating,
         };
       })
     );
@@ -154,7 +202,7 @@ export const manageDriverStatus = mutation({
         }
         break;
       case "deactivate":
-        await ctx.db.patch(driverLink._id, { status: "inactive" });
+        await ctx.db.patch(driverLink._id, { status: "inactive", isOnDuty: false, onDutySince: undefined });
         break;
       case "reactivate":
         await ctx.db.patch(driverLink._id, { status: "active" });
@@ -162,4 +210,85 @@ export const manageDriverStatus = mutation({
     }
     return { success: true };
   },
+});
+
+/**
+ * Lets a store owner cap how many deliveries one of their drivers may handle at once.
+ */
+export const setDriverDeliveryCap = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    driverLinkId: v.id("storeDrivers"),
+    maxConcurrentDeliveries: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const owner = await validateToken(ctx, args.tokenIdentifier);
+    const driverLink = await ctx.db.get(args.driverLinkId);
+    if (!driverLink) throw new ConvexError("Driver not found.");
+
+    const store = await ctx.db.get(driverLink.storeId);
+    if (!store || store.ownerId !== owner.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to manage drivers for this store.");
+    }
+    if (!Number.isInteger(args.maxConcurrentDeliveries) || args.maxConcurrentDeliveries < 1) {
+      throw new ConvexError("A driver must be able to handle at least one delivery at a time.");
+    }
+
+    await ctx.db.patch(driverLink._id, { maxConcurrentDeliveries: args.maxConcurrentDeliveries });
+    return { success: true };
+  },
+});
+
+/**
+ * Puts the authenticated driver on or off duty for every store they are approved at.
+ * Going off duty keeps the deliveries already assigned; it only stops new ones.
+ */
+export const setDutyStatus = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    isOnDuty: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const activeLinks = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_driver", (q) => q.eq("driverId", user._id))
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .collect();
+    if (activeLinks.length === 0) {
+      throw new ConvexError("You are not an approved driver for any store yet.");
+    }
+
+    const now = Date.now();
+    for (const link of activeLinks) {
+      if (!!link.isOnDuty === args.isOnDuty) continue;
+      await ctx.db.patch(link._id, {
+        isOnDuty: args.isOnDuty,
+        onDutySince: args.isOnDuty ? now : undefined,
+      });
+    }
+    return { success: true };
+  },
+});
+
+/**
+ * The authenticated driver's duty status and current load.
+ */
+export const getMyDutyStatus = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const activeLinks = await ctx.db
+      .query("storeDrivers")
+      .withIndex("by_driver", (q) => q.eq("driverId", user._id))
+      .filter((q) => q.eq(q.field("status"), "active"))
+      .collect();
+
+    const onDutyLinks = activeLinks.filter((link) => link.isOnDuty);
+    return {
+      isOnDuty: onDutyLinks.length > 0,
+      onDutySince: onDutyLinks.length > 0 ? Math.min(...onDutyLinks.map((link) => link.onDutySince ?? Date.now())) : null,
+      load: await getDriverLoad(ctx, user._id),
+    };
+  },
 });
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+
+// Used when no platform schedule exists yet.
+function getDefaultCommissionRate() {
+  return parseFloat(process.env.APP_COMMISSION_RATE || '0.05');
+}
+
+function isActive(schedule: Doc<"feeSchedules">, now: number) {
+  if (schedule.startsAt !== undefined && now < schedule.startsAt) return false;
+  if (schedule.endsAt !== undefined && now >= schedule.endsAt) return false;
+  return true;
+}
+
+function isPromotional(schedule: Doc<"feeSchedules">) {
+  return schedule.startsAt !== undefined || schedule.endsAt !== undefined;
+}
+
+/**
+ * Picks the schedule to apply from one scope: an active promotional rate beats the standing rate,
+ * and the most recently created schedule wins a tie.
+ */
+function pickSchedule(schedules: Doc<"feeSchedules">[], now: number) {
+  const active = schedules
+    .filter((schedule) => isActive(schedule, now))
+    .sort((a, b) => b._creationTime - a._creationTime);
+  return active.find(isPromotional) ?? active[0] ?? null;
+}
+
+/**
+ * Finds the fee schedule that applies to a store right now, from the most specific scope down.
+ */
+async function findApplicableSchedule(ctx: QueryCtx, store: Doc<"stores">, now: number) {
+  const storeSchedules = await ctx.db
+    .query("feeSchedules")
+    .withIndex("by_store", (q) => q.eq("storeId", store._id))
+    .collect();
+  const storeSchedule = pickSchedule(storeSchedules, now);
+  if (storeSchedule) return storeSchedule;
+
+  const typeSchedules = await ctx.db
+    .query("feeSchedules")
+    .withIndex("by_store_type", (q) => q.eq("storeType", store.storeType))
+    .collect();
+  const typeSchedule = pickSchedule(typeSchedules, now);
+  if (typeSchedule) return typeSchedule;
+
+  const platformSchedules = await ctx.db
+    .query("feeSchedules")
+    .withIndex("by_scope", (q) => q.eq("scope", "platform"))
+    .collect();
+  return pickSchedule(platformSchedules, now);
+}
+
+/**
+ * Splits an amount the store keeps into the platform commission and the store payout.
+ * This is the only place commission is calculated; every payout, cash settlement and dispute goes through it.
+ */
+export async function computePayoutSplit(ctx: QueryCtx, storeId: Id<"stores">, amount: number) {
+  const store = await ctx.db.get(storeId);
+  const schedule = store ? await findApplicableSchedule(ctx, store, Date.now()) : null;
+  const commissionRate = schedule?.commissionRate ?? getDefaultCommissionRate();
+  const commissionAmount = amount * commissionRate;
+  return {
+    commissionRate,
+    commissionAmount,
+    payoutAmount: amount - commissionAmount,
+    feeScheduleId: schedule?._id,
+  };
+}
+
+/**
+ * Splits what a store keeps on an order once the driver is paid.
+ * The tip goes to the assigned driver and is never commissioned; the store's per-delivery
+ * driver fee comes out of the store payout. Without a driver, the tip stays with the store.
+ */
+export async function computeOrderPayoutSplit(ctx: QueryCtx, order: Doc<"orders">, retainedAmount = order.totalAmount) {
+  const tipAmount = order.tipAmount ?? 0;
+  const split = await computePayoutSplit(ctx, order.storeId, Math.max(0, retainedAmount - tipAmount));
+  if (!order.driverId) {
+    return { ...split, payoutAmount: split.payoutAmount + tipAmount, driverAmount: 0 };
+  }
+  const driverFee = Math.min(order.driverFee ?? 0, split.payoutAmount);
+  return {
+    ...split,
+    payoutAmount: split.payoutAmount - driverFee,
+    driverAmount: tipAmount + driverFee,
+  };
+}
+
+const scheduleArgs = {
+  scope: v.union(v.literal("platform"), v.literal("store_type"), v.literal("store")),
+  storeType: v.optional(v.union(
+    v.literal("restaurant"),
+    v.literal("pharmacy"),
+    v.literal("grocery"),
+    v.literal("electronics"),
+    v.literal("clothing"),
+    v.literal("games"),
+    v.literal("services"),
+    v.literal("other")
+  )),
+  storeId: v.optional(v.id("stores")),
+  commissionRate: v.number(),
+  startsAt: v.optional(v.number()),
+  endsAt: v.optional(v.number()),
+  label: v.optional(v.string()),
+};
+
+/**
+ * Lists every fee schedule. Admin only.
+ */
+export const listFeeSchedules = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+    return await ctx.db.query("feeSchedules").order("desc").collect();
+  },
+});
+
+/**
+ * Creates a fee schedule: the platform default, a store type override, a negotiated store rate,
+ * or any of these bounded by startsAt/endsAt as a promotional rate. Admin only.
+ */
+export const createFeeSchedule = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    ...scheduleArgs,
+  },
+  handler: async (ctx, { tokenIdentifier, ...schedule }) => {
+    const user = await validateToken(ctx, tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+
+    if (schedule.commissionRate < 0 || schedule.commissionRate >= 1) {
+      throw new ConvexError("Commission rate must be between 0 and 1 (e.g. 0.05 for 5%).");
+    }
+    if (schedule.scope === "store_type" && !schedule.storeType) {
+      throw new ConvexError("A store type is required for a store type schedule.");
+    }
+    if (schedule.scope === "store") {
+      if (!schedule.storeId || !(await ctx.db.get(schedule.storeId))) {
+        throw new ConvexError("A valid store is required for a store schedule.");
+      }
+    }
+    if (schedule.startsAt !== undefined && schedule.endsAt !== undefined && schedule.endsAt <= schedule.startsAt) {
+      throw new ConvexError("A promotional rate must end after it starts.");
+    }
+
+    return await ctx.db.insert("feeSchedules", {
+      scope: schedule.scope,
+      storeType: schedule.scope === "store_type" ? schedule.storeType : undefined,
+      storeId: schedule.scope === "store" ? schedule.storeId : undefined,
+      commissionRate: schedule.commissionRate,
+      startsAt: schedule.startsAt,
+      endsAt: schedule.endsAt,
+      label: schedule.label,
+      createdBy: user._id,
+    });
+  },
+});
+
+/**
+ * Removes a fee schedule. Admin only.
+ */
+export const deleteFeeSchedule = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    feeScheduleId: v.id("feeSchedules"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+    await ctx.db.delete(args.feeScheduleId);
+  },
+});
+
+/**
+ * Returns the commission rate that currently applies to a store. Store owner only.
+ */
+export const getStoreCommissionRate = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view this store's fees.");
+    }
+    const schedule = await findApplicableSchedule(ctx, store, Date.now());
+    return {
+      commissionRate: schedule?.commissionRate ?? getDefaultCommissionRate(),
+      label: schedule?.label,
+      endsAt: schedule?.endsAt,
+    };
+  },
+});
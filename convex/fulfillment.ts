@@ -0,0 +1,48 @@
+import { internalQuery } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+
+export type FulfillmentType = "delivery" | "pickup";
+
+/**
+ * Whether customers can collect orders from the store themselves.
+ * Stores that don't deliver offer pickup unless the owner turned it off.
+ */
+export function storeOffersPickup(store: Doc<"stores">) {
+  return store.offersPickup ?? !store.hasDelivery;
+}
+
+/**
+ * Reads the fulfillment type from checkout metadata; anything but "pickup" is a delivery.
+ */
+export function getCheckoutFulfillmentType(metadata: any): FulfillmentType {
+  return metadata?.fulfillmentType === "pickup" ? "pickup" : "delivery";
+}
+
+/**
+ * @throws ConvexError if the store does not offer the chosen fulfillment type.
+ */
+export function assertFulfillmentAvailable(store: Doc<"stores">, fulfillmentType: FulfillmentType) {
+  if (fulfillmentType === "pickup" && !storeOffersPickup(store)) {
+    throw new ConvexError("This store does not offer pickup.");
+  }
+  if (fulfillmentType === "delivery" && !store.hasDelivery) {
+    throw new ConvexError("This store does not deliver. Choose pickup instead.");
+  }
+}
+
+/**
+ * Internal query used by payment approval to validate the chosen fulfillment type.
+ */
+export const checkFulfillment = internalQuery({
+  args: {
+    storeId: v.id("stores"),
+    fulfillmentType: v.union(v.literal("delivery"), v.literal("pickup")),
+  },
+  handler: async (ctx, args) => {
+    const store = await ctx.db.get(args.storeId);
+    if (!store) return null;
+    assertFulfillmentAvailable(store, args.fulfillmentType);
+    return null;
+  },
+});
@@ -1,7 +1,6 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
 import { internal } from "./_generated/api";
-import { api } from "./_generated/api";
 
 const http = httpRouter();
 
@@ -10,7 +9,6 @@ http.route({
   path: "/pi/payments",
   method: "POST",
   handler: httpAction(async (ctx, request) => {
-    let paymentId: string | undefined;
     try {
       // The signature verification is a critical security step.
       // We will use an internal action to perform the verification.
@@ -21,55 +19,44 @@ http.route({
         },
         rawBody: await request.text(),
       });
-      
+
+      // Store every delivery before processing so failures can be inspected and replayed.
+      const eventId = await ctx.runMutation(internal.webhookEvents.logWebhookEvent, {
+        rawBody,
+        signatureValid: isValid,
+      });
+
       if (!isValid) {
         console.error("Pi Webhook Error: Invalid signature.");
         return new Response("Unauthorized: Invalid signature", { status: 401 });
       }
-      const body = JSON.parse(rawBody);
-      console.log("Pi Webhook: Received and verified. Body:", body);
+      console.log(`Pi Webhook: Received and verified. Stored as event ${eventId}.`);
 
-      paymentId = body.paymentId;
-      const txid = body.txid;
-
-      if (!paymentId) {
-        console.error("Pi Webhook Error: paymentId is missing in the webhook body.");
-        return new Response("Bad Request: paymentId is missing.", { status: 400 });
+      let outcome;
+      try {
+        outcome = await ctx.runAction(internal.webhookEvents.processWebhookEvent, { eventId });
+      } catch (error: any) {
+        // The action crashed or timed out before recording an outcome; mark the event failed so it can be replayed.
+        console.error(`Pi Webhook Error: Processing of event ${eventId} did not finish. Error:`, error);
+        await ctx.runMutation(internal.webhookEvents.recordWebhookOutcome, {
+          eventId,
+          status: "failed",
+          error: error?.message ?? String(error),
+        });
+        return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
       }
-      
-      // Idempotency Check: Prevent processing the same webhook multiple times.
-      const existingPayment = await ctx.runQuery(api.paymentsQueries.getPaymentById, { paymentId });
-      if (existingPayment?.status === 'completed') {
-        console.log(`Webhook: Payment ${paymentId} already completed. Ignoring duplicate.`);
-        return new Response('OK (Already Processed)', { status: 200 });
+      if (outcome.status === "rejected") {
+        return new Response(`Bad Request: ${outcome.error}.`, { status: 400 });
       }
-
-      // Use the unified updatePaymentStatus mutation to handle webhook events
-      await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, {
-        status: "completed", // Webhook only fires on completion
-        paymentId,
-        txid,
-      });
-      
-      // NEW: Fetch payment details from Pi API to pass to the processing function.
-      // This ensures the order is created even if the client-side callback fails.
-      const baseUrl = "https://api.minepi.com";
-      const piApiKey = process.env.PI_API_KEY;
-
-      if (piApiKey) {
-        const paymentResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}`, { headers: { Authorization: `Key ${piApiKey}` } });
-        if (paymentResponse.ok) {
-          const payment = await paymentResponse.json();
-          await ctx.runMutation(internal.paymentsQueries.processCompletedPayment, { paymentId, payment: { ...payment, txid } });
-          console.log(`Webhook: Processed completion for payment ${paymentId}. Order created if needed.`);
-        } else {
-          console.error(`Webhook: Failed to fetch payment details for ${paymentId}: ${paymentResponse.status}`);
-        }
+      if (outcome.status === "failed") {
+        return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
+      }
+      if (outcome.status === "ignored") {
+        return new Response('OK (Already Processed)', { status: 200 });
       }
-
       return new Response(JSON.stringify({ success: true }), { status: 200 });
     } catch (error) {
-      console.error(`Pi Webhook Error: Failed to process webhook for paymentId: ${paymentId}. Error:`, error);
+      console.error("Pi Webhook Error: Failed to process webhook. Error:", error);
       return new Response(JSON.stringify({ error: "Internal server error" }), { status: 500 });
     }
   }),
@@ -1,8 +1,53 @@
-import { query, mutation, internalQuery } from "./_generated/server";
+import { query, mutation, internalQuery, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
-import { Doc } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { paginationOptsValidator } from "convex/server";
+import { internal } from "./_generated/api";
 import { validateToken } from "./util";
+import { recordStockChange, recordVariantStockChange, notifyIfLowStock, StockMovementInfo } from "./stockMovements";
+import { clearSlotReservation } from "./scheduledOrders";
+
+// How long an approved payment holds its items' stock at a time. The hold is renewed while the payment is still open.
+export const STOCK_RESERVATION_MINUTES = 10;
+
+const choiceKey = (optionTitle: string, choiceName: string) => `${optionTitle}/${choiceName}`;
+
+type StockItem = { productId: Id<"products">; variantId?: Id<"productVariants">; quantity: number; options?: any };
+
+const stockItemValidator = v.object({
+  productId: v.id("products"),
+  variantId: v.optional(v.id("productVariants")),
+  quantity: v.number(),
+  options: v.optional(v.any()),
+});
+
+/**
+ * Units of a product held by unexpired reservations, in total, per option choice and per variant.
+ */
+export async function getReservedStock(ctx: QueryCtx, productId: Id<"products">) {
+  const reservations = await ctx.db
+    .query("stockReservations")
+    .withIndex("by_product", (q) => q.eq("productId", productId).gt("expiresAt", Date.now()))
+    .collect();
+
+  const byChoice = new Map<string, number>();
+  const byVariant = new Map<string, number>();
+  let total = 0;
+  for (const reservation of reservations) {
+    total += reservation.quantity;
+    if (reservation.variantId) {
+      byVariant.set(reservation.variantId, (byVariant.get(reservation.variantId) ?? 0) + reservation.quantity);
+      continue;
+    }
+    for (const [optionTitle, selected] of Object.entries(reservation.options ?? {})) {
+      for (const choiceName of Array.isArray(selected) ? selected : [selected]) {
+        const key = choiceKey(optionTitle, String(choiceName));
+        byChoice.set(key, (byChoice.get(key) ?? 0) + reservation.quantity);
+      }
+    }
+  }
+  return { total, byChoice, byVariant };
+}
 
 /**
  * Fetches all products for a store and provides a summary.
@@ -28,11 +73,23 @@ export const getInventoryDetails = query({
 
     return {
       ...result,
-      page: await Promise.all(result.page.map(async (item) => ({
-        ...item,
-        // FIX: Use the first image from the `imageIds` array, not the old `imageId` field.
-        image: item.imageIds?.[0] ? await ctx.storage.getUrl(item.imageIds[0]) : null,
-      })))
+      page: await Promise.all(result.page.map(async (item) => {
+        // Units held for payments in progress are still on hand, but can't be sold to anyone else.
+        const reserved = await getReservedStock(ctx, item._id);
+        return {
+          ...item,
+          // FIX: Use the first image from the `imageIds` array, not the old `imageId` field.
+          image: item.imageIds?.[0] ? await ctx.storage.getUrl(item.imageIds[0]) : null,
+          reservedQuantity: reserved.total,
+          options: item.options?.map((option) => ({
+            ...option,
+            choices: option.choices.map((choice) => ({
+              ...choice,
+              reserved: reserved.byChoice.get(choiceKey(option.title, choice.name)) ?? 0,
+            })),
+          })),
+        };
+      }))
     };
   },
 });
@@ -64,7 +121,7 @@ export const updateProductAvailability = mutation({
 });
 
 /**
- * Sets the quantity of a single product and adjusts its availability.
+ * Sets the quantity of a single product and adjusts its availability, logging the change as a stock movement.
  * Restricted to non-restaurant store types.
  */
 export const setProductQuantity = mutation({
@@ -72,6 +129,8 @@ export const setProductQuantity = mutation({
     tokenIdentifier: v.string(),
     productId: v.id("products"),
     newQuantity: v.number(),
+    movementType: v.optional(v.union(v.literal("restock"), v.literal("adjustment"))),
+    reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
@@ -87,9 +146,17 @@ export const setProductQuantity = mutation({
     if (store.storeType === 'restaurant') {
       throw new ConvexError("Quantity management is not available for restaurants.");
     }
+    if (product.hasVariants) {
+      throw new ConvexError("This product's stock is kept per variant. Edit its variants instead.");
+    }
 
     const newQuantity = Math.max(0, args.newQuantity);
 
+    await recordStockChange(ctx, store, product, { quantity: newQuantity }, {
+      type: args.movementType,
+      reason: args.reason?.trim() || undefined,
+      actorId: user._id,
+    });
     await ctx.db.patch(args.productId, { quantity: newQuantity, isAvailable: newQuantity > 0 });
     return { success: true, newQuantity };
   },
@@ -100,53 +167,240 @@ export const setProductQuantity = mutation({
  */
 export const checkInventoryAvailability = internalQuery({
   args: {
-    items: v.array(v.object({
-      productId: v.id("products"),
-      quantity: v.number(),
-      options: v.optional(v.any()),
-    }))
+    items: v.array(stockItemValidator)
   },
   handler: async (ctx, args) => {
+    return await assertInventoryAvailable(ctx, args.items);
+  }
+});
+
+/**
+ * Holds the items' stock for a payment being approved, checking availability in the same transaction
+ * so two customers can't both pay for the last unit. The hold lasts until the payment is settled or dropped.
+ */
+export const reserveStock = internalMutation({
+  args: {
+    paymentId: v.string(),
+    userId: v.id("users"),
+    items: v.array(stockItemValidator),
+  },
+  handler: async (ctx, args) => {
+    // Pi can ask to approve the same payment again; its stock is already held.
+    const existing = await ctx.db
+      .query("stockReservations")
+      .withIndex("by_payment", (q) => q.eq("paymentId", args.paymentId))
+      .first();
+    if (existing) return;
+
+    await assertInventoryAvailable(ctx, args.items);
+
+    const expiresAt = Date.now() + STOCK_RESERVATION_MINUTES * 60 * 1000;
     for (const item of args.items) {
       const product = await ctx.db.get(item.productId);
-      if (!product) throw new ConvexError(`Product not found.`);
-      
-      const store = await ctx.db.get(product.storeId);
-      
-      // Basic availability check
-      if (!product.isAvailable) throw new ConvexError(`${product.name} is currently unavailable.`);
-
-      // For restaurants, we usually don't track strict quantity, just availability.
-      // For retail/others, we check quantity.
-      if (store && store.storeType !== 'restaurant') {
-        // Main quantity check
-        if (product.quantity !== undefined && product.quantity !== null && (!product.options || product.options.length === 0)) {
-          if (product.quantity < item.quantity) {
-             throw new ConvexError(`Insufficient stock for ${product.name}. Available: ${product.quantity}`);
-          }
+      const store = product ? await ctx.db.get(product.storeId) : null;
+      // Restaurants do not track stock.
+      if (!store || store.storeType === 'restaurant') continue;
+      await ctx.db.insert("stockReservations", { paymentId: args.paymentId, userId: args.userId, ...item, expiresAt });
+    }
+    await ctx.scheduler.runAt(expiresAt, internal.inventory.expireStockReservations, { paymentId: args.paymentId });
+  },
+});
+
+/**
+ * Drops a payment's stock reservations. Called when the payment is cancelled or fails, when the hold expires,
+ * and when its order is created, where the stock is decremented for good instead.
+ */
+export async function clearStockReservations(ctx: MutationCtx, paymentId: string) {
+  const reservations = await ctx.db
+    .query("stockReservations")
+    .withIndex("by_payment", (q) => q.eq("paymentId", paymentId))
+    .collect();
+  for (const reservation of reservations) {
+    await ctx.db.delete(reservation._id);
+  }
+}
+
+/**
+ * Scheduled when a payment's stock and slot holds run out. A payment still open on our side may yet be completed,
+ * e.g. by reconciliation well after approval, so its holds are renewed; any other payment's holds are released.
+ */
+export const expireStockReservations = internalMutation({
+  args: { paymentId: v.string() },
+  handler: async (ctx, args) => {
+    const stockReservations = await ctx.db
+      .query("stockReservations")
+      .withIndex("by_payment", (q) => q.eq("paymentId", args.paymentId))
+      .collect();
+    const slotReservations = await ctx.db
+      .query("slotReservations")
+      .withIndex("by_payment", (q) => q.eq("paymentId", args.paymentId))
+      .collect();
+    if (stockReservations.length === 0 && slotReservations.length === 0) return;
+
+    const payment = await ctx.db
+      .query("piPayments")
+      .withIndex("by_payment_id", (q) => q.eq("paymentId", args.paymentId))
+      .first();
+    if (payment?.status !== "pending" && payment?.status !== "approved") {
+      await clearStockReservations(ctx, args.paymentId);
+      await clearSlotReservation(ctx, args.paymentId);
+      return;
+    }
+
+    const expiresAt = Date.now() + STOCK_RESERVATION_MINUTES * 60 * 1000;
+    for (const reservation of [...stockReservations, ...slotReservations]) {
+      await ctx.db.patch(reservation._id, { expiresAt });
+    }
+    await ctx.scheduler.runAt(expiresAt, internal.inventory.expireStockReservations, args);
+  },
+});
+
+/**
+ * Releases everything held for a payment: its stock, and the scheduled slot held alongside it.
+ */
+export const releaseStockReservations = internalMutation({
+  args: { paymentId: v.string() },
+  handler: async (ctx, args) => {
+    await clearStockReservations(ctx, args.paymentId);
+    await clearSlotReservation(ctx, args.paymentId);
+  },
+});
+
+/**
+ * Checks that every item can be ordered in the requested quantity, counting stock reserved for other payments as sold.
+ * @throws ConvexError naming the first product that is unavailable or out of stock.
+ */
+export async function assertInventoryAvailable(ctx: QueryCtx, items: StockItem[]) {
+  for (const item of items) {
+    const product = await ctx.db.get(item.productId);
+    if (!product) throw new ConvexError(`Product not found.`);
+    
+    const store = await ctx.db.get(product.storeId);
+    
+    // Basic availability check
+    if (!product.isAvailable) throw new ConvexError(`${product.name} is currently unavailable.`);
+    const reserved = await getReservedStock(ctx, product._id);
+
+    // For restaurants, we usually don't track strict quantity, just availability.
+    // For retail/others, we check quantity.
+    if (store && store.storeType !== 'restaurant') {
+      // Products with variants keep their stock on the variant alone.
+      if (product.hasVariants) {
+        const variant = item.variantId ? await ctx.db.get(item.variantId) : null;
+        if (!variant || variant.productId !== product._id) {
+          throw new ConvexError(`Choose an available option for ${product.name}.`);
+        }
+        const available = variant.quantity - (reserved.byVariant.get(variant._id) ?? 0);
+        if (available < item.quantity) {
+          const label = variant.optionValues.map((value) => value.choice).join(" / ");
+          throw new ConvexError(`Insufficient stock for ${product.name} - ${label}. Available: ${Math.max(0, available)}`);
         }
+        continue;
+      }
 
-        // Options quantity check
-        if (item.options && product.options) {
-           for (const [optionTitle, selectedChoice] of Object.entries(item.options)) {
-              const productOption = product.options.find(o => o.title === optionTitle);
-              if (!productOption) continue;
-              
-              const choicesToCheck = Array.isArray(selectedChoice) ? selectedChoice : [selectedChoice];
-              
-              for (const choiceName of choicesToCheck) {
-                  // @ts-ignore
-                  const choice = productOption.choices.find(c => c.name === choiceName);
-                  if (choice && choice.quantity !== undefined && choice.quantity !== null) {
-                      if (choice.quantity < item.quantity) {
-                          throw new ConvexError(`Insufficient stock for ${product.name} - ${choice.name}. Available: ${choice.quantity}`);
-                      }
-                  }
-              }
-           }
+      // Main quantity check
+      if (product.quantity !== undefined && product.quantity !== null && (!product.options || product.options.length === 0)) {
+        const available = product.quantity - reserved.total;
+        if (available < item.quantity) {
+           throw new ConvexError(`Insufficient stock for ${product.name}. Available: ${Math.max(0, available)}`);
         }
       }
+
+      // Options quantity check
+      if (item.options && product.options) {
+         for (const [optionTitle, selectedChoice] of Object.entries(item.options)) {
+            const productOption = product.options.find(o => o.title === optionTitle);
+            if (!productOption) continue;
+            
+            const choicesToCheck = Array.isArray(selectedChoice) ? selectedChoice : [selectedChoice];
+            
+            for (const choiceName of choicesToCheck) {
+                // @ts-ignore
+                const choice = productOption.choices.find(c => c.name === choiceName);
+                if (choice && choice.quantity !== undefined && choice.quantity !== null) {
+                    const available = choice.quantity - (reserved.byChoice.get(choiceKey(optionTitle, choice.name)) ?? 0);
+                    if (available < item.quantity) {
+                        throw new ConvexError(`Insufficient stock for ${product.name} - ${choice.name}. Available: ${Math.max(0, available)}`);
+                    }
+                }
+            }
+         }
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Applies a stock change for a list of ordered items and logs it as `movement`.
+ * `direction` is -1 when an order is placed and +1 when a cancelled order's stock is restored.
+ * Restaurants do not track stock, so nothing happens for them.
+ */
+export async function adjustStockForItems(
+  ctx: MutationCtx,
+  store: Doc<"stores"> | null,
+  items: StockItem[],
+  direction: 1 | -1,
+  movement: StockMovementInfo
+) {
+  if (!store || store.storeType === 'restaurant') return;
+
+  for (const item of items) {
+    const product = await ctx.db.get(item.productId);
+    if (!product) {
+      // A missing product cannot be restocked, but an order for one cannot be placed either.
+      if (direction === -1) throw new ConvexError(`Product with ID ${item.productId} not found during stock update.`);
+      continue;
+    }
+    const delta = direction * item.quantity;
+
+    // Products with variants keep their stock on the variant, and their total on the product.
+    if (product.hasVariants) {
+      const variant = item.variantId ? await ctx.db.get(item.variantId) : null;
+      if (!variant) {
+        if (direction === -1) throw new ConvexError(`Variant of ${product.name} not found during stock update.`);
+        continue;
+      }
+      const quantity = (product.quantity ?? 0) + delta;
+      await recordVariantStockChange(ctx, store, variant, variant.quantity + delta, movement);
+      await notifyIfLowStock(ctx, store, product, product.quantity ?? 0, quantity);
+      await ctx.db.patch(variant._id, { quantity: variant.quantity + delta });
+      await ctx.db.patch(product._id, { quantity });
+      continue;
+    }
+
+    // Case 1: Product has options, and options were selected in the cart
+    if (product.options && product.options.length > 0 && item.options && Object.keys(item.options).length > 0) {
+      // Copy the choices too, so the product as read stays the "before" of the logged movement.
+      const newOptions = product.options.map(o => ({ ...o, choices: o.choices.map(c => ({ ...c })) }));
+      let optionsUpdated = false;
+
+      for (const optionTitle in item.options) {
+        const selectedChoices = Array.isArray(item.options[optionTitle]) ? item.options[optionTitle] : [item.options[optionTitle]];
+        const optionIndex = newOptions.findIndex(o => o.title === optionTitle);
+
+        if (optionIndex !== -1) {
+          for (const selectedChoiceName of selectedChoices) {
+            const choiceIndex = newOptions[optionIndex].choices.findIndex(c => c.name === selectedChoiceName);
+            if (choiceIndex !== -1) {
+              const choice = newOptions[optionIndex].choices[choiceIndex];
+              // CRITICAL: Once payment is confirmed, we MUST create the order even if stock is low.
+              // We allow negative stock (overselling) rather than failing the order creation after payment.
+              choice.quantity = (choice.quantity ?? 0) + delta;
+              optionsUpdated = true;
+            }
+          }
+        }
+      }
+      if (optionsUpdated) {
+        await recordStockChange(ctx, store, product, { options: newOptions }, movement);
+        await ctx.db.patch(product._id, { options: newOptions });
+      }
+    } else {
+      // Case 2: Product has no options, adjust top-level quantity
+      const quantity = (product.quantity ?? 0) + delta;
+      await recordStockChange(ctx, store, product, { quantity }, movement);
+      await ctx.db.patch(product._id, { quantity });
     }
-    return true;
   }
-});
\ No newline at end of file
+}
\ No newline at end of file
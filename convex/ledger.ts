@@ -0,0 +1,201 @@
+import { query, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+
+export type LedgerAccount = Doc<"ledgerEntries">["account"];
+export type LedgerTransactionType = Doc<"ledgerEntries">["type"];
+
+// Amounts are stored with Pi's 7 decimal places; anything smaller is rounding noise.
+const LEDGER_EPSILON = 1e-7;
+
+/**
+ * Posts a balanced transaction to the ledger.
+ * Account balances are debits minus credits, so moving Pi from A to B credits A and debits B.
+ * Posting is idempotent: a transaction whose key already exists is skipped.
+ * @throws ConvexError if the debits and credits do not balance.
+ */
+export async function postLedgerTransaction(
+  ctx: MutationCtx,
+  transaction: {
+    key: string;
+    type: LedgerTransactionType;
+    orderId?: Id<"orders">;
+    lines: Array<{ account: LedgerAccount; accountOwnerId?: string; debit?: number; credit?: number }>;
+  }
+) {
+  const existing = await ctx.db
+    .query("ledgerEntries")
+    .withIndex("by_transaction", (q) => q.eq("transactionKey", transaction.key))
+    .first();
+  if (existing) return false;
+
+  const lines = transaction.lines.filter((line) => (line.debit ?? 0) > 0 || (line.credit ?? 0) > 0);
+  if (lines.length === 0) return false;
+
+  const totalDebit = lines.reduce((sum, line) => sum + (line.debit ?? 0), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + (line.credit ?? 0), 0);
+  if (Math.abs(totalDebit - totalCredit) > LEDGER_EPSILON) {
+    throw new ConvexError(`Unbalanced ledger transaction ${transaction.key}: debits ${totalDebit}, credits ${totalCredit}.`);
+  }
+
+  const createdAt = Date.now();
+  for (const line of lines) {
+    await ctx.db.insert("ledgerEntries", {
+      transactionKey: transaction.key,
+      type: transaction.type,
+      orderId: transaction.orderId,
+      account: line.account,
+      accountOwnerId: line.accountOwnerId,
+      debit: line.debit ?? 0,
+      credit: line.credit ?? 0,
+      createdAt,
+    });
+  }
+  return true;
+}
+
+/**
+ * Posts a simple two-line transfer of `amount` from one account to another.
+ */
+export async function postLedgerTransfer(
+  ctx: MutationCtx,
+  transfer: {
+    key: string;
+    type: LedgerTransactionType;
+    orderId?: Id<"orders">;
+    amount: number;
+    from: { account: LedgerAccount; accountOwnerId?: string };
+    to: { account: LedgerAccount; accountOwnerId?: string };
+  }
+) {
+  return await postLedgerTransaction(ctx, {
+    key: transfer.key,
+    type: transfer.type,
+    orderId: transfer.orderId,
+    lines: [
+      { ...transfer.from, credit: transfer.amount },
+      { ...transfer.to, debit: transfer.amount },
+    ],
+  });
+}
+
+/**
+ * An order is closed once its escrow has been fully settled: released to the store,
+ * refunded to the customer, or a mix of both.
+ */
+function isClosedOrder(order: Doc<"orders">) {
+  if (order.status === "cancelled") return true;
+  return order.status === "delivered" && (order.paymentStatus === "released" || order.paymentStatus === "partially_refunded");
+}
+
+/**
+ * Finance audit: for each closed order, the escrow account must balance to zero.
+ * Paginated over orders so it can walk the whole history. Admin only.
+ */
+export const getEscrowAudit = query({
+  args: {
+    tokenIdentifier: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+
+    const result = await ctx.db.query("orders").order("desc").paginate(args.paginationOpts);
+    const closedOrders = result.page.filter(isClosedOrder);
+
+    const audited = await Promise.all(
+      closedOrders.map(async (order) => {
+        const entries = await ctx.db
+          .query("ledgerEntries")
+          .withIndex("by_order", (q) => q.eq("orderId", order._id))
+          .collect();
+        const escrowBalance = entries
+          .filter((entry) => entry.account === "escrow")
+          .reduce((sum, entry) => sum + entry.debit - entry.credit, 0);
+        return {
+          orderId: order._id,
+          status: order.status,
+          paymentStatus: order.paymentStatus,
+          escrowBalance,
+          isBalanced: Math.abs(escrowBalance) <= LEDGER_EPSILON,
+        };
+      })
+    );
+
+    return {
+      ...result,
+      page: audited,
+      unbalancedCount: audited.filter((order) => !order.isBalanced).length,
+    };
+  },
+});
+
+/**
+ * Returns the balance (debits minus credits) of a ledger account. Admin only.
+ */
+export const getAccountBalance = query({
+  args: {
+    tokenIdentifier: v.string(),
+    account: v.union(
+      v.literal("customer"),
+      v.literal("escrow"),
+      v.literal("store"),
+      v.literal("platform_commission"),
+      v.literal("driver"),
+      v.literal("external_wallet"),
+      v.literal("commission_receivable")
+    ),
+    accountOwnerId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+
+    const entries = await ctx.db
+      .query("ledgerEntries")
+      .withIndex("by_account", (q) =>
+        args.accountOwnerId !== undefined
+          ? q.eq("account", args.account).eq("accountOwnerId", args.accountOwnerId)
+          : q.eq("account", args.account)
+      )
+      .collect();
+
+    return {
+      account: args.account,
+      accountOwnerId: args.accountOwnerId,
+      totalDebit: entries.reduce((sum, entry) => sum + entry.debit, 0),
+      totalCredit: entries.reduce((sum, entry) => sum + entry.credit, 0),
+      balance: entries.reduce((sum, entry) => sum + entry.debit - entry.credit, 0),
+    };
+  },
+});
+
+/**
+ * Returns the commission a store owes the platform on its cash orders. Store owner only.
+ */
+export const getCashCommissionOwed = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view this store's balance.");
+    }
+
+    const entries = await ctx.db
+      .query("ledgerEntries")
+      .withIndex("by_account", (q) => q.eq("account", "commission_receivable").eq("accountOwnerId", args.storeId))
+      .collect();
+    return entries.reduce((sum, entry) => sum + entry.debit - entry.credit, 0);
+  },
+});
@@ -1,4 +1,4 @@
-import { mutation, query, action, internalMutation } from "./_generated/server";
+import { mutation, query, action, internalMutation, QueryCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import { Doc, Id } from "./_generated/dataModel";
 import { paginationOptsValidator } from "convex/server";
@@ -238,78 +238,98 @@ export const applyDiscountToOrder = internalMutation({
   },
 });
 
-export const validateDiscountCode = query({
-  args: {
-    code: v.string(),
-    storeId: v.id("stores"),
-    orderTotal: v.number(),
-    tokenIdentifier: v.optional(v.string()),
-  },
-  handler: async (ctx, args) => {
-    if (args.code.trim() === "") {
-      return { isValid: false, message: "Please enter a discount code." };
-    }
+/**
+ * Checks a discount code against a store, an order total and, when known, the customer's usage,
+ * and works out how much it takes off the order.
+ */
+export async function evaluateDiscountCode(
+  ctx: QueryCtx,
+  args: { storeId: Id<"stores">; code: string; orderTotal: number; userId?: Id<"users"> }
+): Promise<{ isValid: false; message: string } | { isValid: true; discount: Doc<"discounts">; discountAmount: number }> {
+  if (args.code.trim() === "") {
+    return { isValid: false, message: "Please enter a discount code." };
+  }
 
-    const discount = await ctx.db
-      .query("discounts")
-      .withIndex("by_storeId_and_code", (q) => q.eq("storeId", args.storeId).eq("code", args.code.toUpperCase()))
-      .first();
+  const discount = await ctx.db
+    .query("discounts")
+    .withIndex("by_storeId_and_code", (q) => q.eq("storeId", args.storeId).eq("code", args.code.toUpperCase()))
+    .first();
 
-    if (!discount) {
-      return { isValid: false, message: "This discount code does not exist." };
-    }
-    if (!discount.isActive) {
-      return { isValid: false, message: "This discount is no longer active." };
-    }
-    if (args.orderTotal < (discount.minOrderValue || 0)) {
-      return { isValid: false, message: `A minimum order of π${discount.minOrderValue} is required.` };
-    }
+  if (!discount) {
+    return { isValid: false, message: "This discount code does not exist." };
+  }
+  if (!discount.isActive) {
+    return { isValid: false, message: "This discount is no longer active." };
+  }
+  if (args.orderTotal < (discount.minOrderValue || 0)) {
+    return { isValid: false, message: `A minimum order of π${discount.minOrderValue} is required.` };
+  }
 
-    const now = Date.now();
-    if (discount.startDate && now < new Date(discount.startDate).getTime()) {
-      return { isValid: false, message: "This discount is not active yet." };
-    }
-    if (discount.endDate && now > new Date(discount.endDate).getTime()) {
-      return { isValid: false, message: "This discount has expired." };
-    }
+  const now = Date.now();
+  if (discount.startDate && now < new Date(discount.startDate).getTime()) {
+    return { isValid: false, message: "This discount is not active yet." };
+  }
+  if (discount.endDate && now > new Date(discount.endDate).getTime()) {
+    return { isValid: false, message: "This discount has expired." };
+  }
 
-    if (discount.usageLimit && discount.timesUsed >= discount.usageLimit) {
-      return { isValid: false, message: "This discount has reached its total usage limit." };
-    }
+  if (discount.usageLimit && discount.timesUsed >= discount.usageLimit) {
+    return { isValid: false, message: "This discount has reached its total usage limit." };
+  }
 
-    // User-specific checks
-    if (args.tokenIdentifier) {
-      const user = await validateToken(ctx, args.tokenIdentifier).catch(() => null);
-      if (user) {
-        // Check per-user usage limit
-        if (discount.usageLimitPerUser && discount.usageLimitPerUser > 0) {
-          const userUsages = await ctx.db.query("discountUsages")
-            .withIndex("by_discount_and_user", q => q.eq("discountId", discount._id).eq("userId", user._id))
-            .collect();
-          if (userUsages.length >= discount.usageLimitPerUser) {
-            return { isValid: false, message: "You have already used this discount code the maximum number of times." };
-          }
-        }
-        // Check new customers only
-        if (discount.targetUsers === 'new_users_only') {
-          const existingOrder = await ctx.db.query("orders").withIndex("by_user", q => q.eq("userId", user._id)).first(); // OPTIMIZATION: Use .first()
-          if (existingOrder) {
-            return { isValid: false, message: "This discount is for new customers only." };
-          }
-        }
+  // User-specific checks
+  if (args.userId) {
+    const userId = args.userId;
+    // Check per-user usage limit
+    if (discount.usageLimitPerUser && discount.usageLimitPerUser > 0) {
+      const userUsages = await ctx.db.query("discountUsages")
+        .withIndex("by_discount_and_user", q => q.eq("discountId", discount._id).eq("userId", userId))
+        .collect();
+      if (userUsages.length >= discount.usageLimitPerUser) {
+        return { isValid: false, message: "You have already used this discount code the maximum number of times." };
       }
     }
-
-    let discountAmount = 0;
-    if (discount.type === 'percentage') {
-      discountAmount = (args.orderTotal * discount.value) / 100;
-    } else { // fixed
-      discountAmount = discount.value;
+    // Check new customers only
+    if (discount.targetUsers === 'new_users_only') {
+      const existingOrder = await ctx.db.query("orders").withIndex("by_user", q => q.eq("userId", userId)).first(); // OPTIMIZATION: Use .first()
+      if (existingOrder) {
+        return { isValid: false, message: "This discount is for new customers only." };
+      }
     }
-    // Ensure discount doesn't exceed order total
-    discountAmount = Math.min(discountAmount, args.orderTotal);
+  }
+
+  let discountAmount = 0;
+  if (discount.type === 'percentage') {
+    discountAmount = (args.orderTotal * discount.value) / 100;
+  } else { // fixed
+    discountAmount = discount.value;
+  }
+  // Ensure discount doesn't exceed order total
+  discountAmount = Math.min(discountAmount, args.orderTotal);
 
+  return { isValid: true, discount, discountAmount };
+}
+
+export const validateDiscountCode = query({
+  args: {
+    code: v.string(),
+    storeId: v.id("stores"),
+    orderTotal: v.number(),
+    tokenIdentifier: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = args.tokenIdentifier ? await validateToken(ctx, args.tokenIdentifier).catch(() => null) : null;
+    const result = await evaluateDiscountCode(ctx, {
+      storeId: args.storeId,
+      code: args.code,
+      orderTotal: args.orderTotal,
+      userId: user?._id,
+    });
+    if (!result.isValid) {
+      return result;
+    }
 
+    const { discount } = result;
     return { isValid: true, message: "Discount applied!", discount: { id: discount._id, type: discount.type, value: discount.value } };
   }
 });
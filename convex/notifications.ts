@@ -101,7 +101,8 @@ export const create = internalMutation({
       v.literal("status_update"),
       v.literal("promotion"),
       v.literal("driver_application"),
-      v.literal("report")
+      v.literal("report"),
+      v.literal("low_stock")
     ),
   },
   handler: async (ctx, args) => {
@@ -0,0 +1,114 @@
+import { query, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+
+type OrderStatus = Doc<"orders">["status"];
+export type OrderActorRole = Doc<"orderEvents">["actorRole"];
+
+/**
+ * The allowed status transitions for an order.
+ * Every status change must go through `transitionOrderStatus`, which enforces this table.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["preparing", "cancelled"],
+  preparing: ["out_for_delivery", "ready_for_pickup", "cancelled"],
+  out_for_delivery: ["delivered"],
+  ready_for_pickup: ["delivered", "cancelled"], // Delivered here means picked up
+  delivered: ["disputed"],
+  disputed: ["delivered", "cancelled"],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Records an entry in the order's status timeline.
+ * Use this directly only for the initial event of a new order; status changes go through `transitionOrderStatus`.
+ */
+export async function recordOrderEvent(
+  ctx: MutationCtx,
+  event: {
+    orderId: Id<"orders">;
+    fromStatus?: OrderStatus;
+    toStatus: OrderStatus;
+    actorId?: Id<"users">;
+    actorRole: OrderActorRole;
+    note?: string;
+  }
+) {
+  return await ctx.db.insert("orderEvents", {
+    ...event,
+    createdAt: Date.now(),
+  });
+}
+
+/**
+ * Moves an order to a new status after checking it against `ORDER_TRANSITIONS`,
+ * applies any extra fields in the same patch, and appends the change to the timeline.
+ * @throws ConvexError if the transition is not allowed.
+ */
+export async function transitionOrderStatus(
+  ctx: MutationCtx,
+  order: Doc<"orders">,
+  toStatus: OrderStatus,
+  actor: { actorId?: Id<"users">; actorRole: OrderActorRole; note?: string },
+  extraPatch: Partial<Doc<"orders">> = {}
+) {
+  if (!canTransitionOrder(order.status, toStatus)) {
+    throw new ConvexError(
+      `Cannot change order status from "${order.status.replace(/_/g, " ")}" to "${toStatus.replace(/_/g, " ")}".`
+    );
+  }
+
+  await ctx.db.patch(order._id, { ...extraPatch, status: toStatus });
+  await recordOrderEvent(ctx, {
+    orderId: order._id,
+    fromStatus: order.status,
+    toStatus,
+    ...actor,
+  });
+}
+
+/**
+ * Fetches the status history of an order, oldest first.
+ * Available to the customer, the store owner and the assigned driver.
+ */
+export const getOrderTimeline = query({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order) throw new ConvexError("Order not found.");
+
+    const store = await ctx.db.get(order.storeId);
+    const isOwner = store?.ownerId === user.tokenIdentifier;
+    const isCustomer = order.userId === user._id;
+    const isAssignedDriver = order.driverId === user._id;
+    if (!isOwner && !isCustomer && !isAssignedDriver) {
+      throw new ConvexError("You are not authorized to view this order's history.");
+    }
+
+    const events = await ctx.db
+      .query("orderEvents")
+      .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
+      .order("asc")
+      .collect();
+
+    // Resolve actor names once per distinct actor
+    const actorIds = Array.from(new Set(events.map((e) => e.actorId).filter((id): id is Id<"users"> => !!id)));
+    const actors = await Promise.all(actorIds.map((id) => ctx.db.get(id)));
+    const actorNames = new Map(actorIds.map((id, i) => [id, actors[i]?.name]));
+
+    return events.map((event) => ({
+      ...event,
+      actorName: event.actorId ? actorNames.get(event.actorId) ?? "Unknown User" : "System",
+    }));
+  },
+});
@@ -1,9 +1,21 @@
-import { query, mutation, internalMutation } from "./_generated/server";
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
 import { internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
-import { validateToken } from "./util";
+import { validateToken, generateHandoverCode } from "./util";
+import { recordOrderEvent, transitionOrderStatus } from "./orderEvents";
+import { adjustStockForItems, assertInventoryAvailable, clearStockReservations } from "./inventory";
+import { postLedgerTransfer } from "./ledger";
+import { computeOrderPayoutSplit } from "./fees";
+import { cancelPendingDispatchOffers, offerOrderToNextDriver } from "./dispatch";
+import { getDriverLoad, isDriverAvailable, meetsMinDriverRating } from "./drivers";
+import { assertScheduledSlotAvailable, clearSlotReservation, SCHEDULED_ORDER_LEAD_MINUTES } from "./scheduledOrders";
+import { assertFulfillmentAvailable, getCheckoutFulfillmentType } from "./fulfillment";
+import { assertCheckoutQuoteMatches, assertQuoteDeliveryCoverage, claimCheckoutQuote } from "./checkoutQuotes";
+import { clearDriverLocations } from "./tracking";
+import { creditDriverEarnings } from "./driverEarnings";
+import { completeRunStop } from "./deliveryRuns";
 
 export const getOrdersByUser = query({
   args: { 
@@ -68,6 +80,7 @@ export const getRecentOrdersByStore = query({
         .withSearchIndex("search_customer_name", (q) =>
           q.search("customerName", args.searchTerm!).eq("storeId", args.storeId)
         )
+        .filter((q) => q.eq(q.field("heldUntil"), undefined)) // Scheduled orders show up once they are due
         .take(20);
     } else {
       // Otherwise, fetch the most recent orders.
@@ -75,6 +88,7 @@ export const getRecentOrdersByStore = query({
         .query("orders")
         .withIndex("by_store_creation_time", (q) => q.eq("storeId", args.storeId))
         .order("desc")
+        .filter((q) => q.eq(q.field("heldUntil"), undefined)) // Scheduled orders show up once they are due
         .take(20);
     }
 
@@ -101,7 +115,11 @@ export const getRecentOrdersByStore = query({
             customerProfile?.piUsername ||
             "Anonymous User",
           customerPhone: customerProfile?.phone,
-          deliveryAddress: order.deliveryAddress
+          customerRating: customerProfile?.customerRatingCount
+            ? { average: customerProfile.customerRating ?? 0, count: customerProfile.customerRatingCount }
+            : null,
+          deliveryAddress: order.deliveryAddress,
+          handoverCode: undefined, // Only the customer may see the code
         };
       })
     );
@@ -118,10 +136,15 @@ export const updateOrderStatus = mutation({
       v.literal("confirmed"),
       v.literal("preparing"),
       v.literal("out_for_delivery"),
+      v.literal("ready_for_pickup"),
       v.literal("delivered"),
       v.literal("cancelled")
     ),
     driverId: v.optional(v.id("users")), // Optional: for assigning a driver
+    note: v.optional(v.string()), // Optional: shown in the order's timeline
+    cashCollected: v.optional(v.boolean()), // Required when delivering a cash order
+    handoverCode: v.optional(v.string()), // Proof of delivery or pickup: the code shown to the customer
+    proofPhotoId: v.optional(v.id("_storage")), // Proof of delivery: a photo taken at handover
   },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
@@ -135,6 +158,8 @@ export const updateOrderStatus = mutation({
 
     const store = await ctx.db.get(order.storeId);
     const isOwner = store?.ownerId === user.tokenIdentifier;
+    // Pickup orders never get a driver: the store hands them over against the customer's pickup code.
+    const isPickup = order.fulfillmentType === "pickup";
 
     // Authorization checks
     if (!isOwner && !isDriver) {
@@ -144,22 +169,47 @@ export const updateOrderStatus = mutation({
     // --- Authorization Logic ---
 
     // Priority Case: A driver (who might also be the owner) is marking an order as delivered.
-    if (isDriver && args.status === 'delivered') {
+    if (isDriver && args.status === 'delivered' && !isPickup) {
       // A driver can ONLY mark an order as 'delivered', and only if they are assigned to it.
       if (order.driverId !== user._id) {
         throw new ConvexError("You are not assigned to this order.");
       }
     // Case 2: The user is the store owner performing other actions.
     } else if (isOwner) {
-      // The owner can confirm, prepare, or dispatch an order.
-      // They CANNOT mark it as delivered (this is handled by the priority case above).
-      if (args.status === 'delivered') {
+      // The owner can confirm, prepare, or dispatch an order, and hand over pickup orders.
+      // They CANNOT mark a delivery as delivered (this is handled by the priority case above).
+      if (args.status === 'delivered' && !isPickup) {
         throw new ConvexError("Only the assigned driver can mark the order as delivered.");
       }
-      // A driver must be assigned when dispatching.
-      if (args.status === 'out_for_delivery' && !args.driverId) {
+      if (args.status === 'out_for_delivery' && isPickup) {
+        throw new ConvexError("Pickup orders are collected at the store. Mark the order ready for pickup instead.");
+      }
+      if (args.status === 'ready_for_pickup' && !isPickup) {
+        throw new ConvexError("Only pickup orders can be marked ready for pickup.");
+      }
+      if (order.heldUntil !== undefined && args.status !== 'cancelled') {
+        throw new ConvexError("This scheduled order is not due yet.");
+      }
+      // A driver must be assigned when dispatching, either now or by accepting a dispatch offer.
+      if (args.status === 'out_for_delivery' && !args.driverId && !order.driverId) {
         throw new ConvexError("A driver must be assigned to dispatch the order.");
       }
+      if (args.status === 'out_for_delivery' && args.driverId && args.driverId !== order.driverId) {
+        const driverLink = await ctx.db
+          .query("storeDrivers")
+          .withIndex("by_store_and_driver", (q) => q.eq("storeId", order.storeId).eq("driverId", args.driverId!))
+          .first();
+        if (!driverLink || !isDriverAvailable(driverLink, await getDriverLoad(ctx, args.driverId))) {
+          throw new ConvexError("This driver is off duty or already at their delivery limit.");
+        }
+        const driverProfile = await ctx.db
+          .query("userProfiles")
+          .withIndex("by_user", (q) => q.eq("userId", args.driverId!))
+          .unique();
+        if (store && !meetsMinDriverRating(store, driverProfile)) {
+          throw new ConvexError("This driver's rating is below your store's minimum.");
+        }
+      }
     // Case 3: A user is a driver but is trying to do something other than deliver.
     } else if (isDriver) {
       throw new ConvexError("As a driver, you can only mark an order as delivered.");
@@ -167,11 +217,60 @@ export const updateOrderStatus = mutation({
 
     console.log(`Updating status of order ${args.orderId} to ${args.status} by user ${user.name}`);
 
-    const updatePayload: Partial<Doc<"orders">> = { status: args.status };
+    const updatePayload: Partial<Doc<"orders">> = {};
     if (args.status === "out_for_delivery" && args.driverId) updatePayload.driverId = args.driverId;
-    if (args.status === "delivered") updatePayload.actualDeliveryTime = Date.now();
+    if (args.status === "out_for_delivery" || args.status === "ready_for_pickup") updatePayload.handoverCode = generateHandoverCode();
+    if (args.status === "delivered") {
+      updatePayload.actualDeliveryTime = Date.now();
+
+      const handoverCode = args.handoverCode?.trim();
+      if (isPickup && !handoverCode) {
+        throw new ConvexError("Enter the customer's pickup code to hand over the order.");
+      }
+      if (handoverCode && handoverCode !== order.handoverCode) {
+        throw new ConvexError("The handover code is incorrect. Ask the customer for the code shown in their order.");
+      }
+      if (handoverCode || args.proofPhotoId) {
+        updatePayload.deliveryProof = {
+          method: handoverCode ? "code" : "photo",
+          photoId: args.proofPhotoId,
+          recordedAt: Date.now(),
+        };
+        updatePayload.handoverCode = undefined; // The code can only be used once
+      } else if (store?.requiresDeliveryProof) {
+        throw new ConvexError("This store requires proof of delivery. Enter the customer's handover code or upload a photo.");
+      }
+    }
+
+    const isCashDelivery = args.status === "delivered" && order.paymentMethod === "cash";
+    if (isCashDelivery) {
+      if (!args.cashCollected) {
+        throw new ConvexError("Confirm that you collected the cash payment before marking this order as delivered.");
+      }
+      updatePayload.paymentStatus = "paid";
+      updatePayload.cashCollectedAt = Date.now();
+    }
+
+    await transitionOrderStatus(ctx, order, args.status, {
+      actorId: user._id,
+      actorRole: isDriver && args.status === "delivered" && !isPickup ? "driver" : "store_owner",
+      note: args.note,
+    }, updatePayload);
 
-    await ctx.db.patch(args.orderId, updatePayload);
+    if (args.status === "preparing" && store?.autoDispatch && !order.driverId && !isPickup) {
+      await offerOrderToNextDriver(ctx, order);
+    }
+
+    if (args.status === "ready_for_pickup") {
+      await ctx.db.insert("notifications", {
+        userId: order.userId,
+        storeId: order.storeId,
+        orderId: order._id,
+        message: `Your order #${order._id.slice(-6)} is ready for pickup at ${store?.name ?? "the store"}. Show your pickup code at the counter.`,
+        isRead: false,
+        type: "status_update",
+      });
+    }
 
     // If the order is delivered, archive the associated conversation
     if (args.status === "delivered") {
@@ -182,17 +281,40 @@ export const updateOrderStatus = mutation({
         });
       }
 
+      // Live location is only kept while the order is on its way.
+      await clearDriverLocations(ctx, args.orderId);
+      if (order.deliveryRunId) {
+        await completeRunStop(ctx, order.deliveryRunId);
+      }
+
+      const { commissionRate, commissionAmount, payoutAmount, driverAmount } = await computeOrderPayoutSplit(ctx, order);
+
+      // Cash never passes through the app wallet: the store keeps the cash and owes the commission instead.
+      if (isCashDelivery) {
+        await ctx.db.patch(args.orderId, { commissionAmount });
+        await creditDriverEarnings(ctx, args.orderId, driverAmount, { settledInCash: true });
+        await postLedgerTransfer(ctx, {
+          key: `cash_commission:${args.orderId}`,
+          type: "cash_commission",
+          orderId: args.orderId,
+          amount: commissionAmount,
+          from: { account: "store", accountOwnerId: order.storeId },
+          to: { account: "commission_receivable", accountOwnerId: order.storeId },
+        });
+        return { success: true };
+      }
+
       // --- ESCROW LOGIC: SCHEDULE AUTO-RELEASE ---
       // Instead of releasing immediately, we schedule it for 48 hours later.
-      const commissionRateString = process.env.APP_COMMISSION_RATE || '0.05';
-      const appCommissionRate = parseFloat(commissionRateString);
-      const payoutAmount = order.totalAmount * (1 - appCommissionRate);
 
       // Schedule payout for 48 hours from now
       const jobId = await ctx.scheduler.runAfter(48 * 60 * 60 * 1000, internal.paymentsActions.payoutToStore, {
         storeId: order.storeId,
         amount: payoutAmount,
         orderId: args.orderId,
+        commissionAmount,
+        commissionRate,
+        driverAmount,
       });
       await ctx.db.patch(args.orderId, { scheduledPayoutId: jobId });
     }
@@ -201,6 +323,163 @@ export const updateOrderStatus = mutation({
   },
 });
 
+/**
+ * Inserts an order from checkout metadata, records its opening timeline event and notifies the store.
+ * Pi orders start confirmed with the payment held in escrow; cash orders wait for the store to accept them.
+ */
+async function insertOrderFromCheckout(
+  ctx: MutationCtx,
+  {
+    userId,
+    paymentAmount,
+    paymentMetadata,
+    paymentMethod,
+    piPaymentId,
+    paymentRecordId,
+  }: {
+    userId: Id<"users">;
+    paymentAmount: number;
+    paymentMetadata: any;
+    paymentMethod: "pi_coin" | "cash";
+    piPaymentId?: string;
+    paymentRecordId?: Id<"piPayments">;
+  }
+) {
+  const isCash = paymentMethod === "cash";
+  // Prices come from the server-side checkout quote the payment was checked against, never from the client.
+  const quote = await claimCheckoutQuote(ctx, userId, paymentMetadata);
+  const storeId = quote.storeId;
+  const store = await ctx.db.get(storeId);
+
+  const itemsWithDetails = await Promise.all(
+    quote.items.map(async (item, index) => {
+      const product = await ctx.db.get(item.productId);
+      const cartItem = (paymentMetadata.items as any[] | undefined)?.[index]; // Same order as the quote
+      const variant = item.variantId ? await ctx.db.get(item.variantId) : null;
+      return {
+        productId: item.productId,
+        variantId: item.variantId,
+        sku: variant?.sku,
+        description: product?.description || "",
+        name: product?.name || "Unknown Item",
+        quantity: item.quantity,
+        price: item.unitPrice,
+        options: item.options || {},
+        imageUrl: product?.image || "",
+        specialInstructions: cartItem?.specialInstructions || "",
+      };
+    })
+  );
+
+  // Delivery goes to the customer's saved address the quote was priced for.
+  const address = quote.deliveryAddressId ? await ctx.db.get(quote.deliveryAddressId) : null;
+
+  const fulfillmentType = quote.fulfillmentType;
+  const isPickup = fulfillmentType === "pickup";
+
+  // The slot was validated before payment; the order is held until shortly before it.
+  const scheduledFor = typeof paymentMetadata.scheduledFor === "number" ? paymentMetadata.scheduledFor : undefined;
+  const heldUntil = scheduledFor !== undefined ? scheduledFor - SCHEDULED_ORDER_LEAD_MINUTES * 60 * 1000 : undefined;
+
+  const orderId = await ctx.db.insert("orders", {
+    userId: userId,
+    storeId: storeId,
+    storeName: store?.name || "OmniGo",
+    items: itemsWithDetails,
+    totalAmount: paymentAmount,
+    discountId: quote.discountId,
+    discountAmount: quote.discountAmount > 0 ? quote.discountAmount : undefined,
+    deliveryFee: quote.deliveryFee,
+    deliveryFeeBreakdown: quote.deliveryFeeBreakdown,
+    tipAmount: quote.tip > 0 ? quote.tip : undefined,
+    driverFee: isPickup ? undefined : store?.driverFeePerDelivery,
+    status: isCash ? "pending" : "confirmed",
+    fulfillmentType,
+    // Pickup orders record where the customer collects them.
+    deliveryAddress: isPickup
+      ? store?.address ?? ""
+      : address ? `${address.address}, ${address.city}, ${address.country}` : paymentMetadata.deliveryAddress || "",
+    deliveryAddressId: isPickup ? undefined : address?._id,
+    customerNotes: paymentMetadata.customerNotes || "",
+    estimatedDeliveryTime: scheduledFor !== undefined ? "Scheduled" : "30-45 min",
+    scheduledFor,
+    heldUntil: heldUntil !== undefined && heldUntil > Date.now() ? heldUntil : undefined,
+    paymentMethod,
+    customerName: paymentMetadata.customerName,   // Customer anme 
+    paymentStatus: isCash ? "pending" : "paid",
+    piPaymentId: piPaymentId,
+    paymentRecordId: paymentRecordId,
+  });
+
+  // --- INVENTORY DECREMENT LOGIC ---
+  // The stock held when the payment was approved becomes a permanent decrement, logged against the new order.
+  if (piPaymentId) {
+    await clearStockReservations(ctx, piPaymentId);
+    // The order now takes the slot its payment held.
+    await clearSlotReservation(ctx, piPaymentId);
+  }
+  await adjustStockForItems(ctx, store, quote.items, -1, { type: "sale", actorId: userId, orderId });
+  // --- END OF INVENTORY LOGIC ---
+
+  if (!isCash) {
+    // The customer's payment is now held in escrow until the order is settled.
+    await postLedgerTransfer(ctx, {
+      key: `capture:${orderId}`,
+      type: "payment_capture",
+      orderId,
+      amount: paymentAmount,
+      from: { account: "customer", accountOwnerId: userId },
+      to: { account: "escrow" },
+    });
+  }
+
+  if (heldUntil !== undefined && heldUntil > Date.now()) {
+    await ctx.scheduler.runAt(heldUntil, internal.scheduledOrders.releaseScheduledOrder, { orderId });
+  }
+
+  await recordOrderEvent(ctx, {
+    orderId,
+    toStatus: isCash ? "pending" : "confirmed",
+    actorId: userId,
+    actorRole: "customer",
+    note: isCash ? "Order placed, cash on delivery" : "Order placed and payment received",
+  });
+
+  // Increment discount usage count if a discount was applied
+  if (quote.discountCode) {
+    // Now we call the mutation to apply the discount, which also handles usage counts.
+    const user = await ctx.db.get(userId);
+    // This ensures the discount is only "used" after a successful order creation.
+    await ctx.runMutation(internal.marketing.applyDiscountToOrder, {
+      code: quote.discountCode,
+      userId: userId,
+      orderTotal: quote.subtotal, // The discount was quoted against the subtotal
+      storeId: storeId,
+      tokenIdentifier: user?.tokenIdentifier, // We need to pass this for validation
+      orderId: orderId,
+    });
+  }
+
+  // Create a notification for the store owner if it's a valid user ID
+  if (store?.ownerId && typeof store.ownerId === 'string') {
+    const owner = await ctx.db
+      .query("users")
+      .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
+      .unique();
+    if (owner) {
+      await ctx.db.insert("notifications", {
+        userId: owner._id, // Use the actual user _id
+        orderId: orderId,
+        message: `New ${scheduledFor !== undefined ? "scheduled " : ""}${isCash ? "cash " : ""}order #${orderId.slice(-6)} received for ${store.name}.`,
+        isRead: false,
+        type: "new_order",
+      });
+    }
+  }
+
+  return orderId;
+}
+
 /**
  * Creates an order in the database after a successful payment.
  * This is an internal mutation, designed to be called from other backend functions.
@@ -214,159 +493,62 @@ export const createOrderFromPayment = internalMutation({
 
     paymentRecordId: v.optional(v.id("piPayments")),
   },
-  handler: async (ctx, { userId, paymentAmount, paymentMetadata, piPaymentId, paymentRecordId }) => {
-    const storeId = paymentMetadata.storeId as Id<"stores">;
-    const store = await ctx.db.get(storeId);
-
-    // --- INVENTORY DECREMENT LOGIC ---
-    // Only run this for non-restaurant stores
-    if (store && store.storeType !== 'restaurant') {
-      for (const item of paymentMetadata.items as any[]) {
-        const product = await ctx.db.get(item.id as Id<"products">);
-        if (!product) {
-          throw new ConvexError(`Product with ID ${item.id} not found during stock update.`);
-        }
-
-        // Case 1: Product has options, and options were selected in the cart
-        if (product.options && product.options.length > 0 && item.options && Object.keys(item.options).length > 0) {
-          const newOptions = [...product.options];
-          let optionsUpdated = false;
-
-          for (const optionTitle in item.options) {
-            const selectedChoices = Array.isArray(item.options[optionTitle]) ? item.options[optionTitle] : [item.options[optionTitle]];
-            const optionIndex = newOptions.findIndex(o => o.title === optionTitle);
-
-            if (optionIndex !== -1) {
-              for (const selectedChoiceName of selectedChoices) {
-                const choiceIndex = newOptions[optionIndex].choices.findIndex(c => c.name === selectedChoiceName);
-                if (choiceIndex !== -1) {
-                  const choice = newOptions[optionIndex].choices[choiceIndex];
-                  // CRITICAL: Since payment is confirmed, we MUST create the order even if stock is low.
-                  // We allow negative stock (overselling) rather than failing the order creation after payment.
-                  const currentChoiceQty = choice.quantity ?? 0;
-                  choice.quantity = currentChoiceQty - item.quantity;
-                  optionsUpdated = true;
-                }
-              }
-            }
-          }
-          if (optionsUpdated) {
-            await ctx.db.patch(product._id, { options: newOptions });
-          }
-        } else {
-          // Case 2: Product has no options, decrement top-level quantity
-          // CRITICAL: Allow negative stock for confirmed payments to ensure order creation.
-          const currentQty = product.quantity ?? 0;
-          await ctx.db.patch(product._id, { quantity: currentQty - item.quantity });
-        }
-      }
-    }
-    // --- END OF INVENTORY LOGIC ---
-
-    if (!paymentMetadata?.items && !paymentMetadata?.cartItems && !paymentMetadata?.productId) {
-      console.warn("No items in payment metadata to create an order from.");
-      return null;
-    }
-
-    let itemsWithDetails: Array<{
-      productId: Id<"products">;
-      name: string;
-
-    description: string, // Inclue  description
-      quantity: number;
-      price: number;
-      options?: any;
-      imageUrl?: string;
-      specialInstructions?: string;
-    }> = [];
-
-    if (paymentMetadata.items) {
-      // Process items from cart
-      itemsWithDetails = await Promise.all(
-        (paymentMetadata.items as any[]).map(async (item: any) => {
-
-          const product = await ctx.db.get(item.id as Id<"products">);
-          return {
-            productId: product?._id || item.id,
-            description: product?.description || "",
-            name: product?.name || "Unknown Item",
-            quantity: item.quantity,
-            price: item.price,
-            options: item.options || {},
-            imageUrl: item.imageUrl || product?.image || "",
-            specialInstructions: item.specialInstructions || "",
-          };
-        })
-      );
-    } else if (paymentMetadata.productId) {
-      // Single product order
-      const product = await ctx.db.get(paymentMetadata.productId as Id<"products">);
-      itemsWithDetails = [{
-        productId: paymentMetadata.productId,
-        name: paymentMetadata.productName || product?.name || "Unknown Product",
-        description: product?.description || "",
-        quantity: 1,
-        price: paymentAmount,
-        options: {},
-        imageUrl: product?.image || "",
-        specialInstructions: "",
-      }];
-    }
+  handler: async (ctx, args) => {
+    return await insertOrderFromCheckout(ctx, { ...args, paymentMethod: "pi_coin" });
+  },
+});
 
-    // const store = await ctx.db.get(storeId as Id<"stores">); // Already fetched above
+/**
+ * Places a cash-on-delivery order. No Pi payment is involved: the driver collects the total on delivery.
+ * Takes the same checkout metadata as a Pi payment and runs the same availability and delivery checks.
+ */
+export const placeCashOrder = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    amount: v.number(),
+    metadata: v.any(),
+  },
+  handler: async (ctx, { tokenIdentifier, amount, metadata }) => {
+    const user = await validateToken(ctx, tokenIdentifier);
 
-    const orderId = await ctx.db.insert("orders", {
-      userId: userId,
-      storeId: storeId,
-      storeName: store?.name || "OmniGo",
-      items: itemsWithDetails,
-      totalAmount: paymentAmount,
-      discountId: paymentMetadata.discount?.id,
-      discountAmount: paymentMetadata.discount?.amount,
-      deliveryFee: paymentMetadata.deliveryFee || 0,
-      status: "confirmed",
-      deliveryAddress: paymentMetadata.deliveryAddress || "",
-      customerNotes: paymentMetadata.customerNotes || "",
-      estimatedDeliveryTime: "30-45 min",      paymentMethod: "pi_coin",
-      customerName: paymentMetadata.customerName,   // Customer anme 
-      paymentStatus: "paid",
-      piPaymentId: piPaymentId,
-      paymentRecordId: paymentRecordId,
-    });
+    if (amount <= 0) {
+      throw new ConvexError("Invalid order amount. Amount must be greater than 0.");
+    }
 
-    // Increment discount usage count if a discount was applied
-    if (paymentMetadata.discount?.code) {
-      // Now we call the mutation to apply the discount, which also handles usage counts.
-      const user = await ctx.db.get(userId);
-      // This ensures the discount is only "used" after a successful order creation.
-      await ctx.runMutation(internal.marketing.applyDiscountToOrder, {
-        code: paymentMetadata.discount.code,
-        userId: userId,
-        orderTotal: paymentAmount, // Or subtotal, depending on your logic
-        storeId: storeId,
-        tokenIdentifier: user?.tokenIdentifier, // We need to pass this for validation
-        orderId: orderId,
-      });
+    const storeId = typeof metadata?.storeId === "string" ? ctx.db.normalizeId("stores", metadata.storeId) : null;
+    const store = storeId ? await ctx.db.get(storeId) : null;
+    if (!store) throw new ConvexError("Store not found.");
+    if (!store.acceptsCash) {
+      throw new ConvexError("This store does not accept cash on delivery.");
     }
 
-    // Create a notification for the store owner if it's a valid user ID
-    if (store?.ownerId && typeof store.ownerId === 'string') {
-      const owner = await ctx.db
-        .query("users")
-        .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
-        .unique();
-      if (owner) {
-        await ctx.db.insert("notifications", {
-          userId: owner._id, // Use the actual user _id
-          orderId: orderId,
-          message: `New order #${orderId.slice(-6)} received for ${store.name}.`,
-          isRead: false,
-          type: "new_order",
-        });
-      }
+    const items = (metadata.items ?? []) as any[];
+    if (items.length === 0) throw new ConvexError("Your cart is empty.");
+    const quote = await assertCheckoutQuoteMatches(ctx, user._id, amount, metadata);
+    await assertInventoryAvailable(
+      ctx,
+      items.map((item) => ({
+        productId: item.id as Id<"products">,
+        variantId: item.variantId as Id<"productVariants"> | undefined,
+        quantity: item.quantity,
+        options: item.options,
+      }))
+    );
+
+    const fulfillmentType = getCheckoutFulfillmentType(metadata);
+    assertFulfillmentAvailable(store, fulfillmentType);
+    await assertQuoteDeliveryCoverage(ctx, quote);
+    if (typeof metadata.scheduledFor === "number") {
+      await assertScheduledSlotAvailable(ctx, store, metadata.scheduledFor);
     }
 
-    return orderId;
+    const orderId = await insertOrderFromCheckout(ctx, {
+      userId: user._id,
+      paymentAmount: amount,
+      paymentMetadata: { ...metadata, customerName: metadata.customerName ?? user.name },
+      paymentMethod: "cash",
+    });
+    return { orderId };
   },
 });
 
@@ -387,20 +569,31 @@ export const confirmOrderReceipt = mutation({
       throw new ConvexError("Order must be marked as delivered first.");
     }
 
+    // Confirming receipt is what lets the customer rate their driver.
+    if (order.receiptConfirmedAt === undefined) {
+      await ctx.db.patch(args.orderId, { receiptConfirmedAt: Date.now() });
+    }
+
+    // Cash orders were settled with the driver; there is nothing held in escrow to release.
+    if (order.paymentMethod === "cash") {
+      return { success: true };
+    }
+
     // Cancel the scheduled 48h payout if it exists
     if (order.scheduledPayoutId) {
       await ctx.scheduler.cancel(order.scheduledPayoutId);
     }
 
     // Release funds immediately
-    const commissionRateString = process.env.APP_COMMISSION_RATE || '0.05';
-    const appCommissionRate = parseFloat(commissionRateString);
-    const payoutAmount = order.totalAmount * (1 - appCommissionRate);
+    const { commissionRate, commissionAmount, payoutAmount, driverAmount } = await computeOrderPayoutSplit(ctx, order);
 
     await ctx.scheduler.runAfter(0, internal.paymentsActions.payoutToStore, {
       storeId: order.storeId,
       amount: payoutAmount,
       orderId: args.orderId,
+      commissionAmount,
+      commissionRate,
+      driverAmount,
     });
 
     // We could add a 'completed' status here if desired, but 'delivered' + payout implies completion.
@@ -433,6 +626,10 @@ export const createDispute = mutation({
     if (order.status !== 'delivered') {
       throw new ConvexError("You can only report issues after the order is marked delivered.");
     }
+    // Once the escrow is paid out or split by a settled dispute, there is nothing left to refund from.
+    if (order.paymentStatus === "released" || order.paymentStatus === "partially_refunded") {
+      throw new ConvexError("This order's payment has already been settled, so it can no longer be disputed.");
+    }
 
     // 1. Cancel the auto-release payout
     if (order.scheduledPayoutId) {
@@ -440,7 +637,11 @@ export const createDispute = mutation({
     }
 
     // 2. Update order status to DISPUTED
-    await ctx.db.patch(args.orderId, { status: 'disputed', scheduledPayoutId: undefined });
+    await transitionOrderStatus(ctx, order, "disputed", {
+      actorId: user._id,
+      actorRole: "customer",
+      note: args.reason,
+    }, { scheduledPayoutId: undefined });
 
     // 3. Create the report record
     await ctx.db.insert("reports", {
@@ -473,6 +674,142 @@ export const createDispute = mutation({
       }
     }
 
+    return { success: true };
+  },
+});
+
+/**
+ * Cancels an order before it is prepared: refunds the Pi payment (if any), restores stock, withdraws the
+ * order's pending driver offers and archives the order chat.
+ * Shared by customer cancellation and owner rejection so both refund the same way.
+ */
+async function cancelAndRefundOrder(
+  ctx: MutationCtx,
+  order: Doc<"orders">,
+  actor: { actorId: Id<"users">; actorRole: "customer" | "store_owner"; note: string }
+) {
+  const isPaid = order.paymentStatus === "paid";
+
+  await transitionOrderStatus(ctx, order, "cancelled", actor, isPaid ? { paymentStatus: "refunded" } : {});
+  await cancelPendingDispatchOffers(ctx, order._id);
+
+  const store = await ctx.db.get(order.storeId);
+  await adjustStockForItems(ctx, store, order.items, 1, {
+    type: "refund_restock",
+    reason: actor.note,
+    actorId: actor.actorId,
+    orderId: order._id,
+  });
+
+  if (isPaid) {
+    await ctx.scheduler.runAfter(0, internal.paymentsActions.refundToCustomer, {
+      userId: order.userId,
+      storeId: order.storeId,
+      amount: order.totalAmount,
+      orderId: order._id,
+    });
+  }
+
+  const conversation = await ctx.db.query("conversations").withIndex("by_order", q => q.eq("orderId", order._id)).first();
+  if (conversation) {
+    await ctx.db.patch(conversation._id, { isArchived: true });
+  }
+
+  return store;
+}
+
+/**
+ * Allows a customer to cancel their order while the store has not started preparing it.
+ */
+export const cancelOrder = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+
+    if (!order || order.userId !== user._id) {
+      throw new ConvexError("Order not found or unauthorized.");
+    }
+
+    if (order.status !== "pending" && order.status !== "confirmed") {
+      throw new ConvexError("This order can no longer be cancelled because the store has started preparing it.");
+    }
+
+    const store = await cancelAndRefundOrder(ctx, order, {
+      actorId: user._id,
+      actorRole: "customer",
+      note: args.reason || "Cancelled by customer",
+    });
+
+    // Notify store owner
+    if (store?.ownerId) {
+      const owner = await ctx.db
+        .query("users")
+        .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
+        .unique();
+      if (owner) {
+        await ctx.db.insert("notifications", {
+          userId: owner._id,
+          storeId: order.storeId,
+          orderId: order._id,
+          message: `Order #${order._id.slice(-6)} was cancelled by the customer.`,
+          isRead: false,
+          type: "status_update",
+        });
+      }
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Allows a store owner to reject an order they cannot fulfil. A reason is required and the customer is refunded.
+ */
+export const rejectOrder = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order) throw new ConvexError("Order not found.");
+
+    const store = await ctx.db.get(order.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("Not authorized to reject this order.");
+    }
+
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new ConvexError("A reason is required to reject an order.");
+    }
+
+    if (order.status !== "pending" && order.status !== "confirmed" && order.status !== "preparing" && order.status !== "ready_for_pickup") {
+      throw new ConvexError("Only orders that have not been dispatched or picked up can be rejected.");
+    }
+
+    await cancelAndRefundOrder(ctx, order, {
+      actorId: user._id,
+      actorRole: "store_owner",
+      note: reason,
+    });
+
+    await ctx.db.insert("notifications", {
+      userId: order.userId,
+      storeId: order.storeId,
+      orderId: order._id,
+      message: `${store.name} could not fulfil order #${order._id.slice(-6)}: ${reason}.${order.paymentStatus === "paid" ? " A refund has been issued." : ""}`,
+      isRead: false,
+      type: "status_update",
+    });
+
     return { success: true };
   },
 });
\ No newline at end of file
@@ -4,18 +4,11 @@ import { action, internalAction, ActionCtx } from "./_generated/server";
 import { v, ConvexError } from "convex/values";
 import { api, internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { getPiPlatformApiBase } from "./util";
 
 // [ملاحظة]: تم إزالة StellarSdk لأنه لم يعد ضرورياً للدفع.
 // الطريقة الجديدة تستخدم Pi Payments API مباشرة.
 
-// الرابط الثابت لكل خدمات Platform API (approve, complete, create payment, /v2/me, ...)
-const getPiPlatformApiBase = () => {
-  // FIX: Always use api.minepi.com for Platform API calls (/v2/payments, /v2/me).
-  // api.testnet.minepi.com is the Horizon (Blockchain) API, which doesn't support these endpoints.
-  // The environment (Sandbox/Production) is determined by the API Key, not the URL.
-  return "https://api.minepi.com";
-};
-
 /**
  * Verifies Pi Network webhook signature for security.
  * This is an internal action to keep the webhook secret secure.
@@ -152,11 +145,16 @@ export const approvePiPayment = action({
       throw new Error("Pi user ID mismatch during payment approval.");
     }
 
-    // --- Inventory Check ---
+    // --- Checkout Quote Check ---
+    // The amount and metadata come from the client; they must match the cart as priced on the server.
+    await ctx.runQuery(internal.checkoutQuotes.checkCheckoutQuote, { userId: user._id, amount, metadata });
+
+    // --- Inventory Reservation ---
     const itemsToCheck: any[] = [];
     if (metadata.items) {
       itemsToCheck.push(...metadata.items.map((item: any) => ({
         productId: item.id,
+        variantId: item.variantId,
         quantity: item.quantity,
         options: item.options
       })));
@@ -168,57 +166,58 @@ export const approvePiPayment = action({
       });
     }
 
-    if (itemsToCheck.length > 0) {
-      await ctx.runQuery(internal.inventory.checkInventoryAvailability, {
-        items: itemsToCheck
-      });
+    // --- Fulfillment Validation ---
+    // Delivery coverage was checked with the checkout quote, against the saved address it was priced for.
+    const fulfillmentType = metadata?.fulfillmentType === "pickup" ? "pickup" : "delivery";
+    if (metadata?.storeId) {
+      await ctx.runQuery(internal.fulfillment.checkFulfillment, { storeId: metadata.storeId, fulfillmentType });
     }
-    
-    // --- Delivery Zone Validation ---
-    if (metadata && metadata.storeId) {
-      const store = await ctx.runQuery(internal.stores.getStoreForPayout, { storeId: metadata.storeId });
-      
-      if (store) {
-        const userCountry = metadata.deliveryCountry || userProfile.country;
-        const userCity = metadata.deliveryCity || userProfile.city;
-
-        if (!userCountry || !userCity) {
-          throw new Error("Please update your account with your Country and City to proceed with the order.");
-        }
 
-        if (store.country !== userCountry) {
-           throw new Error(`This store only delivers within ${store.country}.`);
-        }
+    // Anything failing from here on releases what was held for the payment.
+    const piApiKey = process.env.PI_API_KEY;
+    try {
+      // Checked and held in one transaction, so a concurrent checkout can't pay for the same last units.
+      if (itemsToCheck.length > 0) {
+        await ctx.runMutation(internal.inventory.reserveStock, {
+          paymentId,
+          userId: user._id,
+          items: itemsToCheck,
+        });
+      }
+      if (metadata?.storeId && typeof metadata.scheduledFor === "number") {
+        await ctx.runMutation(internal.scheduledOrders.reserveScheduledSlot, {
+          paymentId,
+          storeId: metadata.storeId,
+          scheduledFor: metadata.scheduledFor,
+        });
+      }
 
-        if (store.deliveryRegions && store.deliveryRegions.length > 0) {
-          const isAllowed = store.isDeliveryRegionsAllowList ?? true;
-          const inList = store.deliveryRegions.includes(userCity);
+      await ctx.runMutation(internal.paymentsQueries.createPaymentRecord, {
+        paymentId,
+        userId: user._id,
+        amount: amount ?? 0,
+        memo: memo ?? "",
+        metadata,
+        status: "approved",
+      });
 
-          if (isAllowed) {
-            if (!inList) throw new Error(`This store does not deliver to ${userCity}.`);
-          } else {
-            if (inList) throw new Error(`This store does not deliver to ${userCity}.`);
-          }
-        }
+      if (!piApiKey) {
+        console.warn("PI_API_KEY environment variable not set. Using mock approval for development.");
+        return { success: true, mock: true };
       }
-    }
-
-    await ctx.runMutation(internal.paymentsQueries.createPaymentRecord, {
-      paymentId,
-      userId: user._id,
-      amount: amount ?? 0,
-      memo: memo ?? "",
-      metadata,
-      status: "approved",
-    });
 
-    const piApiKey = process.env.PI_API_KEY;
-    if (!piApiKey) {
-      console.warn("PI_API_KEY environment variable not set. Using mock approval for development.");
-      return { success: true, mock: true };
-    }
+      // Make sure the payment the customer signs is the one that was checked above.
+      const paymentResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}`, {
+        headers: { Authorization: `Key ${piApiKey}` },
+      });
+      if (!paymentResponse.ok) {
+        throw new Error(`Failed to fetch payment details: ${paymentResponse.status}`);
+      }
+      const piPayment = await paymentResponse.json();
+      if (Math.abs(Number(piPayment.amount) - amount) > 0.0000001 || piPayment.metadata?.quoteId !== metadata.quoteId) {
+        throw new Error("The Pi payment does not match the checkout it was approved for.");
+      }
 
-    try {
       const approveResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}/approve`, {
         method: 'POST',
         headers: { 'Authorization': `Key ${piApiKey}` },
@@ -239,6 +238,7 @@ export const approvePiPayment = action({
       return responseBody;
     } catch (error) {
       console.error("Pi payment approval failed:", error);
+      await ctx.runMutation(internal.inventory.releaseStockReservations, { paymentId });
       throw error;
     }
   },
@@ -260,6 +260,7 @@ export const refundToCustomer = internalAction({
       storeId: args.storeId,
       orderId: args.orderId,
       amount: args.amount,
+      kind: "customer_refund",
     });
 
     if (startResult.status === "already_completed") {
@@ -469,6 +470,40 @@ export const retryFailedPayout = action({
   },
 });
 
+/**
+ * Creates an app-to-user payment on the Pi Platform API and returns its identifier.
+ * @throws Error with the Pi API's message if the payment could not be created.
+ */
+async function createA2UPayment(
+  piApiKey: string,
+  { amount, memo, recipient, idem }: { amount: number; memo: string; recipient: string; idem: string }
+): Promise<string> {
+  const safeAmount = (Math.round(amount * 10000000) / 10000000).toFixed(7);
+  const paymentPayload = {
+    payment: {
+      amount: parseFloat(safeAmount),
+      memo,
+      recipient,
+      from_app_to_user: true,
+    },
+    idem,
+  };
+  console.log(`[createA2UPayment] Sending Payload:`, JSON.stringify(paymentPayload));
+
+  const response = await fetch(`${getPiPlatformApiBase()}/v2/payments`, {
+    method: 'POST',
+    headers: { 'Authorization': `Key ${piApiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(paymentPayload),
+  });
+
+  const responseBody = await response.json();
+  if (!response.ok) {
+    console.error(`[createA2UPayment] Pi API Error Details:`, responseBody);
+    throw new Error(`Pi API Error: ${responseBody.message || responseBody.error || JSON.stringify(responseBody)}`);
+  }
+  return responseBody.identifier;
+}
+
 /**
  * [معدلة] Internal action to transfer funds from the app wallet to the store owner's wallet.
  * تستخدم الآن Pi Payments API الرسمي بدلاً من Stellar SDK المباشر.
@@ -478,12 +513,19 @@ export const payoutToStore = internalAction({
     storeId: v.id("stores"),
     amount: v.number(),
     orderId: v.id("orders"),
+    commissionAmount: v.optional(v.number()),
+    commissionRate: v.optional(v.number()),
+    driverAmount: v.optional(v.number()),
   },
   handler: async (ctx, args): Promise<{ success: boolean; reason?: string; txid?: string; willRetry?: boolean; }> => {
     const startResult = await ctx.runMutation(internal.paymentsQueries.startPayout, {
       storeId: args.storeId,
       orderId: args.orderId,
       amount: args.amount,
+      kind: "store_payout",
+      commissionAmount: args.commissionAmount,
+      commissionRate: args.commissionRate,
+      driverAmount: args.driverAmount,
     });
 
     if (startResult.status === "already_completed") {
@@ -494,6 +536,10 @@ export const payoutToStore = internalAction({
       console.warn(`[payoutToStore] Payout for order ${args.orderId} is already in progress.`);
       return { success: false, reason: "Payout is currently in progress. Please wait." };
     }
+    if (startResult.status === "batched") {
+      console.log(`[payoutToStore] Earnings for order ${args.orderId} added to the store's next payout statement.`);
+      return { success: true, reason: "Added to the next payout statement." };
+    }
     const payoutId = startResult.payoutId!;
 
     const store = await ctx.runQuery(internal.stores.getStoreForPayout, { storeId: args.storeId });
@@ -523,35 +569,13 @@ export const payoutToStore = internalAction({
       return { success: false, reason: errorMsg };
     }
 
-    const safeAmount = (Math.round(args.amount * 10000000) / 10000000).toFixed(7);
-    const paymentMemo = `Payout for order ${args.orderId}`;
-    const paymentIdempotencyKey = `payout-${args.orderId}`;
-
-    const paymentPayload = {
-      payment: {
-        amount: parseFloat(safeAmount),
-        memo: paymentMemo,
-        recipient: recipientPiUid,
-        from_app_to_user: true,
-      },
-      idem: paymentIdempotencyKey,
-    };
-    console.log(`[payoutToStore] Sending Payload:`, JSON.stringify(paymentPayload));
-
     try {
-      const response = await fetch(`${getPiPlatformApiBase()}/v2/payments`, {
-        method: 'POST',
-        headers: { 'Authorization': `Key ${piApiKey}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify(paymentPayload),
+      const paymentId = await createA2UPayment(piApiKey, {
+        amount: args.amount,
+        memo: `Payout for order ${args.orderId}`,
+        recipient: recipientPiUid,
+        idem: `payout-${args.orderId}`,
       });
-
-      const responseBody = await response.json();
-      if (!response.ok) {
-        console.error(`[payoutToStore] Pi API Error Details:`, responseBody);
-        throw new Error(`Pi API Error: ${responseBody.message || responseBody.error || JSON.stringify(responseBody)}`);
-      }
-      
-      const paymentId = responseBody.identifier;
       console.log(`[payoutToStore] A2U payment created with ID: ${paymentId}.`);
 
       await ctx.runMutation(internal.paymentsQueries.finalizePayout, {
@@ -570,6 +594,61 @@ export const payoutToStore = internalAction({
   },
 });
 
+/**
+ * Public action letting a driver withdraw their available earnings to their Pi wallet.
+ * Uses the same A2U flow as store payouts; a retried payout keeps its idempotency key.
+ */
+export const payoutToDriver = action({
+  args: {
+    tokenIdentifier: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; reason?: string; txid?: string; amount?: number; }> => {
+    const user = await ctx.runQuery(api.auth.getUserFromToken, { tokenIdentifier: args.tokenIdentifier });
+    if (!user) throw new ConvexError("User must be authenticated.");
+
+    const profile = await ctx.runQuery(internal.users.getProfile, { userId: user._id });
+    if (!profile?.roles?.includes("driver")) {
+      throw new ConvexError("Only drivers can withdraw delivery earnings.");
+    }
+    if (!profile.piUid) {
+      return { success: false, reason: "Link your Pi account before withdrawing your earnings." };
+    }
+
+    const startResult = await ctx.runMutation(internal.driverEarnings.startDriverPayout, { driverId: user._id });
+    if (startResult.status === "in_progress") {
+      return { success: false, reason: "A payout is already in progress. Please wait." };
+    }
+    if (startResult.status === "nothing_to_pay") {
+      return { success: false, reason: "You have no earnings to withdraw yet." };
+    }
+    const { payoutId, amount } = startResult;
+
+    const piApiKey = process.env.PI_API_KEY;
+    if (!piApiKey) {
+      const errorMsg = "Missing PI_API_KEY environment variable.";
+      await ctx.runMutation(internal.driverEarnings.finalizeDriverPayout, { payoutId, status: "failed", failureReason: errorMsg });
+      return { success: false, reason: errorMsg };
+    }
+
+    try {
+      const paymentId = await createA2UPayment(piApiKey, {
+        amount,
+        memo: "OmniGo delivery earnings",
+        recipient: profile.piUid,
+        idem: `driver-payout-${payoutId}`,
+      });
+      console.log(`[payoutToDriver] A2U payment created with ID: ${paymentId}.`);
+
+      await ctx.runMutation(internal.driverEarnings.finalizeDriverPayout, { payoutId, status: "completed", txid: paymentId });
+      return { success: true, txid: paymentId, amount };
+    } catch (error: any) {
+      console.error(`[payoutToDriver] A2U payment failed for driver ${user._id}:`, error.message);
+      await ctx.runMutation(internal.driverEarnings.finalizeDriverPayout, { payoutId, status: "failed", failureReason: error.message });
+      return { success: false, reason: error.message };
+    }
+  },
+});
+
 /**
  * [دالة جديدة] لإرسال معاملة A2U بسيطة لغرض الاختبار.
  * يمكنك استدعاء هذه الدالة 10 مرات مع 10 Pi UIDs مختلفة.
@@ -697,3 +776,198 @@ export const handleIncompletePaymentAction = action({
     }
   },
 });
+
+// Payments in these statuses are still waiting on the client or the webhook.
+const RECONCILABLE_PAYMENT_STATUSES = ["pending", "approved"];
+const RECONCILE_PAGE_SIZE = 50;
+const RECONCILE_MAX_PER_RUN = 200;
+
+type ReconciliationItem = {
+  paymentId: string;
+  previousStatus: string;
+  action: "completed" | "cancelled" | "flagged";
+  detail?: string;
+};
+
+/**
+ * Scheduled reconciliation between `piPayments` and the Pi Platform API.
+ * Pages through payments stuck in a non-terminal status for longer than the threshold,
+ * fetches each one from `/v2/payments/{id}` and completes, cancels or flags it, then writes a report.
+ * The threshold defaults to PI_RECONCILE_AFTER_MINUTES (30 minutes if unset).
+ */
+export const reconcilePayments = internalAction({
+  args: {
+    olderThanMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const startedAt = Date.now();
+    const thresholdMinutes = args.olderThanMinutes ?? Number(process.env.PI_RECONCILE_AFTER_MINUTES || '30');
+    const createdBefore = startedAt - thresholdMinutes * 60 * 1000;
+    const items: ReconciliationItem[] = [];
+
+    const writeReport = async (note?: string) => {
+      await ctx.runMutation(internal.paymentsQueries.recordReconciliationReport, {
+        startedAt,
+        checkedCount: items.length,
+        completedCount: items.filter((item) => item.action === "completed").length,
+        cancelledCount: items.filter((item) => item.action === "cancelled").length,
+        flaggedCount: items.filter((item) => item.action === "flagged").length,
+        items,
+        note,
+      });
+    };
+
+    const piApiKey = process.env.PI_API_KEY;
+    if (!piApiKey) {
+      console.warn("[reconcilePayments] PI_API_KEY not set. Skipping reconciliation.");
+      await writeReport("Skipped: PI_API_KEY environment variable not set.");
+      return { checkedCount: 0 };
+    }
+    const baseUrl = getPiPlatformApiBase();
+
+    // Collect the stale payments first so that status changes don't shift the pages we are walking.
+    const stalePayments: Doc<"piPayments">[] = [];
+    for (const status of RECONCILABLE_PAYMENT_STATUSES) {
+      let cursor: string | null = null;
+      let isDone = false;
+      while (!isDone && stalePayments.length < RECONCILE_MAX_PER_RUN) {
+        const result: { page: Doc<"piPayments">[]; isDone: boolean; continueCursor: string } = await ctx.runQuery(
+          internal.paymentsQueries.getStalePaymentsPage,
+          { status, createdBefore, paginationOpts: { numItems: RECONCILE_PAGE_SIZE, cursor } }
+        );
+        stalePayments.push(...result.page);
+        isDone = result.isDone;
+        cursor = result.continueCursor;
+      }
+    }
+
+    for (const record of stalePayments.slice(0, RECONCILE_MAX_PER_RUN)) {
+      const { paymentId, status: previousStatus } = record;
+      try {
+        const paymentResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}`, {
+          headers: { Authorization: `Key ${piApiKey}` },
+        });
+        if (!paymentResponse.ok) {
+          throw new Error(`Failed to fetch payment: ${paymentResponse.status}`);
+        }
+        const payment = await paymentResponse.json();
+        const piStatus = payment.status ?? {};
+        const txid = payment.transaction?.txid;
+
+        if (piStatus.cancelled || piStatus.user_cancelled) {
+          await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, {
+            paymentId,
+            status: 'cancelled',
+            failureReason: 'Cancelled on Pi Network (reconciliation)',
+          });
+          items.push({ paymentId, previousStatus, action: "cancelled" });
+          continue;
+        }
+
+        if (piStatus.transaction_verified && txid) {
+          if (!piStatus.developer_completed) {
+            const completeResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}/complete`, {
+              method: 'POST',
+              headers: { 'Authorization': `Key ${piApiKey}`, 'Content-Type': 'application/json' },
+              body: JSON.stringify({ txid }),
+            });
+            if (!completeResponse.ok) {
+              throw new Error(`Complete failed: ${await completeResponse.text()}`);
+            }
+          }
+          await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, { paymentId, status: 'completed', txid });
+          await ctx.runMutation(internal.paymentsQueries.processCompletedPayment, { paymentId, payment: { ...payment, txid } });
+          items.push({ paymentId, previousStatus, action: "completed" });
+          continue;
+        }
+
+        // Nothing we can settle automatically (e.g. the user never submitted the transaction).
+        const detail = `No verified transaction on Pi: ${JSON.stringify(piStatus)}`;
+        await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, {
+          paymentId,
+          status: previousStatus,
+          failureReason: `Reconciliation: ${detail}`,
+        });
+        items.push({ paymentId, previousStatus, action: "flagged", detail });
+      } catch (error: any) {
+        console.error(`[reconcilePayments] Failed to reconcile ${paymentId}:`, error.message);
+        await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, {
+          paymentId,
+          status: previousStatus,
+          failureReason: `Reconciliation: ${error.message}`,
+        });
+        items.push({ paymentId, previousStatus, action: "flagged", detail: error.message });
+      }
+    }
+
+    await writeReport();
+    console.log(`[reconcilePayments] Checked ${items.length} payments older than ${thresholdMinutes} minutes.`);
+    return { checkedCount: items.length };
+  },
+});
+
+/**
+ * Scheduled job that pays batched stores: one A2U transfer per due store, covering all its pending earnings.
+ * Pass `storeId` to pay that store's pending earnings right away, e.g. when it leaves batched mode.
+ */
+export const processPayoutStatements = internalAction({
+  args: {
+    storeId: v.optional(v.id("stores")),
+  },
+  handler: async (ctx, args) => {
+    const dueStores = args.storeId
+      ? [{ storeId: args.storeId }]
+      : await ctx.runQuery(internal.payoutStatements.getStoresDueForStatement, {});
+    // Failed statements, and those left processing by an interrupted run, are retried with the same idem key,
+    // so they are paid once.
+    const retryStatements = (await ctx.runQuery(internal.payoutStatements.getPayoutStatementsToRetry, {}))
+      .filter((statement) => !args.storeId || statement.storeId === args.storeId);
+    const piApiKey = process.env.PI_API_KEY;
+    if ((dueStores.length > 0 || retryStatements.length > 0) && !piApiKey) {
+      console.warn("[processPayoutStatements] PI_API_KEY not set. Skipping batched payouts.");
+      return;
+    }
+
+    const statements: Array<{ storeId: Id<"stores">; statementId: Id<"payoutStatements">; amount: number }> = [];
+    for (const { storeId, statementId } of retryStatements) {
+      const resumed = await ctx.runMutation(internal.payoutStatements.resumePayoutStatement, { statementId });
+      if (resumed) statements.push({ storeId, ...resumed });
+    }
+    for (const { storeId } of dueStores) {
+      const opened = await ctx.runMutation(internal.payoutStatements.openPayoutStatement, { storeId });
+      if (opened) statements.push({ storeId, ...opened });
+    }
+
+    for (const { storeId, statementId, amount } of statements) {
+      try {
+        const store = await ctx.runQuery(internal.stores.getStoreForPayout, { storeId });
+        if (!store) throw new Error(`Store ${storeId} not found.`);
+        const owner = await ctx.runQuery(internal.users.getUser, { tokenIdentifier: store.ownerId });
+        const profile = await ctx.runQuery(internal.users.getProfile, { userId: owner._id });
+        if (!profile || !profile.piUid) {
+          throw new Error(`Store owner for ${storeId} has no Pi UID. Cannot process A2U payment.`);
+        }
+
+        const paymentId = await createA2UPayment(piApiKey!, {
+          amount,
+          memo: `Payout statement for ${store.name}`,
+          recipient: profile.piUid,
+          idem: `statement-${statementId}`,
+        });
+        await ctx.runMutation(internal.payoutStatements.finalizePayoutStatement, {
+          statementId,
+          status: "completed",
+          txid: paymentId,
+        });
+        console.log(`[processPayoutStatements] Paid statement ${statementId} (π${amount.toFixed(7)}) to store ${storeId}.`);
+      } catch (error: any) {
+        console.error(`[processPayoutStatements] Statement ${statementId} failed:`, error.message);
+        await ctx.runMutation(internal.payoutStatements.finalizePayoutStatement, {
+          statementId,
+          status: "failed",
+          failureReason: error.message,
+        });
+      }
+    }
+  },
+});
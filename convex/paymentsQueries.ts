@@ -1,8 +1,15 @@
-import { query, internalMutation } from "./_generated/server";
-import { v } from "convex/values";
+import { query, internalQuery, internalMutation } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { Id } from "./_generated/dataModel";
 import { validateToken } from "./util";
 import { internal } from "./_generated/api";
+import { postLedgerTransfer } from "./ledger";
+import { isBatchedPayoutSchedule } from "./payoutStatements";
+import { creditDriverEarnings } from "./driverEarnings";
+import { clearStockReservations } from "./inventory";
+import { markCheckoutQuoteApproved } from "./checkoutQuotes";
+import { clearSlotReservation } from "./scheduledOrders";
 
 /**
  * Internal mutation to create a payment record.
@@ -18,6 +25,7 @@ export const createPaymentRecord = internalMutation({
     status: v.string(),
   },
   handler: async (ctx, args) => {
+    await markCheckoutQuoteApproved(ctx, args.metadata, args.paymentId);
     return await ctx.db.insert("piPayments", {
       ...args,
       // txid will be added later on completion
@@ -50,6 +58,11 @@ export const updatePaymentStatus = internalMutation({
       txid: args.txid,
       failureReason: args.failureReason,
     });
+    // A payment that won't complete gives its held stock back.
+    if (args.status === "cancelled" || args.status === "failed") {
+      await clearStockReservations(ctx, args.paymentId);
+      await clearSlotReservation(ctx, args.paymentId);
+    }
   },
 });
 
@@ -135,18 +148,57 @@ export const startPayout = internalMutation({
     storeId: v.id("stores"),
     orderId: v.id("orders"),
     amount: v.number(),
+    kind: v.optional(v.union(v.literal("store_payout"), v.literal("customer_refund"))),
+    commissionAmount: v.optional(v.number()),
+    commissionRate: v.optional(v.number()),
+    driverAmount: v.optional(v.number()), // Tip and driver fee moved to the driver's balance on release
   },
   handler: async (ctx, args) => {
-    // Check for ANY existing payout for this order
-    const existing = await ctx.db.query("payouts")
+    const kind = args.kind ?? "store_payout";
+
+    // Releasing escrow to the store also books the app commission. Posting is idempotent,
+    // so retries of the same payout do not release twice.
+    if (kind === "store_payout") {
+      if (args.commissionAmount) {
+        await postLedgerTransfer(ctx, {
+          key: `commission:${args.orderId}`,
+          type: "commission",
+          orderId: args.orderId,
+          amount: args.commissionAmount,
+          from: { account: "escrow" },
+          to: { account: "platform_commission" },
+        });
+      }
+      await postLedgerTransfer(ctx, {
+        key: `release:${args.orderId}`,
+        type: "escrow_release",
+        orderId: args.orderId,
+        amount: args.amount,
+        from: { account: "escrow" },
+        to: { account: "store", accountOwnerId: args.storeId },
+      });
+      if (args.driverAmount) {
+        await creditDriverEarnings(ctx, args.orderId, args.driverAmount);
+      }
+    }
+
+    // Check for an existing transfer of the same kind for this order.
+    // A partially refunded order has both a refund and a payout.
+    const existingForOrder = await ctx.db.query("payouts")
       .withIndex("by_order", (q) => q.eq("orderId", args.orderId))
-      .first();
+      .collect();
+    const existing = existingForOrder.find((p) => (p.kind ?? "store_payout") === kind);
     
     if (existing) {
       if (existing.status === "completed") {
         return { status: "already_completed", txid: existing.txid };
       }
 
+      // Earnings waiting for (or included in) a batched statement are paid with the statement.
+      if (existing.status === "pending_batch" || existing.statementId) {
+        return { status: "batched" };
+      }
+
       if (existing.status === "processing") {
          // If created less than 2 minutes ago, assume it's still running
          if (Date.now() - existing._creationTime < 2 * 60 * 1000) {
@@ -162,13 +214,24 @@ export const startPayout = internalMutation({
       return { status: "started", payoutId: existing._id };
     }
 
+    // Stores on a daily or weekly schedule accumulate their earnings for the next statement.
+    const store = await ctx.db.get(args.storeId);
+    const isBatched = kind === "store_payout" && isBatchedPayoutSchedule(store?.payoutSchedule);
+
     const payoutId = await ctx.db.insert("payouts", {
       storeId: args.storeId,
       orderId: args.orderId,
       amount: args.amount,
-      status: "processing",
+      kind,
+      commissionAmount: args.commissionAmount,
+      commissionRate: args.commissionRate,
+      status: isBatched ? "pending_batch" : "processing",
     });
 
+    if (isBatched) {
+      return { status: "batched" };
+    }
+
     return { status: "started", payoutId };
   }
 });
@@ -189,6 +252,32 @@ export const finalizePayout = internalMutation({
       txid: args.txid,
       failureReason: args.failureReason,
     });
+
+    // Pi only leaves the app wallet once the A2U transfer succeeds.
+    const payout = await ctx.db.get(args.payoutId);
+    if (payout && args.status === "completed") {
+      if ((payout.kind ?? "store_payout") === "store_payout") {
+        await postLedgerTransfer(ctx, {
+          key: `payout:${payout.orderId}`,
+          type: "payout",
+          orderId: payout.orderId,
+          amount: payout.amount,
+          from: { account: "store", accountOwnerId: payout.storeId },
+          to: { account: "external_wallet", accountOwnerId: payout.storeId },
+        });
+      } else {
+        const order = await ctx.db.get(payout.orderId);
+        if (!order) return;
+        await postLedgerTransfer(ctx, {
+          key: `refund:${payout.orderId}`,
+          type: "refund",
+          orderId: payout.orderId,
+          amount: payout.amount,
+          from: { account: "escrow" },
+          to: { account: "customer", accountOwnerId: order.userId },
+        });
+      }
+    }
   },
 });
 
@@ -231,6 +320,73 @@ export const cancelPendingPayment = internalMutation({
       status: "cancelled",
       failureReason: "Cancelled due to pending state resolution",
     });
+    await clearStockReservations(ctx, args.paymentId);
+    await clearSlotReservation(ctx, args.paymentId);
     console.log(`[cancelPendingPayment] Payment ${args.paymentId} cancelled in DB.`);
   },
+});
+
+/**
+ * Internal query returning one page of payments in a non-terminal status that were created before `createdBefore`.
+ * Used by the reconciliation job to walk stuck payments.
+ */
+export const getStalePaymentsPage = internalQuery({
+  args: {
+    status: v.string(),
+    createdBefore: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("piPayments")
+      .withIndex("by_status", (q) => q.eq("status", args.status).lt("_creationTime", args.createdBefore))
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Internal mutation to store the outcome of a reconciliation run.
+ */
+export const recordReconciliationReport = internalMutation({
+  args: {
+    startedAt: v.number(),
+    checkedCount: v.number(),
+    completedCount: v.number(),
+    cancelledCount: v.number(),
+    flaggedCount: v.number(),
+    items: v.array(v.object({
+      paymentId: v.string(),
+      previousStatus: v.string(),
+      action: v.union(v.literal("completed"), v.literal("cancelled"), v.literal("flagged")),
+      detail: v.optional(v.string()),
+    })),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("paymentReconciliations", {
+      ...args,
+      finishedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Lists the most recent reconciliation reports. Admin only.
+ */
+export const getReconciliationReports = query({
+  args: {
+    tokenIdentifier: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+    return await ctx.db
+      .query("paymentReconciliations")
+      .withIndex("by_startedAt")
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
 });
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { query, internalQuery, internalMutation } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+import { postLedgerTransfer } from "./ledger";
+
+type PayoutSchedule = Doc<"stores">["payoutSchedule"];
+
+const PAYOUT_PERIOD_MS: Record<"daily" | "weekly", number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// A statement still processing this long after its transfer started is taken to have been interrupted,
+// like a single payout in `startPayout`.
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+export function isBatchedPayoutSchedule(schedule: PayoutSchedule): schedule is "daily" | "weekly" {
+  return schedule === "daily" || schedule === "weekly";
+}
+
+/**
+ * Internal query listing the batched stores whose pending earnings should be paid now:
+ * either their schedule period has passed since the last statement, or the balance reached their minimum.
+ */
+export const getStoresDueForStatement = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const due: Array<{ storeId: Id<"stores">; amount: number }> = [];
+
+    for (const schedule of ["daily", "weekly"] as const) {
+      const stores = await ctx.db
+        .query("stores")
+        .withIndex("by_payout_schedule", (q) => q.eq("payoutSchedule", schedule))
+        .collect();
+
+      for (const store of stores) {
+        const pending = await ctx.db
+          .query("payouts")
+          .withIndex("by_store_and_status", (q) => q.eq("storeId", store._id).eq("status", "pending_batch"))
+          .collect();
+        if (pending.length === 0) continue;
+
+        const amount = pending.reduce((sum, payout) => sum + payout.amount, 0);
+        const lastStatement = await ctx.db
+          .query("payoutStatements")
+          .withIndex("by_store", (q) => q.eq("storeId", store._id))
+          .order("desc")
+          .first();
+        const periodStart = lastStatement?._creationTime ?? Math.min(...pending.map((payout) => payout._creationTime));
+
+        const isPeriodOver = now - periodStart >= PAYOUT_PERIOD_MS[schedule];
+        const isAboveMinimum = store.payoutMinimum !== undefined && amount >= store.payoutMinimum;
+        if (isPeriodOver || isAboveMinimum) {
+          due.push({ storeId: store._id, amount });
+        }
+      }
+    }
+    return due;
+  },
+});
+
+/**
+ * Internal mutation that gathers a store's pending earnings into a new statement and marks them as processing.
+ * Returns null when there is nothing to pay.
+ */
+export const openPayoutStatement = internalMutation({
+  args: { storeId: v.id("stores") },
+  handler: async (ctx, args) => {
+    const pending = await ctx.db
+      .query("payouts")
+      .withIndex("by_store_and_status", (q) => q.eq("storeId", args.storeId).eq("status", "pending_batch"))
+      .collect();
+    if (pending.length === 0) return null;
+
+    const lines = await Promise.all(
+      pending.map(async (payout) => {
+        const order = await ctx.db.get(payout.orderId);
+        return {
+          orderId: payout.orderId,
+          payoutId: payout._id,
+          amount: payout.amount,
+          commissionAmount: payout.commissionAmount,
+          refundAmount: order?.refundAmount,
+        };
+      })
+    );
+
+    const amount = lines.reduce((sum, line) => sum + line.amount, 0);
+    const statementId = await ctx.db.insert("payoutStatements", {
+      storeId: args.storeId,
+      status: "processing",
+      amount,
+      commissionAmount: lines.reduce((sum, line) => sum + (line.commissionAmount ?? 0), 0),
+      refundAmount: lines.reduce((sum, line) => sum + (line.refundAmount ?? 0), 0),
+      lines,
+      periodStart: Math.min(...pending.map((payout) => payout._creationTime)),
+      periodEnd: Math.max(...pending.map((payout) => payout._creationTime)),
+    });
+
+    for (const payout of pending) {
+      await ctx.db.patch(payout._id, { status: "processing", statementId });
+    }
+
+    return { statementId, amount };
+  },
+});
+
+const isStale = (statement: Doc<"payoutStatements">) =>
+  Date.now() - (statement.attemptedAt ?? statement._creationTime) >= STALE_PROCESSING_MS;
+
+/**
+ * Internal query listing the statements to retry: those whose transfer failed, and those whose transfer was
+ * interrupted (the action crashed or timed out before recording its outcome).
+ */
+export const getPayoutStatementsToRetry = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const failed = await ctx.db
+      .query("payoutStatements")
+      .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .collect();
+    const processing = await ctx.db
+      .query("payoutStatements")
+      .withIndex("by_status", (q) => q.eq("status", "processing"))
+      .collect();
+    return [...failed, ...processing.filter(isStale)]
+      .map((statement) => ({ statementId: statement._id, storeId: statement.storeId }));
+  },
+});
+
+/**
+ * Internal mutation that claims a failed or interrupted statement for another transfer attempt.
+ * Returns null if it has been finalized or retried since it was listed.
+ */
+export const resumePayoutStatement = internalMutation({
+  args: { statementId: v.id("payoutStatements") },
+  handler: async (ctx, args) => {
+    const statement = await ctx.db.get(args.statementId);
+    if (!statement) return null;
+    if (statement.status !== "failed" && !(statement.status === "processing" && isStale(statement))) return null;
+
+    await ctx.db.patch(statement._id, { status: "processing", attemptedAt: Date.now() });
+    return { statementId: statement._id, amount: statement.amount };
+  },
+});
+
+/**
+ * Internal mutation to record the outcome of a statement's A2U transfer.
+ * A failed statement keeps its earnings and is retried as is by the next run, under the same idem key:
+ * the transfer may have gone through with only its response lost, and Pi must not pay it twice.
+ */
+export const finalizePayoutStatement = internalMutation({
+  args: {
+    statementId: v.id("payoutStatements"),
+    status: v.union(v.literal("completed"), v.literal("failed")),
+    txid: v.optional(v.string()),
+    failureReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const statement = await ctx.db.get(args.statementId);
+    if (!statement || statement.status !== "processing") return;
+
+    if (args.status === "completed") {
+      await ctx.db.patch(statement._id, { status: "completed", txid: args.txid, completedAt: Date.now() });
+      for (const line of statement.lines) {
+        await ctx.db.patch(line.payoutId, { status: "completed", txid: args.txid });
+      }
+      await postLedgerTransfer(ctx, {
+        key: `statement:${statement._id}`,
+        type: "payout",
+        amount: statement.amount,
+        from: { account: "store", accountOwnerId: statement.storeId },
+        to: { account: "external_wallet", accountOwnerId: statement.storeId },
+      });
+    } else {
+      await ctx.db.patch(statement._id, { status: "failed", failureReason: args.failureReason });
+    }
+  },
+});
+
+/**
+ * Fetches the payout statements of a store, most recent first.
+ * Only the store owner is authorized to call this.
+ */
+export const getPayoutStatementsByStore = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view statements for this store.");
+    }
+
+    return await ctx.db
+      .query("payoutStatements")
+      .withIndex("by_store", (q) => q.eq("storeId", args.storeId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
@@ -3,13 +3,20 @@ import { v } from "convex/values";
 import { validateToken } from "./util";
 
 /**
- * Updates the user's last seen timestamp.
+ * Updates the user's last seen timestamp, and their location when one is given.
  * This should be called periodically by the client.
  */
 export const update = mutation({
-  args: { tokenIdentifier: v.string() },
+  args: {
+    tokenIdentifier: v.string(),
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+  },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
+    const location = args.latitude !== undefined && args.longitude !== undefined
+      ? { latitude: args.latitude, longitude: args.longitude, locationUpdatedAt: Date.now() }
+      : {};
 
     const existingPresence = await ctx.db
       .query("presence")
@@ -18,13 +25,15 @@ export const update = mutation({
 
     if (existingPresence) {
       // Optimization: Only update if more than 30 seconds have passed to save DB writes
-      if (Date.now() - existingPresence.lastSeen > 30000) {
-        await ctx.db.patch(existingPresence._id, { lastSeen: Date.now() });
+      const isLocationStale = location.locationUpdatedAt !== undefined && Date.now() - (existingPresence.locationUpdatedAt ?? 0) > 30000;
+      if (Date.now() - existingPresence.lastSeen > 30000 || isLocationStale) {
+        await ctx.db.patch(existingPresence._id, { lastSeen: Date.now(), ...location });
       }
     } else {
       await ctx.db.insert("presence", {
         userId: user._id,
         lastSeen: Date.now(),
+        ...location,
       });
     }
   },
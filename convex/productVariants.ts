@@ -0,0 +1,295 @@
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+import { getReservedStock } from "./inventory";
+import { getProductStock, notifyIfLowStock, recordVariantStockChange } from "./stockMovements";
+
+type ProductOption = NonNullable<Doc<"products">["options"]>[number];
+type OptionValue = { title: string; choice: string };
+
+/**
+ * The options variants are combinations of: those the customer picks exactly one choice of, like size or color.
+ * Options with multiple choices are add-ons priced on top of the variant.
+ */
+export function getVariantOptions(options: Doc<"products">["options"]) {
+  return (options ?? []).filter((option) => option.type === "single");
+}
+
+export function getVariantLabel(variant: Pick<Doc<"productVariants">, "optionValues">) {
+  return variant.optionValues.map((value) => value.choice).join(" / ");
+}
+
+/**
+ * Whether the customer's chosen options pick this variant.
+ */
+export function variantMatchesOptions(variant: Pick<Doc<"productVariants">, "optionValues">, options?: Record<string, any>) {
+  return variant.optionValues.every(({ title, choice }) => options?.[title] === choice);
+}
+
+/**
+ * The variant an ordered item is for. Products without variants have none; for the others the item must name
+ * the variant its chosen options pick.
+ * @throws ConvexError if the product has variants and `variantId` is missing or does not match the options.
+ */
+export async function resolveItemVariant(
+  ctx: QueryCtx,
+  product: Doc<"products">,
+  options?: Record<string, any>,
+  variantId?: Id<"productVariants">
+) {
+  if (!product.hasVariants) return null;
+  const variant = variantId ? await ctx.db.get(variantId) : null;
+  if (!variant || variant.productId !== product._id || !variantMatchesOptions(variant, options)) {
+    const titles = getVariantOptions(product.options).map((option) => option.title.toLowerCase()).join(" and ");
+    throw new ConvexError(`Choose an available ${titles} for ${product.name}.`);
+  }
+  return variant;
+}
+
+/**
+ * Puts a variant's option values in the order of the product's options, checking it has exactly one valid choice of each.
+ * Returns null if it doesn't.
+ */
+function normalizeOptionValues(variantOptions: ProductOption[], optionValues: OptionValue[]) {
+  if (optionValues.length !== variantOptions.length) return null;
+  const normalized: OptionValue[] = [];
+  for (const option of variantOptions) {
+    const value = optionValues.find((v) => v.title === option.title);
+    if (!value || !option.choices.some((c) => c.name === value.choice)) return null;
+    normalized.push({ title: option.title, choice: value.choice });
+  }
+  return normalized;
+}
+
+const getVariantKey = (optionValues: OptionValue[]) => JSON.stringify(optionValues.map((v) => [v.title, v.choice]));
+
+/**
+ * Deletes a variant, logging its remaining stock as removed.
+ */
+async function removeVariant(ctx: MutationCtx, store: Doc<"stores">, variant: Doc<"productVariants">, actorId: Id<"users">) {
+  await recordVariantStockChange(ctx, store, variant, 0, { type: "adjustment", reason: "Variant removed", actorId });
+  await ctx.db.delete(variant._id);
+}
+
+/**
+ * Carries renamed options and choices over to a product's variants, so their stock, SKUs and past orders
+ * stay with the same variant. An option list or choice list that kept its length is read as renamed in place;
+ * otherwise options and choices are matched by name, and variants left without a valid combination are deleted.
+ * Returns the product's variant fields after the change.
+ */
+export async function syncVariantOptions(
+  ctx: MutationCtx,
+  store: Doc<"stores">,
+  product: Doc<"products">,
+  newOptions: Doc<"products">["options"],
+  actorId: Id<"users">
+) {
+  const oldVariantOptions = getVariantOptions(product.options);
+  const newVariantOptions = getVariantOptions(newOptions);
+  const optionsRenamed = oldVariantOptions.length === newVariantOptions.length;
+
+  const variants = await ctx.db
+    .query("productVariants")
+    .withIndex("by_product", (q) => q.eq("productId", product._id))
+    .collect();
+
+  let quantity = 0;
+  let remaining = 0;
+  for (const variant of variants) {
+    const renamed = variant.optionValues.map(({ title, choice }) => {
+      const index = oldVariantOptions.findIndex((o) => o.title === title);
+      const oldChoices = oldVariantOptions[index]?.choices ?? [];
+      const option = optionsRenamed ? newVariantOptions[index] : newVariantOptions.find((o) => o.title === title);
+      if (!option) return null;
+      const newChoice = option.choices.length === oldChoices.length
+        ? option.choices[oldChoices.findIndex((c) => c.name === choice)]
+        : option.choices.find((c) => c.name === choice);
+      return newChoice ? { title: option.title, choice: newChoice.name } : null;
+    });
+    const optionValues = renamed.every((value) => value !== null)
+      ? normalizeOptionValues(newVariantOptions, renamed as OptionValue[])
+      : null;
+
+    if (!optionValues) {
+      await removeVariant(ctx, store, variant, actorId);
+      continue;
+    }
+    if (getVariantKey(optionValues) !== getVariantKey(variant.optionValues)) {
+      await ctx.db.patch(variant._id, { optionValues });
+    }
+    quantity += variant.quantity;
+    remaining++;
+  }
+
+  return { hasVariants: remaining > 0, quantity };
+}
+
+/**
+ * A product's variants as customers see them, with the stock not held for other customers' payments.
+ */
+export const getProductVariants = query({
+  args: { productId: v.id("products") },
+  handler: async (ctx, args) => {
+    const product = await ctx.db.get(args.productId);
+    if (!product?.hasVariants) return [];
+
+    const variants = await ctx.db
+      .query("productVariants")
+      .withIndex("by_product", (q) => q.eq("productId", args.productId))
+      .collect();
+    const reserved = await getReservedStock(ctx, product._id);
+
+    return Promise.all(variants.map(async (variant) => ({
+      _id: variant._id,
+      optionValues: variant.optionValues,
+      sku: variant.sku,
+      price: variant.price,
+      available: Math.max(0, variant.quantity - (reserved.byVariant.get(variant._id) ?? 0)),
+      imageUrl: variant.imageId ? await ctx.storage.getUrl(variant.imageId) : null,
+    })));
+  },
+});
+
+/**
+ * A product's variants for editing, with the product's images to pick variant images from. Store owner only.
+ */
+export const getVariantMatrix = query({
+  args: {
+    tokenIdentifier: v.string(),
+    productId: v.id("products"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const product = await ctx.db.get(args.productId);
+    if (!product) throw new ConvexError("Product not found.");
+    const store = await ctx.db.get(product.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view this inventory.");
+    }
+
+    const variants = await ctx.db
+      .query("productVariants")
+      .withIndex("by_product", (q) => q.eq("productId", args.productId))
+      .collect();
+    const reserved = await getReservedStock(ctx, product._id);
+
+    return {
+      variants: variants.map((variant) => ({ ...variant, reserved: reserved.byVariant.get(variant._id) ?? 0 })),
+      images: await Promise.all((product.imageIds ?? []).map(async (id) => ({ id, url: await ctx.storage.getUrl(id) }))),
+    };
+  },
+});
+
+/**
+ * Replaces a product's variants with the given matrix. Variants are matched to existing ones by their combination,
+ * so they keep their IDs; combinations left out are deleted. Stock changes are logged as stock movements.
+ * Saving an empty matrix turns variants off and returns the product to stock per choice.
+ */
+export const saveVariantMatrix = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    productId: v.id("products"),
+    variants: v.array(v.object({
+      optionValues: v.array(v.object({ title: v.string(), choice: v.string() })),
+      sku: v.optional(v.string()),
+      barcode: v.optional(v.string()),
+      price: v.optional(v.number()),
+      quantity: v.number(),
+      imageId: v.optional(v.id("_storage")),
+    })),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const product = await ctx.db.get(args.productId);
+    if (!product) throw new ConvexError("Product not found.");
+
+    const store = await ctx.db.get(product.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to update this product.");
+    }
+    if (store.storeType === 'restaurant') {
+      throw new ConvexError("Variants are not available for restaurants.");
+    }
+
+    const variantOptions = getVariantOptions(product.options);
+    if (args.variants.length > 0 && variantOptions.length === 0) {
+      throw new ConvexError("Add an option with a single choice, like Size or Color, before creating variants.");
+    }
+
+    const seenKeys = new Set<string>();
+    const seenSkus = new Set<string>();
+    const variants = [];
+    for (const input of args.variants) {
+      const optionValues = normalizeOptionValues(variantOptions, input.optionValues);
+      const label = getVariantLabel(input);
+      if (!optionValues) throw new ConvexError(`Variant "${label}" does not match the product's options.`);
+      const key = getVariantKey(optionValues);
+      if (seenKeys.has(key)) throw new ConvexError(`Variant "${label}" is listed twice.`);
+      seenKeys.add(key);
+
+      if (!Number.isInteger(input.quantity) || input.quantity < 0) {
+        throw new ConvexError(`Stock for "${label}" must be a whole number of at least 0.`);
+      }
+      if (input.price !== undefined && input.price < 0) throw new ConvexError("Price cannot be negative.");
+      if (input.imageId && !product.imageIds?.includes(input.imageId)) {
+        throw new ConvexError(`The image for "${label}" must be one of the product's images.`);
+      }
+
+      const sku = input.sku?.trim() || undefined;
+      if (sku) {
+        if (seenSkus.has(sku)) throw new ConvexError(`SKU ${sku} is used by more than one variant.`);
+        seenSkus.add(sku);
+        const taken = await ctx.db
+          .query("productVariants")
+          .withIndex("by_store_and_sku", (q) => q.eq("storeId", store._id).eq("sku", sku))
+          .first();
+        const takenByProduct = await ctx.db
+          .query("products")
+          .withIndex("by_store_and_sku", (q) => q.eq("storeId", store._id).eq("sku", sku))
+          .first();
+        if ((taken && taken.productId !== product._id) || takenByProduct) {
+          throw new ConvexError(`SKU ${sku} is already used by another product.`);
+        }
+      }
+
+      variants.push({ ...input, optionValues, key, sku, barcode: input.barcode?.trim() || undefined });
+    }
+
+    const existing = await ctx.db
+      .query("productVariants")
+      .withIndex("by_product", (q) => q.eq("productId", product._id))
+      .collect();
+    const existingByKey = new Map(existing.map((variant) => [getVariantKey(variant.optionValues), variant]));
+    const movement = { reason: args.reason?.trim() || undefined, actorId: user._id };
+
+    for (const variant of existing) {
+      if (!seenKeys.has(getVariantKey(variant.optionValues))) {
+        await removeVariant(ctx, store, variant, user._id);
+      }
+    }
+
+    let quantity = 0;
+    for (const { key, ...fields } of variants) {
+      const match = existingByKey.get(key);
+      if (match) {
+        await recordVariantStockChange(ctx, store, match, fields.quantity, movement);
+        await ctx.db.patch(match._id, fields);
+      } else {
+        const variantId = await ctx.db.insert("productVariants", { storeId: store._id, productId: product._id, ...fields, quantity: 0 });
+        const variant = await ctx.db.get(variantId);
+        await recordVariantStockChange(ctx, store, variant!, fields.quantity, movement);
+        await ctx.db.patch(variantId, { quantity: fields.quantity });
+      }
+      quantity += fields.quantity;
+    }
+
+    // Without variants, stock goes back to the choices it was kept on before.
+    const hasVariants = variants.length > 0;
+    const total = hasVariants ? quantity : getProductStock({ ...product, hasVariants: false });
+    await notifyIfLowStock(ctx, store, product, getProductStock(product), total);
+    await ctx.db.patch(product._id, { hasVariants, quantity: total, isAvailable: total > 0 });
+    return { success: true };
+  },
+});
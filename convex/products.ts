@@ -3,6 +3,8 @@ import { v, ConvexError } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
 import { Doc } from "./_generated/dataModel";
 import { validateToken } from "./util";
+import { getProductStock, recordStockChange } from "./stockMovements";
+import { syncVariantOptions } from "./productVariants";
 
 export const getProductsByStore = query({
   args: { 
@@ -33,26 +35,6 @@ export const getProductsByStore = query({
   },
 });
 
-export const getStoreProductsFlat = query({
-  args: { storeId: v.id("stores") },
-  handler: async (ctx, args) => {
-    const products = await ctx.db
-      .query("products")
-      .withIndex("by_store", (q) => q.eq("storeId", args.storeId))
-      .take(500); // OPTIMIZATION: Limit to 500 to prevent OOM. Use pagination for full lists.
-
-    return Promise.all(
-      products.map(async (product) => {
-        const imageUrls = product.imageIds ? await Promise.all(product.imageIds.map(id => ctx.storage.getUrl(id))) : [];
-        return {
-          ...product,
-          imageUrls: imageUrls.filter((url): url is string => url !== null),
-        };
-      })
-    );
-  },
-});
-
 export const addProduct = mutation({
   args: {
     tokenIdentifier: v.string(),
@@ -112,6 +94,16 @@ export const addProduct = mutation({
       ingredients: [], // Default value
     });
 
+    const product = await ctx.db.get(productId);
+    if (product) {
+      // Logged as a change from an empty product so the ledger starts with the opening stock.
+      await recordStockChange(ctx, store, { ...product, quantity: undefined, options: undefined }, product, {
+        type: "restock",
+        reason: "Opening stock",
+        actorId: user._id,
+      });
+    }
+
     // OPTIMIZATION: Increment the store's totalProducts counter
     await ctx.db.patch(args.storeId, {
       totalProducts: (store.totalProducts ?? 0) + 1,
@@ -174,6 +166,17 @@ export const updateProduct = mutation({
       updateData.isAvailable = args.quantity > 0;
     }
 
+    // Variant stock is edited in the variant matrix; renamed options are carried over to the variants.
+    if (product.hasVariants) {
+      const variants = await syncVariantOptions(ctx, store, product, args.options, user._id);
+      // With every variant gone, stock goes back to the choices.
+      const quantity = variants.hasVariants ? variants.quantity : getProductStock({ options: args.options });
+      updateData.hasVariants = variants.hasVariants;
+      updateData.quantity = quantity;
+      updateData.isAvailable = quantity > 0;
+    }
+
+    await recordStockChange(ctx, store, product, updateData, { reason: "Product edited", actorId: user._id });
     await ctx.db.patch(productId, updateData);
   },
 });
@@ -187,6 +190,7 @@ export const updateOptionQuantities = mutation({
       choiceName: v.string(),
       quantity: v.number(),
     })),
+    reason: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
@@ -200,8 +204,10 @@ export const updateOptionQuantities = mutation({
     }
 
     if (!product.options) throw new ConvexError("This product does not have options to update.");
+    if (product.hasVariants) throw new ConvexError("This product's stock is kept per variant. Edit its variants instead.");
 
-    const newOptions = [...product.options];
+    // Copy the choices too, so `product` stays the "before" of the logged movement.
+    const newOptions = product.options.map(o => ({ ...o, choices: o.choices.map(c => ({ ...c })) }));
     for (const update of args.updates) {
       const optionIndex = newOptions.findIndex(o => o.title === update.optionTitle);
       if (optionIndex !== -1) {
@@ -217,6 +223,10 @@ export const updateOptionQuantities = mutation({
       .flatMap(o => o.choices)
       .reduce((sum, choice) => sum + (choice.quantity ?? 0), 0);
 
+    await recordStockChange(ctx, store, product, { options: newOptions, quantity: totalQuantity }, {
+      reason: args.reason?.trim() || undefined,
+      actorId: user._id,
+    });
     await ctx.db.patch(args.productId, {
       options: newOptions,
       quantity: totalQuantity,
@@ -0,0 +1,188 @@
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken } from "./util";
+
+type RatedRole = "driver" | "customer";
+
+/**
+ * A user's average rating in one role, or null while nobody has rated them in it.
+ */
+export function getRatingSummary(profile: Doc<"userProfiles"> | null, role: RatedRole) {
+  const count = role === "driver" ? profile?.driverRatingCount : profile?.customerRatingCount;
+  if (!profile || !count) return null;
+  return { average: (role === "driver" ? profile.driverRating : profile.customerRating) ?? 0, count };
+}
+
+/**
+ * Stores one side's rating of an order and folds it into the rated user's running average.
+ */
+async function recordRating(
+  ctx: MutationCtx,
+  rating: { orderId: Id<"orders">; raterId: Id<"users">; rateeId: Id<"users">; role: RatedRole; rating: number; comment?: string }
+) {
+  if (!Number.isInteger(rating.rating) || rating.rating < 1 || rating.rating > 5) {
+    throw new ConvexError("Ratings must be a whole number of stars from 1 to 5.");
+  }
+
+  const existing = await ctx.db
+    .query("userRatings")
+    .withIndex("by_order_and_rater", (q) => q.eq("orderId", rating.orderId).eq("raterId", rating.raterId))
+    .first();
+  if (existing) {
+    throw new ConvexError("You have already rated this order.");
+  }
+
+  await ctx.db.insert("userRatings", { ...rating, comment: rating.comment?.trim() || undefined });
+
+  const profile = await ctx.db
+    .query("userProfiles")
+    .withIndex("by_user", (q) => q.eq("userId", rating.rateeId))
+    .unique();
+  if (!profile) return;
+
+  // Formula: NewAvg = ((OldAvg * OldCount) + NewRating) / NewCount
+  const previous = getRatingSummary(profile, rating.role) ?? { average: 0, count: 0 };
+  const count = previous.count + 1;
+  const average = (previous.average * previous.count + rating.rating) / count;
+  await ctx.db.patch(profile._id, rating.role === "driver"
+    ? { driverRating: average, driverRatingCount: count }
+    : { customerRating: average, customerRatingCount: count });
+}
+
+/**
+ * Lets a customer rate the driver who delivered their order, once they have confirmed receiving it.
+ */
+export const rateDriver = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+    rating: v.number(),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order || order.userId !== user._id) {
+      throw new ConvexError("Order not found or unauthorized.");
+    }
+    if (!order.driverId) {
+      throw new ConvexError("No driver delivered this order.");
+    }
+    if (order.status !== "delivered" || (order.receiptConfirmedAt === undefined && order.paymentStatus !== "released")) {
+      throw new ConvexError("Confirm that you received the order before rating your driver.");
+    }
+
+    await recordRating(ctx, {
+      orderId: order._id,
+      raterId: user._id,
+      rateeId: order.driverId,
+      role: "driver",
+      rating: args.rating,
+      comment: args.comment,
+    });
+    return { success: true };
+  },
+});
+
+/**
+ * Lets a driver rate the customer of an order they delivered.
+ */
+export const rateCustomer = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+    rating: v.number(),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order || order.driverId !== user._id) {
+      throw new ConvexError("You did not deliver this order.");
+    }
+    // Disputed orders were delivered too, and are often the ones worth rating.
+    if (order.status !== "delivered" && order.status !== "disputed") {
+      throw new ConvexError("You can rate the customer once the order is delivered.");
+    }
+
+    await recordRating(ctx, {
+      orderId: order._id,
+      raterId: user._id,
+      rateeId: order.userId,
+      role: "customer",
+      rating: args.rating,
+      comment: args.comment,
+    });
+    return { success: true };
+  },
+});
+
+/**
+ * The ratings around one order for its customer, driver or store owner: the driver's and the customer's
+ * aggregate scores, and the rating the caller gave on this order, if any.
+ */
+export const getOrderRatings = query({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order) {
+      throw new ConvexError("Order not found.");
+    }
+    const store = await ctx.db.get(order.storeId);
+    if (order.userId !== user._id && order.driverId !== user._id && store?.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view ratings for this order.");
+    }
+
+    const [customerProfile, driverProfile, myRating] = await Promise.all([
+      ctx.db.query("userProfiles").withIndex("by_user", (q) => q.eq("userId", order.userId)).unique(),
+      order.driverId
+        ? ctx.db.query("userProfiles").withIndex("by_user", (q) => q.eq("userId", order.driverId!)).unique()
+        : null,
+      ctx.db
+        .query("userRatings")
+        .withIndex("by_order_and_rater", (q) => q.eq("orderId", order._id).eq("raterId", user._id))
+        .first(),
+    ]);
+
+    return {
+      driverRating: getRatingSummary(driverProfile, "driver"),
+      customerRating: getRatingSummary(customerProfile, "customer"),
+      myRating: myRating ? { rating: myRating.rating, comment: myRating.comment } : null,
+    };
+  },
+});
+
+/**
+ * Recently delivered orders the authenticated driver has not rated the customer of yet.
+ */
+export const getCustomersToRate = query({
+  args: { tokenIdentifier: v.string() },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const recentOrders = await ctx.db
+      .query("orders")
+      .withIndex("by_driver", (q) => q.eq("driverId", user._id))
+      .order("desc")
+      .take(20);
+
+    const unrated = await Promise.all(
+      recentOrders
+        .filter((order) => order.status === "delivered" || order.status === "disputed")
+        .map(async (order) => {
+          const rated = await ctx.db
+            .query("userRatings")
+            .withIndex("by_order_and_rater", (q) => q.eq("orderId", order._id).eq("raterId", user._id))
+            .first();
+          return rated
+            ? null
+            : { _id: order._id, customerName: order.customerName ?? "Customer", storeName: order.storeName, deliveredAt: order.actualDeliveryTime };
+        })
+    );
+    return unrated.filter((order) => order !== null);
+  },
+});
@@ -1,8 +1,29 @@
-import { query, mutation } from "./_generated/server";
+import { query, mutation, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
 import { validateToken } from "./util";
+import { Doc } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
+import { transitionOrderStatus } from "./orderEvents";
+import { postLedgerTransfer } from "./ledger";
+import { computeOrderPayoutSplit } from "./fees";
+
+/**
+ * Cash orders settle outside the app wallet, so a refund is handed back by the store in cash.
+ * This reduces the commission the store owes to what it charges on the amount it keeps.
+ */
+async function reduceCashCommission(ctx: MutationCtx, order: Doc<"orders">, newCommissionAmount: number) {
+  const reduction = (order.commissionAmount ?? 0) - newCommissionAmount;
+  if (reduction <= 0) return;
+  await postLedgerTransfer(ctx, {
+    key: `cash_commission_reversal:${order._id}`,
+    type: "cash_commission",
+    orderId: order._id,
+    amount: reduction,
+    from: { account: "commission_receivable", accountOwnerId: order.storeId },
+    to: { account: "store", accountOwnerId: order.storeId },
+  });
+}
 
 export const getReportsByStore = query({
   args: {
@@ -37,8 +58,16 @@ export const getReportsByStore = query({
           ...report,
           orderNumber: order?._id?.slice(-6).toUpperCase() ?? "N/A",
           orderTotal: order?.totalAmount,
+          orderItems: order?.items ?? [],
           reporterName: reporter?.name || "Anonymous",
           imageUrls: imageUrls.filter((u): u is string => u !== null),
+          deliveryProof: order?.deliveryProof
+            ? {
+                method: order.deliveryProof.method,
+                recordedAt: order.deliveryProof.recordedAt,
+                photoUrl: order.deliveryProof.photoId ? await ctx.storage.getUrl(order.deliveryProof.photoId) : null,
+              }
+            : null,
         };
         })
       ),
@@ -50,8 +79,14 @@ export const resolveReport = mutation({
   args: {
     tokenIdentifier: v.string(),
     reportId: v.id("reports"),
-    resolution: v.string(), // "refund" or "dismiss"
+    resolution: v.union(v.literal("refund"), v.literal("partial_refund"), v.literal("dismiss")),
     note: v.optional(v.string()),
+    // For "partial_refund": either the line items to refund, or a custom amount.
+    refundItems: v.optional(v.array(v.object({
+      index: v.number(), // Position in the order's `items`
+      quantity: v.number(),
+    }))),
+    refundAmount: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
@@ -72,6 +107,7 @@ export const resolveReport = mutation({
 
     // Find the conversation associated with this order
     const conversation = await ctx.db.query("conversations").withIndex("by_order", q => q.eq("orderId", order._id)).first();
+    const isCash = order.paymentMethod === "cash";
 
     if (args.resolution === "refund") {
       // Logic for refunding (mark as resolved, order cancelled/refunded)
@@ -79,18 +115,94 @@ export const resolveReport = mutation({
         status: "resolved",
         resolution: args.note || "Refunded by store",
       });
-      await ctx.db.patch(order._id, {
-        status: "cancelled",
-        paymentStatus: "refunded",
-      });
+      await transitionOrderStatus(ctx, order, "cancelled", {
+        actorId: user._id,
+        actorRole: "store_owner",
+        note: args.note || "Dispute accepted and refunded",
+      }, { paymentStatus: "refunded" });
       
-      // Trigger the refund action to send Pi back to the customer
-      await ctx.scheduler.runAfter(0, internal.paymentsActions.refundToCustomer, {
-        userId: order.userId,
-        storeId: order.storeId,
-        amount: order.totalAmount,
-        orderId: order._id,
+      if (isCash) {
+        await reduceCashCommission(ctx, order, 0);
+      } else {
+        // Trigger the refund action to send Pi back to the customer
+        await ctx.scheduler.runAfter(0, internal.paymentsActions.refundToCustomer, {
+          userId: order.userId,
+          storeId: order.storeId,
+          amount: order.totalAmount,
+          orderId: order._id,
+        });
+      }
+      if (conversation) {
+        await ctx.db.patch(conversation._id, { isArchived: true });
+      }
+    } else if (args.resolution === "partial_refund") {
+      // Work out the amount to return from the selected line items, or use the custom amount.
+      let refundAmount = 0;
+      if (args.refundItems && args.refundItems.length > 0) {
+        for (const refundItem of args.refundItems) {
+          const item = order.items[refundItem.index];
+          if (!item) throw new Error(`Order has no item at position ${refundItem.index}`);
+          if (refundItem.quantity <= 0 || refundItem.quantity > item.quantity) {
+            throw new Error(`Invalid refund quantity for ${item.name}`);
+          }
+          refundAmount += item.price * refundItem.quantity;
+        }
+      } else if (args.refundAmount !== undefined) {
+        refundAmount = args.refundAmount;
+      } else {
+        throw new Error("Select the items to refund or enter a refund amount");
+      }
+
+      if (refundAmount <= 0) throw new Error("Refund amount must be greater than 0");
+      if (refundAmount >= order.totalAmount) {
+        throw new Error("Refund covers the whole order. Use a full refund instead.");
+      }
+      // The tip is paid out in full, so it has to stay in escrow.
+      const tipAmount = order.tipAmount ?? 0;
+      if (order.totalAmount - refundAmount < tipAmount) {
+        throw new Error(`Refund can be at most π${(order.totalAmount - tipAmount).toFixed(4)}, since the π${tipAmount.toFixed(4)} tip is paid out in full.`);
+      }
+
+      // Commission is only taken on what the store keeps.
+      const retainedAmount = order.totalAmount - refundAmount;
+      const { commissionRate, commissionAmount, payoutAmount, driverAmount } = await computeOrderPayoutSplit(ctx, order, retainedAmount);
+
+      await ctx.db.patch(report._id, {
+        status: "resolved",
+        resolution: args.note || `Partially refunded π${refundAmount.toFixed(4)} by store`,
+      });
+
+      await transitionOrderStatus(ctx, order, "delivered", {
+        actorId: user._id,
+        actorRole: "store_owner",
+        note: args.note || `Dispute settled with a partial refund of π${refundAmount.toFixed(4)}`,
+      }, {
+        paymentStatus: "partially_refunded",
+        refundAmount,
+        refundedItems: args.refundItems,
+        commissionAmount,
+        storePayoutAmount: payoutAmount,
       });
+
+      if (isCash) {
+        await reduceCashCommission(ctx, order, commissionAmount);
+      } else {
+        await ctx.scheduler.runAfter(0, internal.paymentsActions.refundToCustomer, {
+          userId: order.userId,
+          storeId: order.storeId,
+          amount: refundAmount,
+          orderId: order._id,
+        });
+        await ctx.scheduler.runAfter(0, internal.paymentsActions.payoutToStore, {
+          storeId: order.storeId,
+          amount: payoutAmount,
+          orderId: order._id,
+          commissionAmount,
+          commissionRate,
+          driverAmount,
+        });
+      }
+
       if (conversation) {
         await ctx.db.patch(conversation._id, { isArchived: true });
       }
@@ -101,20 +213,25 @@ export const resolveReport = mutation({
         resolution: args.note || "Report dismissed by store",
       });
       
-      const commissionRateString = process.env.APP_COMMISSION_RATE || '0.05';
-      const appCommissionRate = parseFloat(commissionRateString);
-      const payoutAmount = order.totalAmount * (1 - appCommissionRate);
-
-      await ctx.scheduler.runAfter(0, internal.paymentsActions.payoutToStore, {
-        storeId: order.storeId,
-        amount: payoutAmount,
-        orderId: order._id,
-      });
+      const { commissionRate, commissionAmount, payoutAmount, driverAmount } = await computeOrderPayoutSplit(ctx, order);
+
+      // Cash orders were already settled with the driver; only Pi orders have escrow to release.
+      if (!isCash) {
+        await ctx.scheduler.runAfter(0, internal.paymentsActions.payoutToStore, {
+          storeId: order.storeId,
+          amount: payoutAmount,
+          orderId: order._id,
+          commissionAmount,
+          commissionRate,
+          driverAmount,
+        });
+      }
       
-      await ctx.db.patch(order._id, { 
-        status: "delivered",
-        paymentStatus: "released" // Ensure payment status is updated
-      });
+      await transitionOrderStatus(ctx, order, "delivered", {
+        actorId: user._id,
+        actorRole: "store_owner",
+        note: args.note || "Dispute dismissed",
+      }, { paymentStatus: isCash ? "paid" : "released" }); // Ensure payment status is updated
       if (conversation) {
         await ctx.db.patch(conversation._id, { isArchived: true });
       }
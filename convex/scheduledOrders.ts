@@ -0,0 +1,208 @@
+import { query, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { validateToken } from "./util";
+import { STOCK_RESERVATION_MINUTES } from "./inventory";
+
+export const SCHEDULE_SLOT_MINUTES = 30;
+// How far ahead customers can schedule an order.
+const SCHEDULE_DAYS_AHEAD = 3;
+// Scheduled orders reach the store's order list this long before their slot, and can't be placed any closer to it.
+export const SCHEDULED_ORDER_LEAD_MINUTES = 45;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Start times of every slot the store is open for, from the lead time ahead of now up to the scheduling horizon.
+ * Opening hours are read in the store's local time; a closing time at or before the opening time runs past midnight.
+ */
+function getSlotStarts(store: Doc<"stores">, now: number) {
+  const offsetMs = (store.utcOffsetMinutes ?? 0) * MINUTE_MS;
+  const earliest = now + SCHEDULED_ORDER_LEAD_MINUTES * MINUTE_MS;
+  const latest = now + SCHEDULE_DAYS_AHEAD * DAY_MS;
+  const localToday = Math.floor((now + offsetMs) / DAY_MS) * DAY_MS;
+
+  const starts = new Set<number>();
+  // Yesterday is included for windows that run past midnight into today.
+  for (let day = -1; day <= SCHEDULE_DAYS_AHEAD; day++) {
+    const localMidnight = localToday + day * DAY_MS;
+    const hours = store.openingHours.find((h) => h.day === DAY_NAMES[new Date(localMidnight).getUTCDay()]);
+    if (!hours?.isOpen) continue;
+
+    const open = toMinutes(hours.open);
+    let close = toMinutes(hours.close);
+    if (close <= open) close += 24 * 60;
+    for (let minute = open; minute + SCHEDULE_SLOT_MINUTES <= close; minute += SCHEDULE_SLOT_MINUTES) {
+      const start = localMidnight + minute * MINUTE_MS - offsetMs;
+      if (start >= earliest && start <= latest) starts.add(start);
+    }
+  }
+  return Array.from(starts).sort((a, b) => a - b);
+}
+
+/**
+ * Number of live orders and held payments booked into each of a store's upcoming slots.
+ */
+async function getSlotBookings(ctx: QueryCtx, storeId: Doc<"stores">["_id"], from: number) {
+  const orders = await ctx.db
+    .query("orders")
+    .withIndex("by_store_and_scheduled_for", (q) => q.eq("storeId", storeId).gte("scheduledFor", from))
+    .filter((q) => q.neq(q.field("status"), "cancelled"))
+    .collect();
+  const reservations = await ctx.db
+    .query("slotReservations")
+    .withIndex("by_store_and_slot", (q) => q.eq("storeId", storeId).gte("scheduledFor", from))
+    .filter((q) => q.gt(q.field("expiresAt"), Date.now()))
+    .collect();
+  const bookings = new Map<number, number>();
+  for (const booking of [...orders, ...reservations]) {
+    bookings.set(booking.scheduledFor!, (bookings.get(booking.scheduledFor!) ?? 0) + 1);
+  }
+  return bookings;
+}
+
+/**
+ * Throws unless the store takes scheduled orders and `scheduledFor` starts one of its open slots with room left.
+ */
+export async function assertScheduledSlotAvailable(ctx: QueryCtx, store: Doc<"stores">, scheduledFor: number) {
+  if (!store.scheduledSlotCapacity) {
+    throw new ConvexError("This store does not take scheduled orders.");
+  }
+  if (!getSlotStarts(store, Date.now()).includes(scheduledFor)) {
+    throw new ConvexError("This delivery slot is outside the store's opening hours or no longer available.");
+  }
+  const bookings = await getSlotBookings(ctx, store._id, scheduledFor);
+  if ((bookings.get(scheduledFor) ?? 0) >= store.scheduledSlotCapacity) {
+    throw new ConvexError("This delivery slot is fully booked. Please pick another one.");
+  }
+}
+
+/**
+ * Internal mutation used by payment approval to check a scheduled order's slot and hold it for the payment,
+ * so concurrent checkouts can't all book the last place. The hold is renewed and released with the payment's
+ * stock reservation, so it lasts until the payment is settled or dropped.
+ */
+export const reserveScheduledSlot = internalMutation({
+  args: {
+    paymentId: v.string(),
+    storeId: v.id("stores"),
+    scheduledFor: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // Pi can ask to approve the same payment again; its slot is already held.
+    const existing = await ctx.db
+      .query("slotReservations")
+      .withIndex("by_payment", (q) => q.eq("paymentId", args.paymentId))
+      .first();
+    if (existing) return;
+
+    const store = await ctx.db.get(args.storeId);
+    if (!store) return;
+    await assertScheduledSlotAvailable(ctx, store, args.scheduledFor);
+
+    const expiresAt = Date.now() + STOCK_RESERVATION_MINUTES * 60 * 1000;
+    await ctx.db.insert("slotReservations", { ...args, expiresAt });
+  },
+});
+
+/**
+ * Drops a payment's slot hold. Called when the payment is cancelled or fails, when the hold expires,
+ * and when its order is created, which takes the slot instead.
+ */
+export async function clearSlotReservation(ctx: MutationCtx, paymentId: string) {
+  const reservations = await ctx.db
+    .query("slotReservations")
+    .withIndex("by_payment", (q) => q.eq("paymentId", paymentId))
+    .collect();
+  for (const reservation of reservations) {
+    await ctx.db.delete(reservation._id);
+  }
+}
+
+/**
+ * The slots a customer can schedule an order from this store for, with the room left in each.
+ * Empty when the store does not take scheduled orders.
+ */
+export const getScheduleSlots = query({
+  args: { storeId: v.id("stores") },
+  handler: async (ctx, args) => {
+    const store = await ctx.db.get(args.storeId);
+    if (!store?.scheduledSlotCapacity) return [];
+    const capacity = store.scheduledSlotCapacity;
+
+    const starts = getSlotStarts(store, Date.now());
+    if (starts.length === 0) return [];
+    const bookings = await getSlotBookings(ctx, store._id, starts[0]);
+
+    return starts
+      .map((startsAt) => ({
+        startsAt,
+        endsAt: startsAt + SCHEDULE_SLOT_MINUTES * MINUTE_MS,
+        remaining: capacity - (bookings.get(startsAt) ?? 0),
+      }))
+      .filter((slot) => slot.remaining > 0);
+  },
+});
+
+/**
+ * Number of scheduled orders still held back from the store's order list. Store owner only.
+ */
+export const getHeldOrderCount = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view orders for this store.");
+    }
+
+    const held = await ctx.db
+      .query("orders")
+      .withIndex("by_store_and_scheduled_for", (q) => q.eq("storeId", store._id).gt("scheduledFor", 0))
+      .filter((q) => q.and(q.neq(q.field("heldUntil"), undefined), q.neq(q.field("status"), "cancelled")))
+      .collect();
+    return held.length;
+  },
+});
+
+/**
+ * Scheduled at the end of a scheduled order's hold: shows it in the store's order list and tells the owner it is due.
+ */
+export const releaseScheduledOrder = internalMutation({
+  args: { orderId: v.id("orders") },
+  handler: async (ctx, args) => {
+    const order = await ctx.db.get(args.orderId);
+    if (!order || order.heldUntil === undefined) return;
+
+    await ctx.db.patch(order._id, { heldUntil: undefined });
+    if (order.status === "cancelled") return;
+
+    const store = await ctx.db.get(order.storeId);
+    const owner = store
+      ? await ctx.db
+          .query("users")
+          .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
+          .unique()
+      : null;
+    if (owner) {
+      await ctx.db.insert("notifications", {
+        userId: owner._id,
+        storeId: order.storeId,
+        orderId: order._id,
+        message: `Scheduled order #${order._id.slice(-6)} is due in ${SCHEDULED_ORDER_LEAD_MINUTES} minutes.`,
+        isRead: false,
+        type: "new_order",
+      });
+    }
+  },
+});
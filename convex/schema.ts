@@ -15,6 +15,28 @@ const authTables = {
     .index("by_tokenIdentifier", ["tokenIdentifier"]),
 };
 
+const orderStatus = v.union(
+  v.literal("pending"),
+  v.literal("confirmed"),
+  v.literal("preparing"),
+  v.literal("out_for_delivery"),
+  v.literal("ready_for_pickup"),
+  v.literal("delivered"),
+  v.literal("cancelled"),
+  v.literal("disputed")
+);
+
+const storeType = v.union(
+  v.literal("restaurant"),
+  v.literal("pharmacy"),
+  v.literal("grocery"),
+  v.literal("electronics"),
+  v.literal("clothing"),
+  v.literal("games"),
+  v.literal("services"),
+  v.literal("other"),
+);
+
 const applicationTables = {
   regions: defineTable({
     country: v.string(),
@@ -28,16 +50,7 @@ const applicationTables = {
     // Allow multiple categories for a store
     categories: v.array(v.string()), // e.g., ["Pizza", "Burgers", "Italian"]
     tags: v.optional(v.array(v.string())), // e.g., ["Pizza", "Pasta", "Health", "Beauty", "Gaming"]
-    storeType: v.union( // Add store type for filtering
-      v.literal("restaurant"),
-      v.literal("pharmacy"),
-      v.literal("grocery"),
-      v.literal("electronics"),
-      v.literal("clothing"),
-      v.literal("games"),
-      v.literal("services"),
-      v.literal("other"),
-    ),
+    storeType: storeType, // Add store type for filtering
     priceRange: v.array(v.string()), // Changed to array: ["$", "$$"]
     rating: v.number(),
     totalReviews: v.number(),
@@ -73,6 +86,17 @@ const applicationTables = {
     termsOfServiceUrl: v.optional(v.string()),
     deliveryRegions: v.optional(v.array(v.string())), // List of region names (cities) for delivery restrictions
     isDeliveryRegionsAllowList: v.optional(v.boolean()), // true = allow only these, false = block these
+    acceptsCash: v.optional(v.boolean()), // Whether customers can pay the driver in cash on delivery
+    // Batched payouts: earnings build up and are paid as one statement. Absent or "per_order" pays each order separately.
+    payoutSchedule: v.optional(v.union(v.literal("per_order"), v.literal("daily"), v.literal("weekly"))),
+    payoutMinimum: v.optional(v.number()), // Pay a batch early once the balance reaches this amount
+    autoDispatch: v.optional(v.boolean()), // Offer preparing orders to the best available driver automatically
+    requiresDeliveryProof: v.optional(v.boolean()), // Drivers must enter the handover code or upload a photo to deliver
+    driverFeePerDelivery: v.optional(v.number()), // Paid to the driver out of the store's share of each delivered order
+    minDriverRating: v.optional(v.number()), // Rated drivers below this average (1-5) can't be assigned; unrated drivers can
+    offersPickup: v.optional(v.boolean()), // Customers may collect orders in store; defaults to on for stores without delivery
+    scheduledSlotCapacity: v.optional(v.number()), // Orders taken per scheduling slot; absent means no scheduled orders
+    utcOffsetMinutes: v.optional(v.number()), // Store local time offset, used to read openingHours on the server
   })
     .index("by_region", ["country", "region"])
     .index("by_region_type", ["country", "region", "storeType"]) // فهرس جديد للبحث السريع
@@ -80,6 +104,7 @@ const applicationTables = {
     .index("by_rating", ["rating"])
     .index("by_trending", ["isTrending", "country", "region"])
     .index("by_owner", ["ownerId"]) // Add index for owner queries
+    .index("by_payout_schedule", ["payoutSchedule"])
     .searchIndex("search_all", {
       searchField: "name",
       filterFields: ["country", "region", "categories", "storeType", "hasDelivery"]
@@ -127,6 +152,9 @@ const applicationTables = {
     preparationTime: v.optional(v.string()),
     spiceLevel: v.optional(v.string()), // "mild", "medium", "hot", "very hot"
     quantity: v.optional(v.number()), // For stock tracking in non-restaurant stores
+    reorderThreshold: v.optional(v.number()), // Owner is notified when stock falls to this level
+    hasVariants: v.optional(v.boolean()), // Stock is kept per variant; `quantity` is the sum of the variants' stock
+    sku: v.optional(v.string()), // Unique per store; matches catalog import rows to existing products
     options: v.optional(v.array(v.object({
       title: v.string(),
       type: v.union(v.literal("single"), v.literal("multiple")),
@@ -139,6 +167,7 @@ const applicationTables = {
     }))),
   })
     .index("by_store", ["storeId"])
+    .index("by_store_and_sku", ["storeId", "sku"])
     .index("by_category", ["category"])
     .index("by_popular", ["isPopular"])
     .searchIndex("search_all", {
@@ -146,6 +175,20 @@ const applicationTables = {
       filterFields: ["storeId", "category", "isAvailable"]
     }),
 
+  // One per combination of a product's single-choice options, e.g. "Size: M" + "Color: Red"
+  productVariants: defineTable({
+    storeId: v.id("stores"),
+    productId: v.id("products"),
+    optionValues: v.array(v.object({ title: v.string(), choice: v.string() })),
+    sku: v.optional(v.string()),
+    barcode: v.optional(v.string()),
+    price: v.optional(v.number()), // Replaces the product price and the increments of the variant's choices
+    quantity: v.number(),
+    imageId: v.optional(v.id("_storage")), // One of the product's images
+  })
+    .index("by_product", ["productId"])
+    .index("by_store_and_sku", ["storeId", "sku"]),
+
   productCategories: defineTable({
     storeId: v.id("stores"),
     name: v.string(),
@@ -156,6 +199,7 @@ const applicationTables = {
     userId: v.id("users"),
     storeId: v.id("stores"),
     productId: v.id("products"),
+    variantId: v.optional(v.id("productVariants")),
     quantity: v.number(),
     options: v.optional(v.any()),
     specialInstructions: v.optional(v.string()),
@@ -179,6 +223,18 @@ const applicationTables = {
     .index("by_rating", ["rating"])
     .index("by_user_and_store", ["userId", "storeId"]),
 
+  // Ratings the two sides of a delivery give each other: customers rate their driver, drivers rate the customer
+  userRatings: defineTable({
+    orderId: v.id("orders"),
+    raterId: v.id("users"),
+    rateeId: v.id("users"),
+    role: v.union(v.literal("driver"), v.literal("customer")), // The role the rated user had on the order
+    rating: v.number(), // 1-5 stars
+    comment: v.optional(v.string()),
+  })
+    .index("by_order_and_rater", ["orderId", "raterId"])
+    .index("by_ratee_and_role", ["rateeId", "role"]),
+
   reviewReports: defineTable({
     reviewId: v.id("reviews"),
     userId: v.id("users"), // The user who is reporting
@@ -190,6 +246,8 @@ const applicationTables = {
     storeName: v.string(),
     items: v.array(v.object({
       productId: v.id("products"),
+      variantId: v.optional(v.id("productVariants")),
+      sku: v.optional(v.string()), // The variant's SKU when the order was placed
       name: v.string(),
       description: v.optional(v.string()), // Add the missing description field
       quantity: v.number(),
@@ -202,38 +260,72 @@ const applicationTables = {
     discountId: v.optional(v.id("discounts")),
     discountAmount: v.optional(v.number()),
     deliveryFee: v.number(),
-    status: v.union(
-      v.literal("pending"),
-      v.literal("confirmed"),
-      v.literal("preparing"),
-      v.literal("out_for_delivery"),
-      v.literal("delivered"),
-      v.literal("cancelled"),
-      v.literal("disputed")
-    ),
+    deliveryFeeBreakdown: v.optional(v.array(v.object({ label: v.string(), amount: v.number() }))), // How deliveryFee was calculated
+    tipAmount: v.optional(v.number()), // Customer's tip for the driver, included in totalAmount and never commissioned
+    driverFee: v.optional(v.number()), // The store's driverFeePerDelivery when the order was placed
+    status: orderStatus,
+    fulfillmentType: v.optional(v.union(v.literal("delivery"), v.literal("pickup"))), // Absent means delivery
     driverId: v.optional(v.id("users")), // The user ID of the assigned driver
     customerName: v.optional(v.string()), // Add customer name to the order
     deliveryAddress: v.string(),
+    deliveryAddressId: v.optional(v.id("userAddresses")), // Saved address chosen at checkout, used for live tracking
     customerNotes: v.optional(v.string()),
     estimatedDeliveryTime: v.string(),
+    scheduledFor: v.optional(v.number()), // Start of the slot a scheduled order is due in
+    heldUntil: v.optional(v.number()), // A scheduled order stays out of the store's order list until then
     actualDeliveryTime: v.optional(v.number()),
     paymentMethod: v.string(), // "pi_coin", "card", "cash"
     paymentStatus: v.string(), // "pending", "paid", "refunded"
+    cashCollectedAt: v.optional(v.number()), // When the driver confirmed collecting a cash payment
+    receiptConfirmedAt: v.optional(v.number()), // When the customer confirmed receiving the order
+    handoverCode: v.optional(v.string()), // One-time code the customer gives the driver, or the store for pickup orders, at handover
+    deliveryProof: v.optional(v.object({
+      method: v.union(v.literal("code"), v.literal("photo")),
+      photoId: v.optional(v.id("_storage")),
+      recordedAt: v.number(),
+    })),
+    deliveryRunId: v.optional(v.id("deliveryRuns")), // Set when the order is delivered as one stop of a multi-drop run
     piPaymentId: v.optional(v.string()), // Link to Pi payment
     txid: v.optional(v.string()), // Pi blockchain transaction ID
     paymentRecordId: v.optional(v.id("piPayments")), // Link to the internal payment record
     scheduledPayoutId: v.optional(v.id("_scheduled_functions")), // ID of the scheduled payout job
+    // Settlement of a partially refunded order (both legs of the split)
+    refundAmount: v.optional(v.number()), // Amount returned to the customer
+    refundedItems: v.optional(v.array(v.object({
+      index: v.number(), // Position in `items`
+      quantity: v.number(),
+    }))),
+    commissionAmount: v.optional(v.number()), // App commission taken on the retained amount
+    storePayoutAmount: v.optional(v.number()), // Amount paid to the store after refund and commission
   })
     .index("by_user", ["userId"])
     .index("by_store_creation_time", ["storeId"]) // Renamed for clarity and removed _creationTime
     .index("by_status", ["status"])
     .index("by_user_and_discount", ["userId", "discountId"])
+    .index("by_driver", ["driverId"])
+    .index("by_store_and_scheduled_for", ["storeId", "scheduledFor"])
     .index("by_pi_payment_id", ["piPaymentId"]) // Add index for Pi payments
     .searchIndex("search_customer_name", {
       searchField: "customerName",
       filterFields: ["storeId"],
     }),
-  
+
+  // Status timeline for orders, one row per status change
+  orderEvents: defineTable({
+    orderId: v.id("orders"),
+    fromStatus: v.optional(orderStatus), // Absent for the event that created the order
+    toStatus: orderStatus,
+    actorId: v.optional(v.id("users")), // Absent for system-triggered changes
+    actorRole: v.union(
+      v.literal("customer"),
+      v.literal("store_owner"),
+      v.literal("driver"),
+      v.literal("system")
+    ),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_order", ["orderId", "createdAt"]),
+
   // Table for users following stores
   follows: defineTable({
     userId: v.id("users"),
@@ -296,7 +388,8 @@ const applicationTables = {
       v.literal("status_update"),
       v.literal("promotion"),
       v.literal("driver_application"),
-      v.literal("report")
+      v.literal("report"),
+      v.literal("low_stock")
     ),
   })
     .index("by_user", ["userId"])
@@ -339,6 +432,11 @@ const applicationTables = {
     walletAddress: v.optional(v.string()), // Pi Network wallet address
     country: v.optional(v.string()), // User's current country for delivery validation
     city: v.optional(v.string()), // User's current city for delivery validation
+    // Running averages of the ratings received on delivered orders
+    driverRating: v.optional(v.number()),
+    driverRatingCount: v.optional(v.number()),
+    customerRating: v.optional(v.number()),
+    customerRatingCount: v.optional(v.number()),
   }).index("by_user", ["userId"])
     .index("by_pi_uid", ["piUid"]),
 
@@ -358,15 +456,243 @@ const applicationTables = {
     .index("by_user", ["userId"])
     .index("by_status", ["status"]),
 
+  // Stock held for an approved Pi payment until its order is created; ignored once expired
+  stockReservations: defineTable({
+    paymentId: v.string(),
+    userId: v.id("users"),
+    productId: v.id("products"),
+    variantId: v.optional(v.id("productVariants")), // The variant's stock is held instead of the product's
+    quantity: v.number(),
+    options: v.optional(v.any()), // Chosen options; their choices' stock is held instead of the product's
+    expiresAt: v.number(),
+  })
+    .index("by_payment", ["paymentId"])
+    .index("by_product", ["productId", "expiresAt"]),
+
+  // Scheduled slots held for approved payments until their orders exist; counted as bookings while unexpired
+  slotReservations: defineTable({
+    paymentId: v.string(),
+    storeId: v.id("stores"),
+    scheduledFor: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_payment", ["paymentId"])
+    .index("by_store_and_slot", ["storeId", "scheduledFor"]),
+
+  // Ledger of every change to a product's stock; option products log one entry per choice or variant
+  stockMovements: defineTable({
+    storeId: v.id("stores"),
+    productId: v.id("products"),
+    variantId: v.optional(v.id("productVariants")),
+    optionTitle: v.optional(v.string()),
+    choiceName: v.optional(v.string()),
+    change: v.number(),
+    quantityAfter: v.number(),
+    type: v.union(
+      v.literal("restock"),
+      v.literal("sale"),
+      v.literal("refund_restock"),
+      v.literal("adjustment")
+    ),
+    reason: v.optional(v.string()),
+    actorId: v.optional(v.id("users")), // Customer for sales and refunds, owner for manual changes
+    orderId: v.optional(v.id("orders")),
+  })
+    .index("by_product", ["productId"])
+    .index("by_store", ["storeId"]),
+
+  // Bulk catalog imports, upserted in background batches
+  catalogImports: defineTable({
+    storeId: v.id("stores"),
+    userId: v.id("users"),
+    fileName: v.optional(v.string()),
+    status: v.union(v.literal("running"), v.literal("completed")),
+    total: v.number(),
+    processed: v.number(),
+    created: v.number(),
+    updated: v.number(),
+    failedRows: v.array(v.object({ rowNumber: v.number(), errors: v.array(v.string()) })), // Rows that no longer validated when their batch ran
+    finishedAt: v.optional(v.number()),
+  }).index("by_store", ["storeId"]),
+
+  // Rows of a running catalog import still waiting for their batch; deleted once upserted
+  catalogImportRows: defineTable({
+    importId: v.id("catalogImports"),
+    rowNumber: v.number(), // 1-based, counting data rows only
+    row: v.any(),
+  }).index("by_import", ["importId", "rowNumber"]),
+
+  // Server-priced checkouts: a payment or cash order must match an unexpired quote of its customer
+  checkoutQuotes: defineTable({
+    userId: v.id("users"),
+    storeId: v.id("stores"),
+    items: v.array(v.object({
+      productId: v.id("products"),
+      variantId: v.optional(v.id("productVariants")),
+      quantity: v.number(),
+      options: v.optional(v.any()),
+      unitPrice: v.number(), // Product price plus the price_increment of each chosen option
+    })),
+    fulfillmentType: v.union(v.literal("delivery"), v.literal("pickup")),
+    subtotal: v.number(),
+    discountId: v.optional(v.id("discounts")),
+    discountCode: v.optional(v.string()),
+    discountAmount: v.number(),
+    deliveryFee: v.number(),
+    deliveryFeeBreakdown: v.optional(v.array(v.object({ label: v.string(), amount: v.number() }))),
+    tip: v.number(),
+    total: v.number(),
+    deliveryAddressId: v.optional(v.id("userAddresses")), // The customer's saved address delivery was priced for
+    expiresAt: v.number(),
+    paymentId: v.optional(v.string()), // Pi payment approved against the quote; kept until its order exists
+    usedAt: v.optional(v.number()), // Set when an order is created from the quote
+  }).index("by_user", ["userId"]),
+
+  // Reports written by the scheduled reconciliation between piPayments and the Pi Platform API
+  paymentReconciliations: defineTable({
+    startedAt: v.number(),
+    finishedAt: v.number(),
+    checkedCount: v.number(),
+    completedCount: v.number(),
+    cancelledCount: v.number(),
+    flaggedCount: v.number(),
+    items: v.array(v.object({
+      paymentId: v.string(),
+      previousStatus: v.string(),
+      action: v.union(v.literal("completed"), v.literal("cancelled"), v.literal("flagged")),
+      detail: v.optional(v.string()),
+    })),
+    note: v.optional(v.string()), // e.g. why the run was skipped
+  }).index("by_startedAt", ["startedAt"]),
+
+  // Every delivery received by an inbound webhook, kept so failed events can be inspected and replayed
+  webhookEvents: defineTable({
+    source: v.literal("pi_payments"),
+    rawBody: v.string(),
+    signatureValid: v.boolean(),
+    paymentId: v.optional(v.string()),
+    status: v.union(
+      v.literal("received"),
+      v.literal("processed"),
+      v.literal("ignored"), // e.g. a duplicate delivery for an already completed payment
+      v.literal("rejected"), // invalid signature or malformed body
+      v.literal("failed")
+    ),
+    error: v.optional(v.string()),
+    attempts: v.number(),
+    receivedAt: v.number(),
+    processedAt: v.optional(v.number()),
+  })
+    .index("by_status", ["status", "receivedAt"])
+    .index("by_payment_id", ["paymentId"]),
+
   // Table to link stores with their drivers
   storeDrivers: defineTable({
     storeId: v.id("stores"),
     driverId: v.id("users"), // The user ID of the driver
     status: v.union(v.literal("active"), v.literal("inactive"), v.literal("pending")),
+    isOnDuty: v.optional(v.boolean()), // Whether the driver is working right now, toggled by the driver
+    onDutySince: v.optional(v.number()),
+    maxConcurrentDeliveries: v.optional(v.number()), // Set by the store owner; a default applies when missing
   }).index("by_store_and_driver", ["storeId", "driverId"])
     .index("by_driver", ["driverId"])
     .index("by_store", ["storeId"]),
 
+  // Shift slots a store publishes; drivers of the store sign up for them
+  driverShifts: defineTable({
+    storeId: v.id("stores"),
+    startsAt: v.number(),
+    endsAt: v.number(),
+    slots: v.number(), // How many drivers the store needs for the shift
+    driverIds: v.array(v.id("users")), // Drivers who took a slot
+    note: v.optional(v.string()),
+  }).index("by_store_and_start", ["storeId", "startsAt"]),
+
+  // Delivery areas a store draws on the map, each with its own pricing
+  deliveryZones: defineTable({
+    storeId: v.id("stores"),
+    name: v.string(),
+    shape: v.union(
+      v.object({
+        type: v.literal("polygon"),
+        points: v.array(v.object({ latitude: v.number(), longitude: v.number() })),
+      }),
+      v.object({
+        type: v.literal("radius"), // Ring centered on the store
+        innerRadiusKm: v.optional(v.number()),
+        radiusKm: v.number(),
+      })
+    ),
+    baseFee: v.number(),
+    perKmFee: v.number(),
+    minimumOrderValue: v.optional(v.number()),
+    maxDistanceKm: v.optional(v.number()),
+  }).index("by_store", ["storeId"]),
+
+  // Delivery fee rules of a store, or the platform default when storeId is absent
+  deliveryPricingRules: defineTable({
+    storeId: v.optional(v.id("stores")),
+    baseFee: v.number(),
+    // Per-km rate for each band of distance, nearest first; a tier without upToKm covers the rest
+    distanceTiers: v.array(v.object({
+      upToKm: v.optional(v.number()),
+      perKmFee: v.number(),
+    })),
+    smallOrderThreshold: v.optional(v.number()),
+    smallOrderSurcharge: v.optional(v.number()),
+    freeDeliveryThreshold: v.optional(v.number()),
+    // Time-of-day windows (store local hours) or manual flags such as "Rain"; the highest active multiplier applies
+    surges: v.array(v.object({
+      label: v.string(),
+      multiplier: v.number(),
+      startHour: v.optional(v.number()),
+      endHour: v.optional(v.number()),
+      isActive: v.optional(v.boolean()),
+    })),
+    utcOffsetMinutes: v.optional(v.number()), // Store local time offset used for surge windows
+    updatedAt: v.number(),
+  }).index("by_store", ["storeId"]),
+
+  // Live GPS pings of a driver during a delivery, dropped once the order is delivered
+  driverLocations: defineTable({
+    driverId: v.id("users"),
+    orderId: v.id("orders"),
+    latitude: v.number(),
+    longitude: v.number(),
+    heading: v.optional(v.number()), // Degrees from true north
+    speed: v.optional(v.number()), // Meters per second
+    recordedAt: v.number(),
+  }).index("by_order", ["orderId", "recordedAt"]),
+
+  // Several orders of one store delivered by one driver in a single trip
+  deliveryRuns: defineTable({
+    storeId: v.id("stores"),
+    driverId: v.id("users"),
+    orderIds: v.array(v.id("orders")), // Stops in delivery order, optimized from the address coordinates
+    status: v.union(v.literal("active"), v.literal("completed")),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_driver_and_status", ["driverId", "status"])
+    .index("by_store_and_status", ["storeId", "status"]),
+
+  // Auto-dispatch offers of an order to drivers, one row per driver asked
+  dispatchOffers: defineTable({
+    orderId: v.id("orders"),
+    storeId: v.id("stores"),
+    driverId: v.id("users"),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("declined"),
+      v.literal("expired"),
+      v.literal("cancelled")
+    ),
+    expiresAt: v.number(),
+    respondedAt: v.optional(v.number()),
+  })
+    .index("by_order", ["orderId"])
+    .index("by_driver_and_status", ["driverId", "status"]),
+
   appSettings: defineTable({
     key: v.string(),
     value: v.any(),
@@ -377,6 +703,10 @@ const presenceTable = {
   presence: defineTable({
     userId: v.id("users"),
     lastSeen: v.number(),
+    // Last known location, reported by drivers while the delivery dashboard is open
+    latitude: v.optional(v.number()),
+    longitude: v.optional(v.number()),
+    locationUpdatedAt: v.optional(v.number()),
   }).index("by_user", ["userId"]),
 };
 
@@ -438,15 +768,120 @@ const payoutTables = {
     storeId: v.id("stores"),
     orderId: v.id("orders"),
     amount: v.number(),
+    // Which leg this transfer is. Older rows without a kind are store payouts.
+    kind: v.optional(v.union(v.literal("store_payout"), v.literal("customer_refund"))),
+    commissionAmount: v.optional(v.number()), // App commission withheld from a store payout
+    commissionRate: v.optional(v.number()), // The rate that produced commissionAmount, e.g. 0.05
     txid: v.optional(v.string()),
-    status: v.string(),
+    status: v.string(), // "processing", "completed", "failed", or "pending_batch" while waiting for a statement
     failureReason: v.optional(v.string()),
+    statementId: v.optional(v.id("payoutStatements")), // Set when paid as part of a batched statement
   }).index("by_store", ["storeId"])
-    .index("by_order", ["orderId"]), // Add index to prevent duplicate payouts
+    .index("by_order", ["orderId"]) // Add index to prevent duplicate payouts
+    .index("by_store_and_status", ["storeId", "status"]),
+
+  // One batched A2U transfer covering many released orders of a store
+  payoutStatements: defineTable({
+    storeId: v.id("stores"),
+    status: v.union(v.literal("processing"), v.literal("completed"), v.literal("failed")),
+    amount: v.number(), // Net amount sent to the store
+    commissionAmount: v.number(),
+    refundAmount: v.number(), // Refunded to customers on the covered orders
+    lines: v.array(v.object({
+      orderId: v.id("orders"),
+      payoutId: v.id("payouts"),
+      amount: v.number(),
+      commissionAmount: v.optional(v.number()),
+      refundAmount: v.optional(v.number()),
+    })),
+    periodStart: v.number(),
+    periodEnd: v.number(),
+    txid: v.optional(v.string()),
+    failureReason: v.optional(v.string()),
+    attemptedAt: v.optional(v.number()), // When a failed or interrupted transfer was last retried
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_store", ["storeId"])
+    .index("by_status", ["status"]),
+
+  // What a driver earned on one order: the customer's tip plus the store's per-delivery fee
+  driverEarnings: defineTable({
+    driverId: v.id("users"),
+    orderId: v.id("orders"),
+    storeId: v.id("stores"),
+    tipAmount: v.number(),
+    deliveryFee: v.number(),
+    amount: v.number(), // tipAmount + deliveryFee
+    // "available" until paid out; cash orders are settled at the door and never paid out
+    status: v.union(v.literal("available"), v.literal("paid_out"), v.literal("settled_in_cash")),
+    driverPayoutId: v.optional(v.id("driverPayouts")), // Set once the earning is claimed by a payout
+  })
+    .index("by_order", ["orderId"])
+    .index("by_driver_and_status", ["driverId", "status"]),
+
+  // One A2U transfer of a driver's available earnings to their wallet
+  driverPayouts: defineTable({
+    driverId: v.id("users"),
+    amount: v.number(),
+    status: v.union(v.literal("processing"), v.literal("completed"), v.literal("failed")),
+    txid: v.optional(v.string()),
+    failureReason: v.optional(v.string()),
+    completedAt: v.optional(v.number()),
+  }).index("by_driver", ["driverId"]),
+
+  // Commission rates. The most specific active schedule wins: store, then store type, then platform.
+  // Within a scope, a promotional (time-bounded) rate beats the standing rate.
+  feeSchedules: defineTable({
+    scope: v.union(v.literal("platform"), v.literal("store_type"), v.literal("store")),
+    storeType: v.optional(storeType), // For scope "store_type"
+    storeId: v.optional(v.id("stores")), // For scope "store"
+    commissionRate: v.number(), // Fraction of the retained amount, e.g. 0.05 for 5%
+    startsAt: v.optional(v.number()), // Promotional rates are bounded by startsAt/endsAt
+    endsAt: v.optional(v.number()),
+    label: v.optional(v.string()), // e.g. "Ramadan promo" or "Negotiated rate"
+    createdBy: v.id("users"),
+  })
+    .index("by_scope", ["scope"])
+    .index("by_store_type", ["storeType"])
+    .index("by_store", ["storeId"]),
 };
 
 
 
+const ledgerTables = {
+  // Double-entry ledger for every Pi movement. Each transaction is a group of rows
+  // sharing a transactionKey whose debits and credits sum to the same amount.
+  ledgerEntries: defineTable({
+    transactionKey: v.string(), // e.g. "capture:<orderId>", also makes posting idempotent
+    type: v.union(
+      v.literal("payment_capture"),
+      v.literal("escrow_release"),
+      v.literal("commission"),
+      v.literal("payout"),
+      v.literal("refund"),
+      v.literal("cash_commission"), // Commission owed by a store on a cash order
+      v.literal("driver_earnings") // Tip and delivery fee moved from escrow to the driver
+    ),
+    orderId: v.optional(v.id("orders")),
+    account: v.union(
+      v.literal("customer"),
+      v.literal("escrow"),
+      v.literal("store"),
+      v.literal("platform_commission"),
+      v.literal("driver"),
+      v.literal("external_wallet"), // Pi sent out of the app wallet (A2U transfers)
+      v.literal("commission_receivable") // Commission stores owe the platform on cash orders
+    ),
+    accountOwnerId: v.optional(v.string()), // The user or store the account belongs to
+    debit: v.number(),
+    credit: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_transaction", ["transactionKey"])
+    .index("by_order", ["orderId"])
+    .index("by_account", ["account", "accountOwnerId"]),
+};
+
 const pushNotificationTables = {
   pushTokens: defineTable({
     userId: v.id("users"),
@@ -458,6 +893,7 @@ export default defineSchema({
   ...authTables,
   ...applicationTablesWithDiscounts,
   ...payoutTables,
+  ...ledgerTables,
   ...presenceTable,
   ...pushNotificationTables,
 });
\ No newline at end of file
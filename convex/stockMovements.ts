@@ -0,0 +1,285 @@
+import { query, mutation, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { validateToken } from "./util";
+import { getVariantLabel } from "./productVariants";
+
+export type StockMovementType = Doc<"stockMovements">["type"];
+
+export type StockMovementInfo = {
+  // Defaults to a restock for increases and an adjustment for decreases.
+  type?: StockMovementType;
+  reason?: string;
+  actorId?: Id<"users">;
+  orderId?: Id<"orders">;
+};
+
+type ProductStock = Pick<Doc<"products">, "quantity" | "options" | "hasVariants">;
+
+/**
+ * A product's stock on hand. Products with variants keep the sum of their variants' stock in `quantity`;
+ * other products with options are stocked per choice, so their stock is the sum of their choices.
+ */
+export function getProductStock(product: ProductStock) {
+  if (product.hasVariants) return product.quantity ?? 0;
+  if (product.options && product.options.length > 0) {
+    return product.options.flatMap((o) => o.choices).reduce((sum, choice) => sum + (choice.quantity ?? 0), 0);
+  }
+  return product.quantity ?? 0;
+}
+
+/**
+ * Logs the stock change a patch makes to a product, one movement per changed choice (or one for the product
+ * if it has no options), and notifies the owner when the product's stock falls to its reorder threshold.
+ * Call it with the product as it was before the patch. Restaurants do not track stock, so nothing is logged for them,
+ * and products with variants log their changes per variant with `recordVariantStockChange` instead.
+ */
+export async function recordStockChange(
+  ctx: MutationCtx,
+  store: Doc<"stores">,
+  product: Doc<"products">,
+  patch: Partial<ProductStock>,
+  movement: StockMovementInfo
+) {
+  if (store.storeType === 'restaurant' || product.hasVariants) return;
+  const updated = { ...product, ...patch };
+
+  const changes: Array<{ optionTitle?: string; choiceName?: string; change: number; quantityAfter: number }> = [];
+  for (const option of updated.options ?? []) {
+    const previous = product.options?.find((o) => o.title === option.title);
+    for (const choice of option.choices) {
+      const before = previous?.choices.find((c) => c.name === choice.name)?.quantity ?? 0;
+      const after = choice.quantity ?? 0;
+      if (after !== before) {
+        changes.push({ optionTitle: option.title, choiceName: choice.name, change: after - before, quantityAfter: after });
+      }
+    }
+  }
+  if (changes.length === 0) {
+    const before = product.quantity ?? 0;
+    const after = updated.quantity ?? 0;
+    if (after !== before) changes.push({ change: after - before, quantityAfter: after });
+  }
+
+  for (const change of changes) {
+    await ctx.db.insert("stockMovements", {
+      storeId: store._id,
+      productId: product._id,
+      ...change,
+      type: movement.type ?? (change.change > 0 ? "restock" : "adjustment"),
+      reason: movement.reason,
+      actorId: movement.actorId,
+      orderId: movement.orderId,
+    });
+  }
+
+  await notifyIfLowStock(ctx, store, product, getProductStock(product), getProductStock(updated));
+}
+
+/**
+ * Logs a change to a variant's stock. The caller patches the variant and the product's total,
+ * and checks the total against the reorder threshold with `notifyIfLowStock`.
+ */
+export async function recordVariantStockChange(
+  ctx: MutationCtx,
+  store: Doc<"stores">,
+  variant: Doc<"productVariants">,
+  quantityAfter: number,
+  movement: StockMovementInfo
+) {
+  const change = quantityAfter - variant.quantity;
+  if (change === 0 || store.storeType === 'restaurant') return;
+  await ctx.db.insert("stockMovements", {
+    storeId: store._id,
+    productId: variant.productId,
+    variantId: variant._id,
+    change,
+    quantityAfter,
+    type: movement.type ?? (change > 0 ? "restock" : "adjustment"),
+    reason: movement.reason,
+    actorId: movement.actorId,
+    orderId: movement.orderId,
+  });
+}
+
+/**
+ * Notifies the owner when a product's stock falls from above its reorder threshold to at or below it.
+ */
+export async function notifyIfLowStock(
+  ctx: MutationCtx,
+  store: Doc<"stores">,
+  product: Doc<"products">,
+  stockBefore: number,
+  stockAfter: number
+) {
+  const threshold = product.reorderThreshold;
+  if (threshold === undefined || stockBefore <= threshold || stockAfter > threshold) return;
+
+  const owner = await ctx.db
+    .query("users")
+    .withIndex("by_tokenIdentifier", (q) => q.eq("tokenIdentifier", store.ownerId))
+    .unique();
+  if (owner) {
+    await ctx.db.insert("notifications", {
+      userId: owner._id,
+      storeId: store._id,
+      message: `${product.name} is low on stock: ${Math.max(0, stockAfter)} left (reorder at ${threshold}).`,
+      isRead: false,
+      type: "low_stock",
+    });
+  }
+}
+
+/**
+ * A product's stock movements, newest first. Store owner only.
+ */
+export const getStockMovements = query({
+  args: {
+    tokenIdentifier: v.string(),
+    productId: v.id("products"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const product = await ctx.db.get(args.productId);
+    if (!product) throw new ConvexError("Product not found.");
+    const store = await ctx.db.get(product.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view this inventory.");
+    }
+
+    const result = await ctx.db
+      .query("stockMovements")
+      .withIndex("by_product", (q) => q.eq("productId", args.productId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: await Promise.all(result.page.map(async (movement) => {
+        const actor = movement.actorId ? await ctx.db.get(movement.actorId) : null;
+        const variant = movement.variantId ? await ctx.db.get(movement.variantId) : null;
+        return {
+          ...movement,
+          variantLabel: movement.variantId ? (variant ? getVariantLabel(variant) : "Removed variant") : null,
+          actorName: actor ? (actor.tokenIdentifier === store.ownerId ? "You" : actor.name ?? "Customer") : null,
+        };
+      })),
+    };
+  },
+});
+
+/**
+ * The stock each of the store's products had at `date`, worked back from today's stock by undoing every later movement.
+ * Paginated by product, reading only the movements of the page's products, so large and busy stores stay within
+ * a query's read limits. Products created after `date` are left out. Store owner only.
+ */
+export const getStockOnDate = query({
+  args: {
+    tokenIdentifier: v.string(),
+    storeId: v.id("stores"),
+    date: v.number(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const store = await ctx.db.get(args.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to view this inventory.");
+    }
+
+    const result = await ctx.db
+      .query("products")
+      .withIndex("by_store", (q) => q.eq("storeId", args.storeId).lte("_creationTime", args.date))
+      .paginate(args.paginationOpts);
+
+    const page = await Promise.all(result.page.map(async (product) => {
+      const laterMovements = await ctx.db
+        .query("stockMovements")
+        .withIndex("by_product", (q) => q.eq("productId", product._id).gt("_creationTime", args.date))
+        .collect();
+
+      // Sum of the changes made after the date, for the product, per choice and per variant.
+      const laterChanges = new Map<string, number>();
+      const addChange = (key: string, change: number) => laterChanges.set(key, (laterChanges.get(key) ?? 0) + change);
+      for (const movement of laterMovements) {
+        if (movement.variantId !== undefined) {
+          addChange(movement.variantId, movement.change);
+          // Variant products' totals include variants removed since.
+          addChange("variants", movement.change);
+        } else if (movement.choiceName !== undefined) {
+          addChange(`${movement.optionTitle}/${movement.choiceName}`, movement.change);
+        } else {
+          addChange("product", movement.change);
+        }
+      }
+
+      if (product.hasVariants) {
+        const variants = await ctx.db
+          .query("productVariants")
+          .withIndex("by_product", (q) => q.eq("productId", product._id))
+          .collect();
+        return {
+          productId: product._id,
+          name: product.name,
+          category: product.category,
+          quantity: (product.quantity ?? 0) - (laterChanges.get("variants") ?? 0),
+          currentQuantity: getProductStock(product),
+          breakdown: variants.map((variant) => ({
+            label: getVariantLabel(variant),
+            quantity: variant.quantity - (laterChanges.get(variant._id) ?? 0),
+          })),
+        };
+      }
+
+      const options = product.options?.map((option) => ({
+        ...option,
+        choices: option.choices.map((choice) => ({
+          ...choice,
+          quantity: (choice.quantity ?? 0) - (laterChanges.get(`${option.title}/${choice.name}`) ?? 0),
+        })),
+      }));
+      const quantity = (product.quantity ?? 0) - (laterChanges.get("product") ?? 0);
+      return {
+        productId: product._id,
+        name: product.name,
+        category: product.category,
+        quantity: getProductStock({ quantity, options }),
+        currentQuantity: getProductStock(product),
+        breakdown: (options ?? []).flatMap((option) =>
+          option.choices.map((choice) => ({ label: choice.name, quantity: choice.quantity }))
+        ),
+      };
+    }));
+
+    return { ...result, page };
+  },
+});
+
+export const setReorderThreshold = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    productId: v.id("products"),
+    threshold: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const product = await ctx.db.get(args.productId);
+    if (!product) throw new ConvexError("Product not found.");
+
+    const store = await ctx.db.get(product.storeId);
+    if (!store || store.ownerId !== user.tokenIdentifier) {
+      throw new ConvexError("You are not authorized to update this inventory.");
+    }
+    if (store.storeType === 'restaurant') {
+      throw new ConvexError("Quantity management is not available for restaurants.");
+    }
+    if (args.threshold !== undefined && (!Number.isInteger(args.threshold) || args.threshold < 0)) {
+      throw new ConvexError("Reorder threshold must be a whole number of at least 0.");
+    }
+
+    await ctx.db.patch(args.productId, { reorderThreshold: args.threshold });
+    return { success: true };
+  },
+});
@@ -2,8 +2,10 @@ import { mutation, query, internalMutation, internalQuery, QueryCtx } from "./_g
 import { v, ConvexError } from "convex/values";
 import { paginationOptsValidator } from "convex/server";
 import { internal } from "./_generated/api";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { validateToken } from "./util";
+import { isBatchedPayoutSchedule } from "./payoutStatements";
+import { getStoreDeliveryZones, findDeliveryZone } from "./deliveryZones";
 
 export const generateUploadUrl = mutation({
   args: {},
@@ -308,6 +310,16 @@ export const updateStore = mutation({
     piWalletAddress: v.optional(v.string()),
     deliveryRegions: v.optional(v.array(v.string())),
     isDeliveryRegionsAllowList: v.optional(v.boolean()),
+    acceptsCash: v.optional(v.boolean()),
+    payoutSchedule: v.optional(v.union(v.literal("per_order"), v.literal("daily"), v.literal("weekly"))),
+    payoutMinimum: v.optional(v.number()),
+    autoDispatch: v.optional(v.boolean()),
+    requiresDeliveryProof: v.optional(v.boolean()),
+    driverFeePerDelivery: v.optional(v.number()),
+    minDriverRating: v.optional(v.number()),
+    offersPickup: v.optional(v.boolean()),
+    scheduledSlotCapacity: v.optional(v.number()),
+    utcOffsetMinutes: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const user = await validateToken(ctx, args.tokenIdentifier);
@@ -316,9 +328,23 @@ export const updateStore = mutation({
     if (!store || store.ownerId !== user.tokenIdentifier) {
       throw new ConvexError("Not authorized to update this store");
     }
+    if (args.driverFeePerDelivery !== undefined && args.driverFeePerDelivery < 0) {
+      throw new ConvexError("The driver fee cannot be negative.");
+    }
+    if (args.minDriverRating !== undefined && (args.minDriverRating < 1 || args.minDriverRating > 5)) {
+      throw new ConvexError("The minimum driver rating must be between 1 and 5.");
+    }
+    if (args.scheduledSlotCapacity !== undefined && (!Number.isInteger(args.scheduledSlotCapacity) || args.scheduledSlotCapacity < 1)) {
+      throw new ConvexError("Scheduled slots need room for at least one order.");
+    }
 
     const { storeId, tokenIdentifier, ...updates } = args;
     await ctx.db.patch(storeId, updates);
+
+    // Leaving batched payouts: pay out whatever was waiting for the next statement now.
+    if (isBatchedPayoutSchedule(store.payoutSchedule) && updates.payoutSchedule === "per_order") {
+      await ctx.scheduler.runAfter(0, internal.paymentsActions.processPayoutStatements, { storeId });
+    }
   },
 });
 
@@ -469,6 +495,8 @@ export const searchStores = query({
     country: v.string(),
     region: v.string(),
     piWalletAddress: v.optional(v.string()),
+    userLatitude: v.optional(v.number()),
+    userLongitude: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     if (!args.searchTerm) return [];
@@ -479,13 +507,18 @@ export const searchStores = query({
       .take(20);
 
     // Filter by delivery/location logic
-    const filteredStores = stores.filter(store => {
+    const filteredStores = (await Promise.all(stores.map(async store => {
       const userRegion = args.region;
       const isPhysicallyInRegion = store.region === userRegion;
+      const zones = store.hasDelivery ? await getStoreDeliveryZones(ctx, store._id) : [];
       
       let deliversToUser = false;
       if (store.hasDelivery) {
-        if (store.deliveryRegions && store.deliveryRegions.length > 0) {
+        if (zones.length > 0) {
+          // Stores with delivery zones are matched on the user's coordinates, not the city name.
+          deliversToUser = args.userLatitude !== undefined && args.userLongitude !== undefined
+            && (await findDeliveryZone(ctx, store, { latitude: args.userLatitude, longitude: args.userLongitude })) !== null;
+        } else if (store.deliveryRegions && store.deliveryRegions.length > 0) {
           const isAllowList = store.isDeliveryRegionsAllowList ?? true;
           const isInList = store.deliveryRegions.includes(userRegion);
           deliversToUser = isAllowList ? isInList : !isInList;
@@ -494,8 +527,8 @@ export const searchStores = query({
         }
       }
       
-      return deliversToUser || isPhysicallyInRegion;
-    });
+      return deliversToUser || isPhysicallyInRegion ? store : null;
+    }))).filter((store): store is Doc<"stores"> => store !== null);
 
     return Promise.all(filteredStores.map(async (store) => ({
       ...store,
@@ -529,56 +562,4 @@ export const migratePriceRangeToArray = internalMutation({
     console.log("Migration check complete: No stores needed updating.");
     return { success: true, updatedCount: 0 };
   },
-});
-
-// Helper function to calculate distance in km using Haversine formula
-function getDistanceFromLatLonInKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d;
-}
-
-function deg2rad(deg: number) {
-  return deg * (Math.PI / 180);
-}
-
-export const calculateDeliveryFee = query({
-  args: {
-    storeId: v.id("stores"),
-    userLatitude: v.number(),
-    userLongitude: v.number(),
-  },
-  handler: async (ctx, args) => {
-    const store = await ctx.db.get(args.storeId);
-    if (!store || store.latitude == null || store.longitude == null) return null;
-
-    const distance = getDistanceFromLatLonInKm(store.latitude, store.longitude, args.userLatitude, args.userLongitude);
-    
-    // Distance * PricePerKm (No Base Fee)
-    
-    // Fetch global price per km from app settings
-    const setting = await ctx.db.query("appSettings").withIndex("by_key", q => q.eq("key", "deliveryPricePerKm")).unique();
-    const perKmFee = setting?.value ?? 0.5; // Default to 0.5 Pi if not set
-    
-    return distance * perKmFee;
-  },
-});
-
-export const setDeliveryPricePerKm = mutation({
-  args: { price: v.number() },
-  handler: async (ctx, args) => {
-    const existing = await ctx.db.query("appSettings").withIndex("by_key", q => q.eq("key", "deliveryPricePerKm")).unique();
-    if (existing) {
-      await ctx.db.patch(existing._id, { value: args.price });
-    } else {
-      await ctx.db.insert("appSettings", { key: "deliveryPricePerKm", value: args.price });
-    }
-  },
 });
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { validateToken, getDistanceFromLatLonInKm } from "./util";
+
+// Pings closer together than this are dropped to save DB writes.
+const PING_INTERVAL_MS = 10 * 1000;
+// Used for the ETA when the driver's device does not report a usable speed.
+const DEFAULT_DRIVER_SPEED_KMH = 25;
+// Below this speed (e.g. stopped at a light) the reported speed says nothing about the ETA.
+const MIN_REPORTED_SPEED_KMH = 5;
+// Time a driver spends handing over each order of a multi-drop run before driving on.
+const STOP_HANDOVER_MINUTES = 3;
+
+type Point = { latitude: number; longitude: number };
+
+/**
+ * The coordinates of an order's delivery address, when the customer picked a saved address with a location.
+ */
+export async function getOrderDestination(ctx: QueryCtx, order: Doc<"orders">): Promise<Point | null> {
+  const address = order.deliveryAddressId ? await ctx.db.get(order.deliveryAddressId) : null;
+  return address?.latitude !== undefined && address?.longitude !== undefined
+    ? { latitude: address.latitude, longitude: address.longitude }
+    : null;
+}
+
+function getDriverSpeedKmh(speedMetersPerSecond?: number) {
+  const reportedSpeedKmh = speedMetersPerSecond !== undefined ? speedMetersPerSecond * 3.6 : 0;
+  return reportedSpeedKmh >= MIN_REPORTED_SPEED_KMH ? reportedSpeedKmh : DEFAULT_DRIVER_SPEED_KMH;
+}
+
+/**
+ * Distance and ETA of every remaining stop of a delivery run, driving the stops in run order from `from`.
+ * Each earlier stop adds its handover time. Stops without a location get no estimate.
+ */
+export async function estimateRunStopEtas(ctx: QueryCtx, run: Doc<"deliveryRuns">, from: Point, speedMetersPerSecond?: number) {
+  const speedKmh = getDriverSpeedKmh(speedMetersPerSecond);
+  const etas = new Map<Id<"orders">, { distanceKm: number; etaMinutes: number; stopsAhead: number }>();
+
+  let position = from;
+  let distanceKm = 0;
+  let stopsAhead = 0;
+  for (const orderId of run.orderIds) {
+    const order = await ctx.db.get(orderId);
+    if (!order || order.status !== "out_for_delivery") continue;
+    const destination = await getOrderDestination(ctx, order);
+    if (destination) {
+      distanceKm += getDistanceFromLatLonInKm(position.latitude, position.longitude, destination.latitude, destination.longitude);
+      position = destination;
+      etas.set(orderId, {
+        distanceKm,
+        etaMinutes: Math.max(1, Math.ceil((distanceKm / speedKmh) * 60 + stopsAhead * STOP_HANDOVER_MINUTES)),
+        stopsAhead,
+      });
+    }
+    stopsAhead++;
+  }
+  return etas;
+}
+
+/**
+ * Records the authenticated driver's position against each order they are delivering.
+ * Called by the driver's client while it has an active order; pings are throttled per order.
+ */
+export const recordDriverLocation = mutation({
+  args: {
+    tokenIdentifier: v.string(),
+    latitude: v.number(),
+    longitude: v.number(),
+    heading: v.optional(v.number()),
+    speed: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+
+    const activeOrders = await ctx.db
+      .query("orders")
+      .withIndex("by_status", (q) => q.eq("status", "out_for_delivery"))
+      .filter((q) => q.eq(q.field("driverId"), user._id))
+      .collect();
+
+    const now = Date.now();
+    let recorded = 0;
+    for (const order of activeOrders) {
+      const lastPing = await ctx.db
+        .query("driverLocations")
+        .withIndex("by_order", (q) => q.eq("orderId", order._id))
+        .order("desc")
+        .first();
+      if (lastPing && now - lastPing.recordedAt < PING_INTERVAL_MS) continue;
+
+      await ctx.db.insert("driverLocations", {
+        driverId: user._id,
+        orderId: order._id,
+        latitude: args.latitude,
+        longitude: args.longitude,
+        heading: args.heading,
+        speed: args.speed,
+        recordedAt: now,
+      });
+      recorded++;
+    }
+    return { recorded };
+  },
+});
+
+/**
+ * Deletes every location ping of an order. Called once the order is delivered.
+ */
+export async function clearDriverLocations(ctx: MutationCtx, orderId: Id<"orders">) {
+  const pings = await ctx.db
+    .query("driverLocations")
+    .withIndex("by_order", (q) => q.eq("orderId", orderId))
+    .collect();
+  for (const ping of pings) {
+    await ctx.db.delete(ping._id);
+  }
+}
+
+/**
+ * Live tracking of an order for its customer: the driver's last position,
+ * the distance left to the delivery address and an ETA based on it.
+ */
+export const getOrderTracking = query({
+  args: {
+    tokenIdentifier: v.string(),
+    orderId: v.id("orders"),
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    const order = await ctx.db.get(args.orderId);
+    if (!order || order.userId !== user._id) {
+      throw new ConvexError("You are not authorized to track this order.");
+    }
+
+    const destination = await getOrderDestination(ctx, order);
+
+    if (order.status !== "out_for_delivery") {
+      return { status: order.status, destination, driverLocation: null, distanceKm: null, etaMinutes: null, stopsAhead: 0 };
+    }
+
+    const lastPing = await ctx.db
+      .query("driverLocations")
+      .withIndex("by_order", (q) => q.eq("orderId", order._id))
+      .order("desc")
+      .first();
+    if (!lastPing) {
+      return { status: order.status, destination, driverLocation: null, distanceKm: null, etaMinutes: null, stopsAhead: 0 };
+    }
+
+    const driverLocation = {
+      latitude: lastPing.latitude,
+      longitude: lastPing.longitude,
+      heading: lastPing.heading,
+      recordedAt: lastPing.recordedAt,
+    };
+    if (!destination) {
+      return { status: order.status, destination, driverLocation, distanceKm: null, etaMinutes: null, stopsAhead: 0 };
+    }
+
+    // On a multi-drop run the driver reaches this order after the stops before it.
+    const run = order.deliveryRunId ? await ctx.db.get(order.deliveryRunId) : null;
+    if (run) {
+      const etas = await estimateRunStopEtas(ctx, run, lastPing, lastPing.speed);
+      const eta = etas.get(order._id);
+      if (eta) {
+        return { status: order.status, destination, driverLocation, ...eta };
+      }
+    }
+
+    const distanceKm = getDistanceFromLatLonInKm(lastPing.latitude, lastPing.longitude, destination.latitude, destination.longitude);
+    const etaMinutes = Math.max(1, Math.ceil((distanceKm / getDriverSpeedKmh(lastPing.speed)) * 60));
+
+    return { status: order.status, destination, driverLocation, distanceKm, etaMinutes, stopsAhead: 0 };
+  },
+});
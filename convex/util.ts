@@ -12,4 +12,60 @@ export async function validateToken(ctx: QueryCtx | MutationCtx, tokenIdentifier
     .unique();
   if (!user) throw new ConvexError("Invalid or expired token. Please sign in again.");
   return user;
+}
+
+/**
+ * الرابط الأساسي لكل خدمات Platform API (approve, complete, create payment, /v2/me, ...)
+ * Can be overridden with PI_API_BASE_URL, e.g. to point at a local mock Pi server in tests.
+ */
+export function getPiPlatformApiBase(): string {
+  // FIX: Always use api.minepi.com for Platform API calls (/v2/payments, /v2/me).
+  // api.testnet.minepi.com is the Horizon (Blockchain) API, which doesn't support these endpoints.
+  // The environment (Sandbox/Production) is determined by the API Key, not the URL.
+  return (process.env.PI_API_BASE_URL || "https://api.minepi.com").replace(/\/$/, "");
+}
+
+/**
+ * Explains why a store does not deliver to the customer's country and city, or returns null if it does.
+ */
+export function getStoreDeliveryRestriction(store: Doc<"stores">, country?: string, city?: string): string | null {
+  if (!country || !city) {
+    return "Please update your account with your Country and City to proceed with the order.";
+  }
+
+  if (store.country !== country) {
+    return `This store only delivers within ${store.country}.`;
+  }
+
+  if (store.deliveryRegions && store.deliveryRegions.length > 0) {
+    const isAllowList = store.isDeliveryRegionsAllowList ?? true;
+    const inList = store.deliveryRegions.includes(city);
+    if (isAllowList ? !inList : inList) {
+      return `This store does not deliver to ${city}.`;
+    }
+  }
+  return null;
+}
+
+// Helper function to calculate distance in km using Haversine formula
+export function getDistanceFromLatLonInKm(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const R = 6371; // Radius of the earth in km
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  const d = R * c; // Distance in km
+  return d;
+}
+
+function deg2rad(deg: number) {
+  return deg * (Math.PI / 180);
+}
+
+// One-time handover code for proof of delivery, short enough to read out at the door.
+export function generateHandoverCode() {
+  return Math.floor(1000 + Math.random() * 9000).toString();
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { query, internalQuery, internalMutation, internalAction, ActionCtx } from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { api, internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { validateToken, getPiPlatformApiBase } from "./util";
+
+type WebhookOutcome = {
+  status: "processed" | "ignored" | "rejected" | "failed";
+  error?: string;
+};
+
+/**
+ * Internal mutation to store a webhook delivery as soon as it arrives, before any processing.
+ */
+export const logWebhookEvent = internalMutation({
+  args: {
+    rawBody: v.string(),
+    signatureValid: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("webhookEvents", {
+      source: "pi_payments",
+      rawBody: args.rawBody,
+      signatureValid: args.signatureValid,
+      status: args.signatureValid ? "received" : "rejected",
+      error: args.signatureValid ? undefined : "Invalid signature",
+      attempts: 0,
+      receivedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Internal mutation to record the outcome of one processing attempt.
+ */
+export const recordWebhookOutcome = internalMutation({
+  args: {
+    eventId: v.id("webhookEvents"),
+    status: v.union(v.literal("processed"), v.literal("ignored"), v.literal("rejected"), v.literal("failed")),
+    paymentId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.eventId);
+    if (!event) return;
+    await ctx.db.patch(args.eventId, {
+      status: args.status,
+      paymentId: args.paymentId ?? event.paymentId,
+      error: args.error,
+      attempts: event.attempts + 1,
+      processedAt: Date.now(),
+    });
+  },
+});
+
+export const getWebhookEvent = internalQuery({
+  args: { eventId: v.id("webhookEvents") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.eventId);
+  },
+});
+
+/**
+ * Lists webhook deliveries that failed processing, newest first. Admin only.
+ */
+export const getFailedWebhookEvents = query({
+  args: {
+    tokenIdentifier: v.string(),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await validateToken(ctx, args.tokenIdentifier);
+    if (user.role !== "admin") {
+      throw new ConvexError("Unauthorized: Admin access required.");
+    }
+    return await ctx.db
+      .query("webhookEvents")
+      .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * The processing path for a verified `/pi/payments` delivery.
+ * Safe to run more than once for the same payment: a payment that is already completed with an order is ignored,
+ * and `processCompletedPayment` never creates a second order.
+ */
+async function processPiPaymentWebhook(ctx: ActionCtx, rawBody: string): Promise<WebhookOutcome & { paymentId?: string }> {
+  let body: any;
+  try {
+    body = JSON.parse(rawBody);
+  } catch {
+    return { status: "rejected", error: "Malformed JSON body" };
+  }
+
+  const paymentId: string | undefined = body.paymentId;
+  const txid: string | undefined = body.txid;
+  if (!paymentId) {
+    console.error("Pi Webhook Error: paymentId is missing in the webhook body.");
+    return { status: "rejected", error: "paymentId is missing" };
+  }
+
+  // Idempotency Check: Prevent processing the same webhook multiple times.
+  // A completed payment without an order still goes through, so a replay can recover a failed order creation.
+  const existingPayment = await ctx.runQuery(api.paymentsQueries.getPaymentById, { paymentId });
+  if (existingPayment?.status === 'completed' && existingPayment.orderId) {
+    console.log(`Webhook: Payment ${paymentId} already completed. Ignoring duplicate.`);
+    return { status: "ignored", paymentId };
+  }
+
+  try {
+    // Use the unified updatePaymentStatus mutation to handle webhook events
+    await ctx.runMutation(internal.paymentsQueries.updatePaymentStatus, {
+      status: "completed", // Webhook only fires on completion
+      paymentId,
+      txid,
+    });
+
+    // Fetch payment details from Pi API to pass to the processing function.
+    // This ensures the order is created even if the client-side callback fails.
+    const baseUrl = getPiPlatformApiBase();
+    const piApiKey = process.env.PI_API_KEY;
+    if (piApiKey) {
+      const paymentResponse = await fetch(`${baseUrl}/v2/payments/${paymentId}`, { headers: { Authorization: `Key ${piApiKey}` } });
+      if (!paymentResponse.ok) {
+        throw new Error(`Failed to fetch payment details: ${paymentResponse.status}`);
+      }
+      const payment = await paymentResponse.json();
+      await ctx.runMutation(internal.paymentsQueries.processCompletedPayment, { paymentId, payment: { ...payment, txid } });
+      console.log(`Webhook: Processed completion for payment ${paymentId}. Order created if needed.`);
+    }
+    return { status: "processed", paymentId };
+  } catch (error: any) {
+    console.error(`Pi Webhook Error: Failed to process webhook for paymentId: ${paymentId}. Error:`, error);
+    return { status: "failed", paymentId, error: error.message };
+  }
+}
+
+/**
+ * Runs a stored event through the processing path and records the outcome on the event.
+ * An error anywhere in processing is recorded as a failure, so the event is listed for replay.
+ */
+async function runWebhookEvent(ctx: ActionCtx, eventId: Id<"webhookEvents">, rawBody: string): Promise<WebhookOutcome> {
+  let outcome: WebhookOutcome & { paymentId?: string };
+  try {
+    outcome = await processPiPaymentWebhook(ctx, rawBody);
+  } catch (error: any) {
+    console.error(`Pi Webhook Error: Processing of event ${eventId} threw. Error:`, error);
+    outcome = { status: "failed", error: error?.message ?? String(error) };
+  }
+  await ctx.runMutation(internal.webhookEvents.recordWebhookOutcome, {
+    eventId,
+    status: outcome.status,
+    paymentId: outcome.paymentId,
+    error: outcome.error,
+  });
+  return { status: outcome.status, error: outcome.error };
+}
+
+/**
+ * Internal action used by the HTTP route to process a freshly logged delivery.
+ */
+export const processWebhookEvent = internalAction({
+  args: { eventId: v.id("webhookEvents") },
+  handler: async (ctx, { eventId }): Promise<WebhookOutcome> => {
+    const event = await ctx.runQuery(internal.webhookEvents.getWebhookEvent, { eventId });
+    if (!event) throw new ConvexError("Webhook event not found.");
+    return await runWebhookEvent(ctx, eventId, event.rawBody);
+  },
+});
+
+/**
+ * Re-runs a stored delivery through the same processing path, e.g. after fixing the cause of a failure.
+ * Events with an invalid signature are never replayed.
+ */
+export const replayWebhookEvent = internalAction({
+  args: { eventId: v.id("webhookEvents") },
+  handler: async (ctx, { eventId }): Promise<WebhookOutcome> => {
+    const event = await ctx.runQuery(internal.webhookEvents.getWebhookEvent, { eventId });
+    if (!event) throw new ConvexError("Webhook event not found.");
+    if (!event.signatureValid) {
+      throw new ConvexError("Cannot replay a webhook event with an invalid signature.");
+    }
+    return await runWebhookEvent(ctx, eventId, event.rawBody);
+  },
+});
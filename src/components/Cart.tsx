@@ -3,12 +3,16 @@ import { PiPayment } from './PiPayment';
 import { toast } from 'sonner';
 import { Button } from "./ui/button";
 import type { CartItem } from '../context/CartContext'; export type { CartItem };
-import { X, Trash2, ShoppingCart, XCircle, AlertTriangle, Check } from 'lucide-react';
+import { useCart } from '../context/CartContext';
+import { X, Trash2, ShoppingCart, XCircle, AlertTriangle, Check, MapPin } from 'lucide-react';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';import { ChevronDown, ChevronUp } from 'lucide-react';import { motion, AnimatePresence } from 'framer-motion';
 import { Id } from '../../convex/_generated/dataModel';
 import { DiscountCodeInput } from './DiscountCodeInput';
 import { formatPiPrice } from '../lib/utils';
+import { DeliveryFeeBreakdown } from './DeliveryFeeBreakdown';
+import { DeliverySlotPicker } from './DeliverySlotPicker';
+import { FulfillmentToggle, resolveFulfillmentType } from './FulfillmentToggle';
 import { useAuth } from '../hooks/useAuth';
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { useLanguage } from '../context/LanguageContext';
@@ -36,6 +40,9 @@ interface CartProps {
   onClearCart: () => void;
 }
 
+// Tips are offered as a share of the subtotal; all of it goes to the driver.
+const TIP_RATES = [0, 0.05, 0.1, 0.15];
+
 export function Cart({
   isOpen,
   onClose,
@@ -51,7 +58,12 @@ export function Cart({
   const [showSummaryDetails, setShowSummaryDetails] = useState(true); // State to toggle summary details
   const [isAddressPopoverOpen, setIsAddressPopoverOpen] = useState(false);
   const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<'pi_coin' | 'cash'>('pi_coin');
+  const [isPlacingCashOrder, setIsPlacingCashOrder] = useState(false);
+  const [tipRate, setTipRate] = useState(0); // Share of the subtotal tipped to the driver
+  const [scheduledFor, setScheduledFor] = useState<number | null>(null); // Start of the chosen slot; null orders for now
   const { sessionToken, user: authUser } = useAuth();
+  const { fulfillmentType: chosenFulfillmentType } = useCart();
   const { t } = useLanguage();
   const { isInitialized, user: piUser } = usePi();  // Add this for logs
 
@@ -87,12 +99,17 @@ export function Cart({
   );
 
   const addAddress = useMutation(api.addresses.addAddress);
+  const placeCashOrder = useMutation(api.orders.placeCashOrder);
+  const createCheckoutQuote = useMutation(api.checkoutQuotes.createCheckoutQuote);
 
   const store = useQuery(
     api.stores.getStoreById,
     storeId ? { storeId: storeId as Id<"stores"> } : 'skip'
   );
 
+  const fulfillmentType = store ? resolveFulfillmentType(store, chosenFulfillmentType) : chosenFulfillmentType;
+  const isPickup = fulfillmentType === 'pickup';
+
   // New mutation for inventory validation
   const validateInventory = useMutation(api.cart.validateCartInventory);
   const [inventoryIssues, setInventoryIssues] = useState<any[]>([]);
@@ -104,18 +121,20 @@ export function Cart({
   );
 
   // Calculate dynamic delivery fee based on GPS coordinates
-  const dynamicDeliveryFee = useQuery(api.stores.calculateDeliveryFee, 
-    storeId && selectedAddress && selectedAddress.latitude !== undefined && selectedAddress.longitude !== undefined
+  const deliveryQuote = useQuery(api.deliveryPricing.getDeliveryQuote, 
+    !isPickup && storeId && selectedAddress && selectedAddress.latitude !== undefined && selectedAddress.longitude !== undefined
       ? { 
           storeId: storeId as Id<"stores">, 
           userLatitude: selectedAddress.latitude, 
-          userLongitude: selectedAddress.longitude
+          userLongitude: selectedAddress.longitude,
+          subtotal,
         } 
       : "skip"
   );
+  const dynamicDeliveryFee = deliveryQuote?.fee;
 
   const deliveryFee = useMemo(() => {
-    if (subtotal === 0) return 0;
+    if (subtotal === 0 || isPickup) return 0;
     // useQuery returns undefined while loading. Fallback to 0.
     if (store === undefined) {
       console.log('[Cart] Store loading, deliveryFee fallback to 0');  // Log
@@ -131,10 +150,26 @@ export function Cart({
     if (store === null || !store.hasDelivery) return 0;
     // Fallback to 0 if dynamic fee is not available (e.g. no location set yet)
     return 0;
-  }, [subtotal, store, dynamicDeliveryFee]);
+  }, [subtotal, store, dynamicDeliveryFee, isPickup]);
+
+  // The server decides coverage: drawn delivery zones for stores that have them, city lists otherwise
+  const deliveryCoverage = useQuery(
+    api.deliveryZones.getDeliveryCoverageForAddress,
+    storeId ? {
+      storeId: storeId as Id<"stores">,
+      country: selectedAddress?.country || user?.profile?.country,
+      city: selectedAddress?.city || user?.profile?.city,
+      latitude: selectedAddress?.latitude,
+      longitude: selectedAddress?.longitude,
+      subtotal,
+    } : "skip"
+  );
 
   const deliveryValidation = useMemo(() => {
     if (!sessionToken) return { allowed: false, reason: "Please log in to checkout." };
+
+    // Pickup orders are collected at the store, so no address or coverage is needed.
+    if (isPickup) return store ? { allowed: true } : { allowed: false, reason: "Loading store info..." };
     
     // If addresses are loaded but none selected (and we have some), prompt selection
     if (addressesData?.addresses && addressesData.addresses.length > 0 && !selectedAddress) {
@@ -153,21 +188,13 @@ export function Cart({
         return { allowed: false, reason: "Missing location data. Please select a valid address." };
     }
 
-    if (!store) return { allowed: false, reason: "Loading store info..." };
+    if (!store || deliveryCoverage === undefined) return { allowed: false, reason: "Loading store info..." };
 
-    if (store.hasDelivery) {
-        if (store.country !== country) {
-             return { allowed: false, reason: `Store only delivers to ${store.country}.` };
-        }
-        if (store.deliveryRegions && store.deliveryRegions.length > 0) {
-             const isAllowList = store.isDeliveryRegionsAllowList ?? true;
-             const inList = store.deliveryRegions.includes(city);
-             const allowed = isAllowList ? inList : !inList;
-             if (!allowed) return { allowed: false, reason: `No delivery to ${city}.` };
-        }
+    if (store.hasDelivery && deliveryCoverage && !deliveryCoverage.allowed) {
+        return { allowed: false, reason: deliveryCoverage.reason };
     }
     return { allowed: true };
-  }, [user, store, sessionToken, selectedAddress, addressesData]);
+  }, [user, store, sessionToken, selectedAddress, addressesData, deliveryCoverage, isPickup]);
 
   // Effect to set the default address when the cart is opened or addresses are loaded
   useEffect(() => {
@@ -247,7 +274,84 @@ export function Cart({
     return 0;
   }, [appliedDiscount, subtotal]);
 
-  const total = subtotal > 0 ? subtotal - discountAmount + (deliveryFee ?? 0) : 0;
+  const tipAmount = isPickup ? 0 : subtotal * tipRate;
+  const total = subtotal > 0 ? subtotal - discountAmount + (deliveryFee ?? 0) + tipAmount : 0;
+
+  const checkoutMetadata = {
+    storeId: storeId, // All items are from the same store
+    items: items.map(item => ({
+      id: item.productId,
+      variantId: item.variantId,
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      options: item.options,
+    })),
+    fulfillmentType,
+    deliveryAddress,
+    deliveryAddressId: selectedAddress?._id,
+    deliveryLatitude: selectedAddress?.latitude,
+    deliveryLongitude: selectedAddress?.longitude,
+    deliveryCity: selectedAddress?.city,
+    deliveryCountry: selectedAddress?.country,
+    subtotal,
+    discount: appliedDiscount ? { code: appliedDiscount.code, amount: discountAmount } : undefined,
+    deliveryFee: deliveryFee ?? 0,
+    tip: tipAmount,
+    scheduledFor: scheduledFor ?? undefined,
+    total,
+  };
+
+  // Prices the cart on the server. The payment must match the returned quote, so its figures replace the ones shown here.
+  const quoteCheckout = async () => {
+    const quote = await createCheckoutQuote({
+      tokenIdentifier: sessionToken!,
+      storeId: storeId as Id<"stores">,
+      items: items.map(item => ({ productId: item.productId, variantId: item.variantId, quantity: item.quantity, options: item.options })),
+      fulfillmentType,
+      discountCode: appliedDiscount?.code,
+      deliveryAddressId: isPickup ? undefined : selectedAddress?._id,
+      tip: tipAmount,
+    });
+    if (Math.abs(quote.total - total) > 0.0000001) {
+      toast.info(`Your total was updated to ${formatPiPrice(quote.total)}.`);
+    }
+    return {
+      amount: quote.total,
+      metadata: {
+        ...checkoutMetadata,
+        storeId: quote.storeId,
+        quoteId: quote.quoteId,
+        subtotal: quote.subtotal,
+        discount: appliedDiscount ? { code: appliedDiscount.code, amount: quote.discountAmount } : undefined,
+        deliveryFee: quote.deliveryFee,
+        tip: quote.tip,
+        total: quote.total,
+      },
+    };
+  };
+
+  const isCheckoutDisabled = (!isPickup && !deliveryAddress.trim()) || subtotal === 0 || !storeId || inventoryIssues.length > 0 || isCheckingInventory || !deliveryValidation.allowed;
+
+  const handlePlaceCashOrder = async () => {
+    if (!sessionToken) {
+      toast.error('Please sign in first.');
+      return;
+    }
+    setIsPlacingCashOrder(true);
+    try {
+      const checkout = await quoteCheckout();
+      await placeCashOrder({ tokenIdentifier: sessionToken, amount: checkout.amount, metadata: checkout.metadata });
+      toast.success(isPickup ? 'Order placed! Pay in cash when you collect it.' : 'Order placed! Pay the driver in cash on delivery.');
+      onClearCart();
+      onClose();
+    } catch (error: any) {
+      console.error('Cash order failed:', error);
+      toast.error(error.data || 'Could not place your order. Please try again.');
+    } finally {
+      setIsPlacingCashOrder(false);
+    }
+  };
 
   const handlePaymentSuccess = (paymentId: string, txid: string) => {
     console.log('Order payment successful:', { paymentId, txid });
@@ -408,6 +512,7 @@ export function Cart({
                         className="overflow-hidden"
                       >
                         <div className="space-y-4 pt-4">
+                          {store && <FulfillmentToggle store={store} />}
                           <div className="space-y-2">
   <div className="flex justify-between text-sm text-gray-300">
                               <span>Subtotal</span>
@@ -424,7 +529,9 @@ export function Cart({
                                 <span className="font-mono">-{formatPiPrice(discountAmount)}</span>
                               </div>
                             )}
-  <div className="flex justify-between text-sm text-gray-300">
+  {!isPickup && (
+                            <>
+                            <div className="flex justify-between text-sm text-gray-300">
                               <span>Delivery Fee {dynamicDeliveryFee !== undefined && dynamicDeliveryFee !== null && <span className="text-xs text-purple-400 ml-1">(Dynamic)</span>}</span>
                               {deliveryFee === null ? (
                                 <span className="font-mono animate-pulse">...</span>
@@ -432,6 +539,25 @@ export function Cart({
                                 <span className="font-mono">{formatPiPrice(deliveryFee)}</span>
                               )}
                             </div>
+                            <DeliveryFeeBreakdown lines={deliveryQuote?.breakdown} />
+                            <div className="flex justify-between items-center text-sm text-gray-300">
+                              <span>Driver Tip</span>
+                              <div className="flex items-center gap-1">
+                                {TIP_RATES.map(rate => (
+                                  <button
+                                    key={rate}
+                                    type="button"
+                                    onClick={() => setTipRate(rate)}
+                                    className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${tipRate === rate ? 'bg-purple-600 border-purple-500 text-white' : 'border-gray-600 text-gray-400 hover:border-gray-500'}`}
+                                  >
+                                    {rate === 0 ? 'None' : `${rate * 100}%`}
+                                  </button>
+                                ))}
+                                <span className="font-mono ml-1">{formatPiPrice(tipAmount)}</span>
+                              </div>
+                            </div>
+                            </>
+                          )}
                             <div className="flex justify-between font-bold text-lg text-white border-t border-gray-700 pt-3 mt-2">
                               <span>Total</span>
                               <span className="font-mono">{formatPiPrice(total)}</span>
@@ -444,6 +570,18 @@ export function Cart({
                             disabled={!!appliedDiscount}
                           />
 
+                          {isPickup ? (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-300 mb-2">Pickup From</label>
+                              <div className="flex items-start gap-2 bg-gray-800 border border-gray-600 rounded-lg px-3 py-3 text-sm text-white">
+                                <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0 text-purple-400" />
+                                <div>
+                                  <p className="font-semibold">{store?.name}</p>
+                                  <p className="text-xs text-gray-400">{store?.address}</p>
+                                </div>
+                              </div>
+                            </div>
+                          ) : (
                           <div>
                             <div className="flex justify-between items-center mb-2">
                               <label className="block text-sm font-medium text-gray-300">
@@ -506,6 +644,11 @@ export function Cart({
                                 </div>
                             )}
                           </div>
+                          )}
+
+                          {storeId && (
+                            <DeliverySlotPicker storeId={storeId as Id<"stores">} value={scheduledFor} onChange={setScheduledFor} />
+                          )}
                         </div>
                       </motion.div>
                     )}
@@ -535,37 +678,54 @@ export function Cart({
                       </div>
                   )}
 
-                  <div className="mt-4">
-                    
+                  <div className="mt-4 space-y-3">
+                    {store?.acceptsCash && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          onClick={() => setPaymentMethod('pi_coin')}
+                          className={`py-2 rounded-lg text-sm font-medium border transition-colors ${paymentMethod === 'pi_coin' ? 'bg-purple-500/20 border-purple-500 text-white' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}
+                        >
+                          Pi Wallet
+                        </button>
+                        <button
+                          onClick={() => setPaymentMethod('cash')}
+                          className={`py-2 rounded-lg text-sm font-medium border transition-colors ${paymentMethod === 'cash' ? 'bg-green-500/20 border-green-500 text-white' : 'border-gray-700 text-gray-400 hover:bg-gray-800'}`}
+                        >
+                          {isPickup ? 'Cash at Pickup' : 'Cash on Delivery'}
+                        </button>
+                      </div>
+                    )}
+
+                    {store?.acceptsCash && paymentMethod === 'cash' ? (
+                      <button
+                        onClick={handlePlaceCashOrder}
+                        disabled={isCheckoutDisabled || isPlacingCashOrder}
+                        className="w-full bg-gradient-to-r from-green-500 to-teal-500 text-white px-6 py-3 rounded-lg hover:from-green-600 hover:to-teal-600 transition-all duration-200 font-semibold text-center shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isPlacingCashOrder ? 'Placing order...' : `Place Order · Pay ${formatPiPrice(total)} in cash`}
+                      </button>
+                    ) : (
                     <PiPayment
                       amount={total}
                       memo={`OmniGo Order - ${items.length} items`}
-                      metadata={{
-                        storeId: storeId, // All items are from the same store
-                        items: items.map(item => ({
-                          id: item.productId,
-                          name: item.name,
-                          quantity: item.quantity,
-                          price: item.price,
-                          options: item.options,
-                        })),
-                        deliveryAddress,
-                        deliveryCity: selectedAddress?.city,
-                        deliveryCountry: selectedAddress?.country,
-                        subtotal,
-                        discount: appliedDiscount ? { code: appliedDiscount.code, amount: discountAmount } : undefined,
-                        deliveryFee: deliveryFee ?? 0,
-                        total,
-                      } as any}
+                      metadata={checkoutMetadata as any}
+                      prepareCheckout={async () => {
+                        try {
+                          return await quoteCheckout();
+                        } catch (error: any) {
+                          throw new Error(error.data || 'Could not price your order. Please try again.');
+                        }
+                      }}
                       onPaymentSuccess={handlePaymentSuccess}
                       onPaymentCancel={handlePaymentCancel}
                       onPaymentError={handlePaymentError}
-                      disabled={!deliveryAddress.trim() || subtotal === 0 || !storeId || inventoryIssues.length > 0 || isCheckingInventory || !deliveryValidation.allowed}
+                      disabled={isCheckoutDisabled}
                     >
                       <div className="bg-gradient-to-r from-purple-500 to-pink-500 text-white px-6 py-3 rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-semibold text-center shadow-lg hover:scale-105 active:scale-100 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100">
                          {subtotal > 0 ? `${t('payWithPi')} ${formatPiPrice(total)} ` : 'Add items to cart'}
                       </div>
                     </PiPayment>
+                    )}
                   </div>
                   
                 </div>
@@ -6,9 +6,23 @@ import { CheckoutSummary } from './CheckoutSummary';
 import { Id } from '../../convex/_generated/dataModel';
 import { useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import { useAuth } from '../hooks/useAuth';
 
 export const CartView = () => {
-  const { items, updateQuantity, removeItem, clearCart } = useCart();
+  const { items, updateQuantity, removeItem, clearCart, getTotalPrice } = useCart();
+  const { sessionToken } = useAuth();
+  const addressesData = useQuery(
+    api.addresses.getUserAddresses,
+    sessionToken ? { tokenIdentifier: sessionToken } : 'skip'
+  );
+  const defaultAddress = addressesData?.addresses.find(a => a._id === addressesData.defaultAddressId) ?? addressesData?.addresses[0];
+  const cartStoreId = items[0]?.storeId as Id<'stores'> | undefined;
+  const deliveryQuote = useQuery(
+    api.deliveryPricing.getDeliveryQuote,
+    cartStoreId && defaultAddress?.latitude !== undefined && defaultAddress?.longitude !== undefined
+      ? { storeId: cartStoreId, userLatitude: defaultAddress.latitude, userLongitude: defaultAddress.longitude, subtotal: getTotalPrice() }
+      : 'skip'
+  );
 
   if (items.length === 0) {
     return (
@@ -29,8 +43,8 @@ export const CartView = () => {
     storeId ? { storeId } : 'skip'
   );
 
-  // This should probably come from the restaurant data, but we'll use a fixed value for now.
-  const deliveryFee = 2.5; 
+  // Quoted for the default address; falls back to a fixed value when it has no location.
+  const deliveryFee = deliveryQuote?.fee ?? 2.5;
 
   if (store === undefined) {
     return <div className="flex justify-center items-center p-8"><Loader2 className="h-8 w-8 animate-spin" /></div>;
@@ -83,6 +97,7 @@ export const CartView = () => {
           <CheckoutSummary 
             storeId={storeId} 
             deliveryFee={deliveryFee} 
+            deliveryFeeBreakdown={deliveryQuote?.breakdown}
           />
         </div>
       </div>
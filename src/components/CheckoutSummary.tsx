@@ -9,10 +9,12 @@ import { useQuery } from 'convex/react';
 import { PaymentMetadata } from '../types';
 import { api } from '../../convex/_generated/api';
 import { XCircle } from 'lucide-react';
+import { DeliveryFeeBreakdown, DeliveryFeeLine } from './DeliveryFeeBreakdown';
 
 interface CheckoutSummaryProps {
   storeId: Id<'stores'>;
   deliveryFee: number;
+  deliveryFeeBreakdown?: DeliveryFeeLine[];
 }
 
 type AppliedDiscount = {
@@ -26,7 +28,7 @@ type AppliedDiscount = {
 
 const formatPrice = (price: number): string => `π${parseFloat(price.toFixed(7))}`;
 
-export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({ storeId, deliveryFee }) => {
+export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({ storeId, deliveryFee, deliveryFeeBreakdown }) => {
   const { items, getTotalPrice, clearCart } = useCart();
   const [deliveryAddress, setDeliveryAddress] = useState('');
   const [submittedCode, setSubmittedCode] = useState<string | null>(null);
@@ -83,6 +85,7 @@ export const CheckoutSummary: React.FC<CheckoutSummaryProps> = ({ storeId, deliv
           </div>
         )}
         <div className="flex justify-between text-gray-300"><span>Delivery Fee</span><span>{formatPrice(deliveryFee)}</span></div>
+        <DeliveryFeeBreakdown lines={deliveryFeeBreakdown} />
         <div className="flex justify-between text-white font-bold text-lg pt-2 border-t border-gray-600"><span>Total</span><span>{formatPrice(total)}</span></div>
       </div>
       <DiscountCodeInput onApply={setSubmittedCode} isLoading={isLoadingDiscount} disabled={!!appliedDiscount} />
@@ -1,31 +1,60 @@
-import React, { useMemo } from 'react';
-import { useQuery, useMutation } from 'convex/react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useQuery, useMutation, useAction } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { useAuth } from '../hooks/useAuth';
 import { Doc, Id } from '../../convex/_generated/dataModel';
 import { useNavigate, NavigateFunction } from 'react-router-dom';
 import { toast } from 'sonner';
-import { Loader2, Truck, Check, MapPin, Phone, MessageSquare } from 'lucide-react';
+import { Loader2, Truck, Check, MapPin, Phone, MessageSquare, Clock, X, Store, Camera, KeyRound, Wallet, Power, CalendarClock, Route, Star } from 'lucide-react';
+import { compressImage } from '../lib/imageUtils';
 import { formatPiPrice } from '../lib/utils';
-function DeliveryOrderCard({ order, onNavigateToChat }: { order: Doc<"orders"> & { customerPhone?: string }, onNavigateToChat: (conversationId: Id<"conversations">) => void }) {
+import { RateUserForm } from './UserRatings';
+type RunStop = { runId: Id<"deliveryRuns">; stopNumber: number; totalStops: number; etaMinutes: number | null };
+type AssignedOrder = Doc<"orders"> & { customerPhone?: string; runStop: RunStop | null };
+
+function DeliveryOrderCard({ order, onNavigateToChat }: { order: AssignedOrder, onNavigateToChat: (conversationId: Id<"conversations">) => void }) {
   const { sessionToken } = useAuth();
   const updateStatus = useMutation(api.orders.updateOrderStatus);
+  const isCashOrder = order.paymentMethod === 'cash';
+  const isAwaitingPickup = order.status === 'preparing';
+  const [cashCollected, setCashCollected] = useState(false);
+  const [handoverCode, setHandoverCode] = useState('');
+  const [proofPhoto, setProofPhoto] = useState<File | null>(null);
+  const generateUploadUrl = useMutation(api.stores.generateUploadUrl);
+
+  const uploadProofPhoto = async (photo: File) => {
+    const compressed = await compressImage(photo, { maxWidth: 1024, quality: 0.8 });
+    const url = await generateUploadUrl();
+    const result = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": compressed.type },
+      body: compressed,
+    });
+    const { storageId } = await result.json();
+    return storageId as Id<"_storage">;
+  };
 
   const handleMarkDelivered = async () => {
     if (!sessionToken) {
       toast.error("Authentication error.");
       return;
     }
-    const promise = updateStatus({
-      tokenIdentifier: sessionToken,
-      orderId: order._id,
-      status: 'delivered',
-    });
+    const promise = (async () => {
+      const proofPhotoId = proofPhoto ? await uploadProofPhoto(proofPhoto) : undefined;
+      return await updateStatus({
+        tokenIdentifier: sessionToken,
+        orderId: order._id,
+        status: 'delivered',
+        cashCollected: isCashOrder ? cashCollected : undefined,
+        handoverCode: handoverCode.trim() || undefined,
+        proofPhotoId,
+      });
+    })();
 
     toast.promise(promise, {
       loading: 'Updating status...',
       success: 'Order marked as delivered!',
-      error: (err) => `Failed to update: ${err.message}`,
+      error: (err) => `Failed to update: ${err.data || err.message}`,
     });
   };
 
@@ -50,6 +79,12 @@ function DeliveryOrderCard({ order, onNavigateToChat }: { order: Doc<"orders"> &
     <div className="bg-gray-800 rounded-2xl p-6 border border-gray-700 space-y-4">
       <div className="flex items-start justify-between">
         <div>
+          {order.runStop && (
+            <span className="inline-flex items-center gap-1 mb-2 px-2 py-0.5 rounded-full bg-purple-500/20 text-purple-300 text-xs font-semibold">
+              Stop {order.runStop.stopNumber} of {order.runStop.totalStops}
+              {order.runStop.etaMinutes !== null && ` · ~${order.runStop.etaMinutes} min`}
+            </span>
+          )}
           <h3 className="text-xl font-bold text-white">{order.customerName}</h3>
           <p className="text-sm text-gray-400">Order #{order._id.slice(-6).toUpperCase()}</p>
           {order.customerPhone && (
@@ -95,6 +130,49 @@ function DeliveryOrderCard({ order, onNavigateToChat }: { order: Doc<"orders"> &
         </div>
       </div>
 
+      {!isAwaitingPickup && (
+        <div className="space-y-2">
+          <h4 className="font-semibold text-gray-200">Proof of Delivery</h4>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={4}
+                placeholder="Customer's handover code"
+                value={handoverCode}
+                onChange={(e) => setHandoverCode(e.target.value.replace(/\D/g, ''))}
+                className="w-full bg-gray-700 border border-gray-600 rounded-xl pl-9 pr-4 py-2 text-white font-mono tracking-widest focus:border-purple-500 focus:ring-purple-500"
+              />
+            </div>
+            <label className="flex items-center justify-center gap-2 bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-sm text-gray-300 cursor-pointer hover:bg-gray-600 transition-colors">
+              <Camera size={16} />
+              <span className="truncate max-w-[10rem]">{proofPhoto ? proofPhoto.name : 'Add a photo'}</span>
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => setProofPhoto(e.target.files?.[0] ?? null)}
+              />
+            </label>
+          </div>
+        </div>
+      )}
+
+      {isCashOrder && !isAwaitingPickup && (
+        <label className="flex items-center gap-3 rounded-xl bg-green-500/10 border border-green-500/30 p-3 text-sm text-green-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={cashCollected}
+            onChange={(e) => setCashCollected(e.target.checked)}
+            className="w-5 h-5 text-green-600 bg-gray-700 border-gray-600 rounded focus:ring-green-500"
+          />
+          <span>Cash on delivery: I collected <strong className="font-mono">{formatPiPrice(order.totalAmount)}</strong> from the customer.</span>
+        </label>
+      )}
+
       <div className="flex flex-col sm:flex-row gap-2 pt-2">
         <button
           onClick={handleStartChat}
@@ -103,27 +181,392 @@ function DeliveryOrderCard({ order, onNavigateToChat }: { order: Doc<"orders"> &
           <MessageSquare size={20} />
           Chat with Customer
         </button>
+        {isAwaitingPickup ? (
+          <div className="w-full bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 font-semibold py-3 rounded-xl flex items-center justify-center gap-2">
+            <Clock size={20} />
+            Awaiting Pickup
+          </div>
+        ) : (
+          <button
+            onClick={handleMarkDelivered}
+            disabled={isCashOrder && !cashCollected}
+            className="w-full disabled:opacity-50 disabled:cursor-not-allowed bg-gradient-to-r from-green-500 to-teal-500 text-white font-semibold py-3 rounded-xl hover:from-green-600 hover:to-teal-600 transition-all duration-200 shadow-lg hover:scale-105 flex items-center justify-center gap-2"
+          >
+            <Check size={20} />
+            Mark as Delivered
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The numbered route of a multi-drop run. Stops already delivered drop off the list.
+ */
+function RouteCard({ stops }: { stops: AssignedOrder[] }) {
+  const totalStops = stops[0].runStop?.totalStops ?? stops.length;
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 border border-purple-500/40 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-bold text-white"><Route className="h-5 w-5 text-purple-400" /> Delivery Run</h3>
+        <span className="text-sm text-gray-400">{totalStops - stops.length} of {totalStops} stops delivered</span>
+      </div>
+      <ol className="space-y-2">
+        {stops.map(stop => (
+          <li key={stop._id} className="flex items-center gap-3 text-gray-300">
+            <span className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-purple-600 text-sm font-bold text-white">
+              {stop.runStop?.stopNumber}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-white truncate">{stop.customerName}</p>
+              <p className="text-xs text-gray-400 truncate">{stop.deliveryAddress}</p>
+            </div>
+            {stop.runStop?.etaMinutes != null && (
+              <span className="text-sm text-purple-300 whitespace-nowrap">~{stop.runStop.etaMinutes} min</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function CustomersToRateCard() {
+  const { sessionToken } = useAuth();
+  const ordersToRate = useQuery(
+    api.ratings.getCustomersToRate,
+    sessionToken ? { tokenIdentifier: sessionToken } : "skip"
+  );
+  const rateCustomer = useMutation(api.ratings.rateCustomer);
+
+  if (!sessionToken || !ordersToRate || ordersToRate.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 border border-gray-700 space-y-4">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2"><Star size={20} className="text-purple-400" /> Rate Your Customers</h3>
+      {ordersToRate.map(order => (
+        <div key={order._id} className="border-t border-gray-700 pt-3 first:border-t-0 first:pt-0">
+          <RateUserForm
+            title={`${order.customerName} · ${order.storeName} #${order._id.slice(-6).toUpperCase()}`}
+            onSubmit={async (rating, comment) => {
+              await rateCustomer({ tokenIdentifier: sessionToken, orderId: order._id, rating, comment });
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type DispatchOffer = NonNullable<ReturnType<typeof useQuery<typeof api.dispatch.getMyDispatchOffers>>>[number];
+
+function DispatchOfferCard({ offer }: { offer: DispatchOffer }) {
+  const { sessionToken } = useAuth();
+  const respondToOffer = useMutation(api.dispatch.respondToDispatchOffer);
+  const [isResponding, setIsResponding] = useState(false);
+
+  const handleRespond = async (accept: boolean) => {
+    if (!sessionToken) {
+      toast.error("Authentication error.");
+      return;
+    }
+    setIsResponding(true);
+    try {
+      const result = await respondToOffer({ tokenIdentifier: sessionToken, offerId: offer._id, accept });
+      if (!result.success) {
+        toast.error("Failed to accept the offer.", { description: result.message });
+        return;
+      }
+      toast.success(accept ? 'Delivery accepted! Head to the store for pickup.' : 'Offer declined.');
+    } catch (error: any) {
+      toast.error("Failed to respond to the offer.", {
+        description: error.data || "An unexpected error occurred.",
+      });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 border border-purple-500/50 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-xl font-bold text-white">New Delivery Offer</h3>
+          <p className="text-sm text-gray-400">Order #{offer.orderId.slice(-6).toUpperCase()} · {offer.itemCount} item(s)</p>
+        </div>
+        <div className="text-right">
+          <div className="text-lg font-bold text-purple-400 font-mono">{formatPiPrice(offer.totalAmount)}</div>
+          {offer.paymentMethod === 'cash' && <span className="text-xs text-green-300">Cash on delivery</span>}
+        </div>
+      </div>
+
+      <div className="border-t border-b border-gray-700 py-4 space-y-3">
+        <div className="flex items-start gap-3 text-gray-300">
+          <Store className="w-5 h-5 text-gray-500 mt-1 flex-shrink-0" />
+          <div>
+            <p className="font-semibold">Pickup from {offer.storeName}</p>
+            <p>{offer.storeAddress}</p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3 text-gray-300">
+          <MapPin className="w-5 h-5 text-gray-500 mt-1 flex-shrink-0" />
+          <div>
+            <p className="font-semibold">Delivery Address</p>
+            <p>{offer.deliveryAddress}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={() => handleRespond(false)}
+          disabled={isResponding}
+          className="w-full disabled:opacity-50 bg-gray-700 text-gray-200 font-semibold py-3 rounded-xl hover:bg-gray-600 transition-all duration-200 flex items-center justify-center gap-2"
+        >
+          <X size={20} />
+          Decline
+        </button>
         <button
-          onClick={handleMarkDelivered}
-          className="w-full bg-gradient-to-r from-green-500 to-teal-500 text-white font-semibold py-3 rounded-xl hover:from-green-600 hover:to-teal-600 transition-all duration-200 shadow-lg hover:scale-105 flex items-center justify-center gap-2"
+          onClick={() => handleRespond(true)}
+          disabled={isResponding}
+          className="w-full disabled:opacity-50 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold py-3 rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 shadow-lg flex items-center justify-center gap-2"
         >
           <Check size={20} />
-          Mark as Delivered
+          Accept
         </button>
       </div>
     </div>
   );
 }
 
+function EarningsCard() {
+  const { sessionToken } = useAuth();
+  const earnings = useQuery(
+    api.driverEarnings.getMyEarnings,
+    sessionToken ? { tokenIdentifier: sessionToken } : "skip"
+  );
+  const payoutToDriver = useAction(api.paymentsActions.payoutToDriver);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+
+  if (!earnings) return null;
+
+  const handleWithdraw = async () => {
+    if (!sessionToken) {
+      toast.error("Authentication error.");
+      return;
+    }
+    setIsWithdrawing(true);
+    try {
+      const result = await payoutToDriver({ tokenIdentifier: sessionToken });
+      if (result.success) {
+        toast.success(`${formatPiPrice(result.amount ?? 0)} sent to your Pi wallet.`);
+      } else {
+        toast.error("Withdrawal failed.", { description: result.reason });
+      }
+    } catch (error: any) {
+      toast.error("Withdrawal failed.", { description: error.data || "An unexpected error occurred." });
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 border border-gray-700 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold text-white flex items-center gap-2"><Wallet size={20} className="text-purple-400" /> Earnings</h3>
+          <p className="text-sm text-gray-400">
+            {earnings.deliveryCount} deliveries · {formatPiPrice(earnings.totalDeliveryFees)} in fees · {formatPiPrice(earnings.totalTips)} in tips
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-2xl font-bold text-purple-400 font-mono">{formatPiPrice(earnings.availableBalance)}</div>
+          <span className="text-xs text-gray-400">Available to withdraw</span>
+        </div>
+      </div>
+
+      {earnings.recentEarnings.length > 0 && (
+        <div className="border-t border-gray-700 pt-4 space-y-2 max-h-60 overflow-y-auto">
+          {earnings.recentEarnings.map(earning => (
+            <div key={earning._id} className="flex justify-between text-sm text-gray-300">
+              <div>
+                <span>{earning.storeName} · #{earning.orderId.slice(-6).toUpperCase()}</span>
+                {earning.tipAmount > 0 && <span className="text-xs text-green-400 ml-2">incl. {formatPiPrice(earning.tipAmount)} tip</span>}
+              </div>
+              <div className="text-right">
+                <span className="font-mono">{formatPiPrice(earning.amount)}</span>
+                <span className="block text-xs text-gray-500">
+                  {earning.status === 'settled_in_cash' ? 'Collected in cash' : earning.status === 'paid_out' ? 'Paid out' : 'Available'}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {earnings.payouts[0]?.status === 'failed' && (
+        <p className="text-sm text-red-400">Your last withdrawal failed: {earnings.payouts[0].failureReason}</p>
+      )}
+
+      <button
+        onClick={handleWithdraw}
+        disabled={isWithdrawing || earnings.availableBalance <= 0}
+        className="w-full disabled:opacity-50 bg-gradient-to-r from-purple-500 to-pink-500 text-white font-semibold py-3 rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 shadow-lg flex items-center justify-center gap-2"
+      >
+        {isWithdrawing ? <Loader2 size={20} className="animate-spin" /> : <Wallet size={20} />}
+        Withdraw to Pi Wallet
+      </button>
+    </div>
+  );
+}
+
+function DutyToggle() {
+  const { sessionToken } = useAuth();
+  const duty = useQuery(
+    api.drivers.getMyDutyStatus,
+    sessionToken ? { tokenIdentifier: sessionToken } : "skip"
+  );
+  const setDutyStatus = useMutation(api.drivers.setDutyStatus);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  if (!duty) return null;
+
+  const handleToggle = async () => {
+    if (!sessionToken) return;
+    setIsUpdating(true);
+    try {
+      await setDutyStatus({ tokenIdentifier: sessionToken, isOnDuty: !duty.isOnDuty });
+      toast.success(duty.isOnDuty ? "You are off duty. You won't receive new deliveries." : "You are on duty and can receive deliveries.");
+    } catch (error: any) {
+      toast.error("Failed to update your duty status.", { description: error.data || "An unexpected error occurred." });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={isUpdating}
+      className={`disabled:opacity-50 flex items-center gap-2 px-4 py-2 rounded-full font-semibold border transition-colors ${
+        duty.isOnDuty ? 'bg-green-500/20 border-green-500/50 text-green-300 hover:bg-green-500/30' : 'bg-gray-800 border-gray-600 text-gray-300 hover:bg-gray-700'
+      }`}
+    >
+      {isUpdating ? <Loader2 size={18} className="animate-spin" /> : <Power size={18} />}
+      {duty.isOnDuty ? 'On Duty' : 'Off Duty'}
+    </button>
+  );
+}
+
+function ShiftsCard() {
+  const { sessionToken } = useAuth();
+  const shifts = useQuery(
+    api.driverShifts.getMyShifts,
+    sessionToken ? { tokenIdentifier: sessionToken } : "skip"
+  );
+  const setShiftSignup = useMutation(api.driverShifts.setShiftSignup);
+
+  if (!shifts || shifts.length === 0) return null;
+
+  const handleSignup = async (shiftId: Id<"driverShifts">, signUp: boolean) => {
+    if (!sessionToken) return;
+    try {
+      await setShiftSignup({ tokenIdentifier: sessionToken, shiftId, signUp });
+      toast.success(signUp ? "Shift taken." : "Shift released.");
+    } catch (error: any) {
+      toast.error("Failed to update the shift.", { description: error.data || "An unexpected error occurred." });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-2xl p-6 border border-gray-700 space-y-3">
+      <h3 className="text-xl font-bold text-white flex items-center gap-2"><CalendarClock size={20} className="text-purple-400" /> Shifts</h3>
+      {shifts.map(shift => (
+        <div key={shift._id} className="flex items-center justify-between gap-3 text-sm text-gray-300">
+          <div>
+            <p className="font-semibold">{shift.storeName}</p>
+            <p className="text-gray-400">
+              {new Date(shift.startsAt).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' })}
+              {' – '}
+              {new Date(shift.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              {shift.note && ` · ${shift.note}`}
+            </p>
+          </div>
+          {shift.isMine ? (
+            <button onClick={() => handleSignup(shift._id, false)} className="px-3 py-1 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600">Release</button>
+          ) : (
+            <button
+              onClick={() => handleSignup(shift._id, true)}
+              disabled={shift.openSlots <= 0}
+              className="px-3 py-1 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+            >
+              {shift.openSlots > 0 ? `Take (${shift.openSlots} open)` : 'Full'}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function DeliveryDashboard({ onNavigateToChat, navigate }: { onNavigateToChat: (conversationId: Id<"conversations">) => void, navigate: NavigateFunction }) {
   const { sessionToken } = useAuth();
   const data = useQuery(
     api.delivery.getAssignedOrders,
     sessionToken ? { tokenIdentifier: sessionToken } : "skip"
   );
+  const dispatchOffers = useQuery(
+    api.dispatch.getMyDispatchOffers,
+    sessionToken ? { tokenIdentifier: sessionToken } : "skip"
+  );
+  const updatePresence = useMutation(api.presence.update);
+  const recordDriverLocation = useMutation(api.tracking.recordDriverLocation);
+  const lastLocationPingRef = useRef(0);
 
   const assignedStores = data?.assignedStores;
   const assignedOrders = data?.orders;
+  const hasActiveDelivery = !!assignedOrders?.some(order => order.status === 'out_for_delivery');
+
+  // The server returns the stops of a run together and in route order.
+  const deliveryGroups = useMemo(() => {
+    const groups: AssignedOrder[][] = [];
+    for (const order of assignedOrders ?? []) {
+      const lastGroup = groups[groups.length - 1];
+      if (order.runStop && lastGroup?.[0].runStop?.runId === order.runStop.runId) {
+        lastGroup.push(order);
+      } else {
+        groups.push([order]);
+      }
+    }
+    return groups;
+  }, [assignedOrders]);
+
+  // Share the driver's location while the dashboard is open so auto-dispatch can pick the closest driver,
+  // and stream it to the customers of any order currently out for delivery.
+  useEffect(() => {
+    if (!sessionToken || !navigator.geolocation) return;
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, heading, speed } = position.coords;
+        updatePresence({ tokenIdentifier: sessionToken, latitude, longitude });
+
+        if (hasActiveDelivery && Date.now() - lastLocationPingRef.current >= 10000) {
+          lastLocationPingRef.current = Date.now();
+          recordDriverLocation({
+            tokenIdentifier: sessionToken,
+            latitude,
+            longitude,
+            heading: heading ?? undefined,
+            speed: speed ?? undefined,
+          });
+        }
+      },
+      (error) => console.warn("Unable to read driver location:", error.message),
+      { enableHighAccuracy: true, maximumAge: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [sessionToken, updatePresence, recordDriverLocation, hasActiveDelivery]);
 
   if (data === undefined) {
     return (
@@ -136,17 +579,39 @@ export function DeliveryDashboard({ onNavigateToChat, navigate }: { onNavigateTo
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-white">Delivery Dashboard</h1>
-        <p className="text-gray-400 mt-1">
-          You are assigned to {assignedStores?.length ?? 0} store(s).
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Delivery Dashboard</h1>
+          <p className="text-gray-400 mt-1">
+            You are assigned to {assignedStores?.length ?? 0} store(s).
+          </p>
+        </div>
+        <DutyToggle />
       </div>
 
+      <EarningsCard />
+
+      <ShiftsCard />
+
+      <CustomersToRateCard />
+
+      {dispatchOffers && dispatchOffers.length > 0 && (
+        <div className="space-y-6">
+          {dispatchOffers.map(offer => (
+            <DispatchOfferCard key={offer._id} offer={offer} />
+          ))}
+        </div>
+      )}
+
       {assignedOrders && assignedOrders.length > 0 ? (
         <div className="space-y-6">
-          {assignedOrders.map(order => (
-            <DeliveryOrderCard key={order._id} order={order} onNavigateToChat={onNavigateToChat} />
+          {deliveryGroups.map(group => (
+            <div key={group[0]._id} className="space-y-4">
+              {group[0].runStop && <RouteCard stops={group} />}
+              {group.map(order => (
+                <DeliveryOrderCard key={order._id} order={order} onNavigateToChat={onNavigateToChat} />
+              ))}
+            </div>
           ))}
         </div>
       ) : (
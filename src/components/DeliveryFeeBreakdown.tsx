@@ -0,0 +1,23 @@
+import { formatPiPrice } from "../lib/utils";
+
+export type DeliveryFeeLine = { label: string; amount: number };
+
+/**
+ * Itemized lines explaining how a delivery fee was calculated, shown under the fee itself.
+ */
+export function DeliveryFeeBreakdown({ lines }: { lines?: DeliveryFeeLine[] | null }) {
+  if (!lines || lines.length === 0) return null;
+
+  return (
+    <div className="pl-3 space-y-0.5 text-xs text-gray-400">
+      {lines.map((line, index) => (
+        <div key={index} className="flex justify-between">
+          <span>{line.label}</span>
+          <span className={`font-mono ${line.amount < 0 ? "text-green-400" : ""}`}>
+            {line.amount < 0 ? `-${formatPiPrice(-line.amount)}` : formatPiPrice(line.amount)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
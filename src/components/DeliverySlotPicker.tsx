@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { CalendarClock } from "lucide-react";
+
+export const formatSlot = (startsAt: number, endsAt?: number) => {
+  const time = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  const day = new Date(startsAt).toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" });
+  return endsAt ? `${day}, ${time(startsAt)}–${time(endsAt)}` : `${day}, ${time(startsAt)}`;
+};
+
+/**
+ * Lets the customer order for now or pick one of the store's open slots in the next few days.
+ * Renders nothing when the store does not take scheduled orders.
+ */
+export function DeliverySlotPicker({
+  storeId,
+  value,
+  onChange,
+}: {
+  storeId: Id<"stores">;
+  value: number | null;
+  onChange: (scheduledFor: number | null) => void;
+}) {
+  const slots = useQuery(api.scheduledOrders.getScheduleSlots, { storeId });
+
+  const slotsByDay = useMemo(() => {
+    const groups = new Map<string, NonNullable<typeof slots>>();
+    for (const slot of slots ?? []) {
+      const day = new Date(slot.startsAt).toLocaleDateString([], { weekday: "long", month: "short", day: "numeric" });
+      groups.set(day, [...(groups.get(day) ?? []), slot]);
+    }
+    return Array.from(groups.entries());
+  }, [slots]);
+
+  if (!slots || slots.length === 0) return null;
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+        <CalendarClock className="h-4 w-4" /> Delivery Time
+      </label>
+      <select
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+        className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+      >
+        <option value="">As soon as possible</option>
+        {slotsByDay.map(([day, daySlots]) => (
+          <optgroup key={day} label={day}>
+            {daySlots.map((slot) => (
+              <option key={slot.startsAt} value={slot.startsAt}>
+                {new Date(slot.startsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                {" – "}
+                {new Date(slot.endsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                {slot.remaining <= 2 && ` (${slot.remaining} left)`}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
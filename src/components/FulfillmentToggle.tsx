@@ -0,0 +1,50 @@
+import { Doc } from "../../convex/_generated/dataModel";
+import { Truck, ShoppingBag } from "lucide-react";
+import { useCart, FulfillmentType } from "../context/CartContext";
+
+type FulfillmentStore = Pick<Doc<"stores">, "hasDelivery" | "offersPickup">;
+
+/**
+ * Mirrors the backend rule: stores that don't deliver offer pickup unless the owner turned it off.
+ */
+export const storeOffersPickup = (store: FulfillmentStore) => store.offersPickup ?? !store.hasDelivery;
+
+/**
+ * The fulfillment type an order from this store will actually use, given the customer's choice.
+ */
+export const resolveFulfillmentType = (store: FulfillmentStore, chosen: FulfillmentType): FulfillmentType => {
+  if (!store.hasDelivery) return "pickup";
+  if (!storeOffersPickup(store)) return "delivery";
+  return chosen;
+};
+
+/**
+ * Lets the customer choose between delivery and pickup. Renders nothing unless the store offers both.
+ */
+export function FulfillmentToggle({ store }: { store: FulfillmentStore }) {
+  const { fulfillmentType, setFulfillmentType } = useCart();
+
+  if (!store.hasDelivery || !storeOffersPickup(store)) return null;
+
+  const options: { type: FulfillmentType; label: string; icon: typeof Truck }[] = [
+    { type: "delivery", label: "Delivery", icon: Truck },
+    { type: "pickup", label: "Pickup", icon: ShoppingBag },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-1 bg-gray-800 border border-gray-700 rounded-xl p-1">
+      {options.map(({ type, label, icon: Icon }) => (
+        <button
+          key={type}
+          type="button"
+          onClick={() => setFulfillmentType(type)}
+          className={`flex items-center justify-center gap-2 py-2 rounded-lg text-sm font-medium transition-colors ${
+            fulfillmentType === type ? "bg-purple-600 text-white" : "text-gray-400 hover:text-white"
+          }`}
+        >
+          <Icon size={16} /> {label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -6,7 +6,9 @@ import { useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { toast } from 'sonner';
 import { formatPiPrice } from '../lib/utils';
+import { storeOffersPickup } from './FulfillmentToggle';
 import { useAuth } from '../hooks/useAuth';
+import { useProductVariant } from '../hooks/useProductVariant';
 
 interface ProductItemOptionChoice {
   name: string;
@@ -59,6 +61,7 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
   const store = useQuery(api.stores.getStoreById, { storeId: item.storeId });
   const { sessionToken } = useAuth();
   const user = useQuery(api.auth.getUserFromToken, sessionToken ? { tokenIdentifier: sessionToken } : "skip");
+  const { hasVariants, selectedVariant, isVariantOption, isChoiceInStock, totalAvailable } = useProductVariant(item._id as Id<"products">, selectedOptions);
 
   useEffect(() => {
     if (isOpen) {
@@ -86,12 +89,14 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
   };
 
   const totalPrice = useMemo(() => {
-    let basePrice = item.price;
+    // A variant's own price replaces the base price and the increments of the choices that pick it.
+    const hasVariantPrice = selectedVariant?.price !== undefined;
+    let basePrice = hasVariantPrice ? selectedVariant!.price! : item.price;
     let optionsPrice = 0;
     if (item.options) {
       for (const option of item.options) {
         const selected = selectedOptions[option.title];
-        if (selected) {
+        if (selected && !(hasVariantPrice && isVariantOption(option.title))) {
           if (option.type === 'single') {
             const choice = option.choices.find(c => c.name === selected);
             if (choice) optionsPrice += choice.price_increment;
@@ -105,11 +110,15 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
       }
     }
     return (basePrice + optionsPrice) * quantity;
-  }, [item, selectedOptions, quantity]);
+  }, [item, selectedOptions, quantity, selectedVariant, isVariantOption]);
 
   const pricePerItem = useMemo(() => totalPrice / quantity, [totalPrice, quantity]);
 
   const availableStock = useMemo(() => {
+    // Products with variants are stocked per variant; until one is picked, show what they have together.
+    if (hasVariants) {
+      return selectedVariant ? selectedVariant.available : totalAvailable;
+    }
     if (item.storeName.toLowerCase().includes('pizza') || item.storeName.toLowerCase().includes('restaurant')) {
       return Infinity;
     }
@@ -126,7 +135,7 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
       return Math.min(...selectedChoices.map(c => c?.quantity ?? Infinity));
     }
     return item.quantity ?? Infinity;
-  }, [item, selectedOptions]);
+  }, [item, selectedOptions, hasVariants, selectedVariant, totalAvailable]);
 
   const { isStoreOpen, storeStatusMessage } = useMemo(() => {
     if (!store) return { isStoreOpen: false, storeStatusMessage: "Loading store info..." };
@@ -183,7 +192,8 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
       price: pricePerItem,
       quantity: quantity,
       storeId: item.storeId,
-      imageUrl: item.imageUrls?.[0] ?? null,
+      variantId: selectedVariant?._id,
+      imageUrl: selectedVariant?.imageUrl ?? item.imageUrls?.[0] ?? null,
       options: selectedOptions,
     }).then(() => {
       toast.success(`${quantity} x ${item.name} added!`);
@@ -194,7 +204,13 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
   };
 
   const isOutOfStock = availableStock <= 0;
-  const hasMultipleImages = item.imageUrls && item.imageUrls.length > 1;
+  const needsVariant = hasVariants && !selectedVariant;
+  // The chosen variant's image is shown first.
+  const imageUrls = selectedVariant?.imageUrl
+    ? [selectedVariant.imageUrl, ...item.imageUrls.filter((url) => url !== selectedVariant.imageUrl)]
+    : item.imageUrls;
+  const stockShown = hasVariants ? availableStock : item.quantity;
+  const hasMultipleImages = imageUrls && imageUrls.length > 1;
 
   const handleScroll = () => {
     if (scrollContainerRef.current) {
@@ -216,20 +232,20 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
         </div>
 
         <div className="p-2 sm:p-6 pt-0">
-          {item.imageUrls && item.imageUrls.length > 0 ? (
+          {imageUrls && imageUrls.length > 0 ? (
             <div className="relative mb-4 sm:mb-6">
               <div 
                 ref={scrollContainerRef}
                 onScroll={handleScroll}
                 className="flex overflow-x-auto snap-x snap-mandatory snap-stop-always scrollbar-hide rounded-2xl bg-gray-800 items-center"
               >
-                {item.imageUrls.map((url, index) => (
+                {imageUrls.map((url, index) => (
                   url && <img key={index} src={url} alt={`${item.name} ${index + 1}`} className="w-full aspect-square object-contain rounded-2xl snap-center flex-shrink-0" />
                 ))}
               </div>
               {hasMultipleImages && (
                 <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-2">
-                  {item.imageUrls.map((_, index) => (
+                  {imageUrls.map((_, index) => (
                     <div
                       key={index}
                       className={`w-2 h-2 rounded-full transition-all duration-300 ${index === currentImageIndex ? 'bg-white scale-125' : 'bg-white/50'}`}
@@ -247,14 +263,14 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
               {item.name}
               <span className="ml-2 text-2xl">{getSpiceLevelEmoji(item.spiceLevel)}</span>
             </h2>
-            {item.quantity !== undefined && (
+            {stockShown !== undefined && (
               <div className={`flex-shrink-0 text-sm font-bold px-3 py-1.5 rounded-full flex items-center gap-2 border ${
-                item.quantity <= 5 ? 'bg-red-500/20 text-red-400 border-red-500/30' : 
-                item.quantity <= 10 ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
+                stockShown <= 5 ? 'bg-red-500/20 text-red-400 border-red-500/30' : 
+                stockShown <= 10 ? 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' :
                 'bg-green-500/20 text-green-400 border-green-500/30'
               }`}>
                 <Package size={16} />
-                <span>{item.quantity} in stock</span>
+                <span>{stockShown} in stock</span>
               </div>
             )}
           </div>
@@ -265,14 +281,16 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
               <h3 className="text-lg font-semibold text-white mb-3">{option.title}</h3>
               <div className="space-y-3">
                 {option.choices.map(choice => {
-                  const isChoiceOutOfStock = choice.quantity !== undefined && choice.quantity <= 0;
+                  const isChoiceOutOfStock = isVariantOption(option.title)
+                    ? !isChoiceInStock(option.title, choice.name)
+                    : choice.quantity !== undefined && choice.quantity <= 0;
                   return (
                   <label key={choice.name} className={`flex items-center justify-between bg-gray-800 p-4 rounded-xl border-2 transition-all ${isChoiceOutOfStock ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer border-transparent has-[:checked]:border-purple-500 has-[:checked]:bg-purple-600/20'}`}>
                     <div className="flex flex-col">
                       <span className={`font-medium ${isChoiceOutOfStock ? 'text-gray-500' : 'text-white'}`}>{choice.name}</span>
                       <div className="flex items-center gap-2">
                         {choice.price_increment > 0 && <span className="text-sm text-gray-400">(+{formatPiPrice(choice.price_increment)})</span>}
-                        {choice.quantity !== undefined && (
+                        {!isVariantOption(option.title) && choice.quantity !== undefined && (
                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full border ${
                             choice.quantity <= 0 ? 'bg-red-500/20 text-red-400 border-red-500/30' :
                             choice.quantity <= 5 ? 'bg-red-500/20 text-red-400 border-red-500/30' :
@@ -330,17 +348,17 @@ export function HomeProductDetailModal({ item, isOpen, onClose, onStoreSelect }:
               if (!isStoreOpen) {
                 return <div className="flex-1 bg-gray-700 text-gray-400 px-6 py-3 rounded-xl font-semibold text-center">{storeStatusMessage}</div>;
               }
-              if (!store?.hasDelivery) {
-                return <div className="flex-1 bg-gray-700 text-gray-400 px-6 py-3 rounded-xl font-semibold text-center">This store does not offer delivery</div>;
+              if (store && !store.hasDelivery && !storeOffersPickup(store)) {
+                return <div className="flex-1 bg-gray-700 text-gray-400 px-6 py-3 rounded-xl font-semibold text-center">This store does not offer delivery or pickup</div>;
               }
               return (
                 <button
                   onClick={handleAddToCart}
-                  disabled={isOutOfStock || !deliveryValidation.allowed}
+                  disabled={isOutOfStock || needsVariant || !deliveryValidation.allowed}
                   className="flex-1 bg-gradient-to-r from-purple-600 to-pink-600 text-white px-6 py-3 rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all duration-200 font-semibold shadow-lg hover:scale-105 flex items-center justify-center gap-2 disabled:bg-gray-600 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed disabled:hover:scale-100 disabled:opacity-50"
                 >
-                  {isOutOfStock ? (
-                    <span>Out of Stock</span>
+                  {isOutOfStock || needsVariant ? (
+                    <span>{isOutOfStock ? 'Out of Stock' : 'Choose Options'}</span>
                   ) : (
                     <>
                       <ShoppingCart size={20} />
@@ -1,6 +1,6 @@
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../convex/_generated/api';
-import { Bell, CheckCheck, ShoppingCart, Truck, Megaphone, Briefcase, AlertTriangle } from 'lucide-react';
+import { Bell, CheckCheck, ShoppingCart, Truck, Megaphone, Briefcase, AlertTriangle, PackageMinus } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,6 +32,8 @@ export function NotificationBell({ setCurrentView }: NotificationBellProps) {
         return <Briefcase className="h-4 w-4 text-green-400" />;
       case "report":
         return <AlertTriangle className="h-4 w-4 text-red-400" />;
+      case "low_stock":
+        return <PackageMinus className="h-4 w-4 text-orange-400" />;
       default:
         return <Bell className="h-4 w-4 text-gray-400" />;
     }
@@ -65,7 +67,7 @@ export function NotificationBell({ setCurrentView }: NotificationBellProps) {
         setCurrentView('account_promotions');
       } else if (notification.type === 'driver_application') {
         setCurrentView('dashboard');
-      } else if (notification.type === 'report') {
+      } else if (notification.type === 'report' || notification.type === 'low_stock') {
         setCurrentView('dashboard');
       } else {
         setCurrentView('account');
@@ -0,0 +1,50 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useAuth } from "../hooks/useAuth";
+import { Loader2 } from "lucide-react";
+
+const ROLE_LABELS: Record<string, string> = {
+  customer: "Customer",
+  store_owner: "Store",
+  driver: "Driver",
+  system: "System",
+};
+
+const formatStatus = (status: string) => status.replace(/_/g, " ");
+
+/**
+ * Renders the persisted status history of an order (who changed what, and when).
+ */
+export function OrderTimeline({ orderId }: { orderId: Id<"orders"> }) {
+  const { sessionToken } = useAuth();
+  const events = useQuery(
+    api.orderEvents.getOrderTimeline,
+    sessionToken ? { tokenIdentifier: sessionToken, orderId } : "skip"
+  );
+
+  if (events === undefined) {
+    return <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-purple-400" /></div>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 py-2">No status history recorded for this order.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-700 ml-2 space-y-4 py-2">
+      {events.map((event) => (
+        <li key={event._id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-purple-500 border border-gray-900"></div>
+          <p className="text-sm font-medium text-white capitalize">
+            {event.fromStatus ? `${formatStatus(event.fromStatus)} → ` : ""}{formatStatus(event.toStatus)}
+          </p>
+          <p className="text-xs text-gray-400">
+            {event.actorName} ({ROLE_LABELS[event.actorRole] ?? event.actorRole}) · {new Date(event.createdAt).toLocaleString()}
+          </p>
+          {event.note && <p className="text-xs text-gray-300 mt-1 italic">"{event.note}"</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
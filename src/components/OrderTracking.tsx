@@ -0,0 +1,49 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { useAuth } from "../hooks/useAuth";
+import { Clock, Navigation } from "lucide-react";
+
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+/**
+ * Live view of an order that is out for delivery: how far the driver is and when they should arrive.
+ * Falls back to the order's static estimate until the driver shares a location.
+ */
+export function OrderTracking({ orderId, fallbackEstimate }: { orderId: Id<"orders">; fallbackEstimate: string }) {
+  const { sessionToken } = useAuth();
+  const tracking = useQuery(
+    api.tracking.getOrderTracking,
+    sessionToken ? { tokenIdentifier: sessionToken, orderId } : "skip"
+  );
+
+  if (!tracking?.driverLocation) {
+    return (
+      <div className="flex items-center space-x-1">
+        <Clock size={16} />
+        <span>{fallbackEstimate}</span>
+      </div>
+    );
+  }
+
+  const { latitude, longitude } = tracking.driverLocation;
+  const mapUrl = `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+      {tracking.etaMinutes !== null && (
+        <div className="flex items-center space-x-1 text-green-400">
+          <Clock size={16} />
+          <span>Arriving in ~{tracking.etaMinutes} min</span>
+        </div>
+      )}
+      <a href={mapUrl} target="_blank" rel="noopener noreferrer" className="flex items-center space-x-1 hover:text-purple-400 transition-colors">
+        <Navigation size={16} />
+        <span>{tracking.distanceKm !== null ? `Driver is ${formatDistance(tracking.distanceKm)} away` : "See driver on map"}</span>
+      </a>
+      {tracking.stopsAhead > 0 && (
+        <span className="text-gray-400">{tracking.stopsAhead} {tracking.stopsAhead === 1 ? "stop" : "stops"} before yours</span>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { Cart } from "./Cart";
 import { AddReview } from "./AddReview";
 import { formatPiPrice } from "../lib/utils";
 import { useLanguage } from "../context/LanguageContext";
-import { Clock, MapPin, Star, Package, Loader2, Check, X, AlertTriangle, Upload, ShieldAlert, MessageSquare } from "lucide-react";
+import { Clock, MapPin, Star, Package, Loader2, Check, X, AlertTriangle, Upload, ShieldAlert, MessageSquare, History, KeyRound } from "lucide-react";
 import { toast } from "sonner";
 import { useState, Fragment, useMemo, useEffect } from "react";
 import { Doc, Id } from "../../convex/_generated/dataModel";
@@ -13,6 +13,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from "./ui/button";
 import { ChatScreen } from "./chat/ChatScreen";
 import { compressImage } from "../lib/imageUtils";
+import { OrderTimeline } from "./OrderTimeline";
+import { OrderTracking } from "./OrderTracking";
+import { DriverRatingSection } from "./UserRatings";
+import { formatSlot } from "./DeliverySlotPicker";
+import { DeliveryFeeBreakdown } from "./DeliveryFeeBreakdown";
 
 function OrderCardSkeleton() {
   return (
@@ -62,10 +67,15 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
   );
   
   const [processingOrders, setProcessingOrders] = useState<Set<string>>(new Set());
+  const [expandedTimelines, setExpandedTimelines] = useState<Set<string>>(new Set());
   const [reportingOrder, setReportingOrder] = useState<Doc<"orders"> | null>(null);
   const confirmReceiptMutation = useMutation(api.orders.confirmOrderReceipt);
   const { t } = useLanguage();
   const createDisputeMutation = useMutation(api.orders.createDispute);
+  const cancelOrderMutation = useMutation(api.orders.cancelOrder);
+  const [cancellingOrder, setCancellingOrder] = useState<Doc<"orders"> | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
   const generateUploadUrl = useMutation(api.stores.generateUploadUrl);
   const [activeChatId, setActiveChatId] = useState<Id<"conversations"> | null>(null);
   const findOrCreateChat = useMutation(api.chat.findOrCreateConversationForOrder);
@@ -81,7 +91,7 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
   }, [userReviews]);
 
   const currentOrders = orders?.filter(order => 
-    order.status === "confirmed" || order.status === "preparing" || order.status === "out_for_delivery"
+    order.status === "confirmed" || order.status === "preparing" || order.status === "out_for_delivery" || order.status === "ready_for_pickup"
   );
   
   const orderHistory = orders?.filter(order => 
@@ -99,6 +109,7 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
     switch (status) {
       case "preparing": return "bg-yellow-500";
       case "out_for_delivery": return "bg-blue-500";
+      case "ready_for_pickup": return "bg-blue-500";
       case "delivered": return "bg-green-500";
       case "cancelled": return "bg-red-500";
       case "disputed": return "bg-orange-500";
@@ -111,6 +122,7 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
       case "confirmed": return "Confirmed";
       case "preparing": return "Preparing";
       case "out_for_delivery": return "Out for Delivery";
+      case "ready_for_pickup": return "Ready for Pickup";
       case "delivered": return "Delivered";
       case "cancelled": return "Cancelled";
       case "disputed": return "Disputed";
@@ -144,8 +156,8 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
     );
   }
 
-  const OrderStatusTracker = ({ status }: { status: Doc<"orders">["status"] }) => {
-    const statuses: Doc<"orders">["status"][] = ["confirmed", "preparing", "out_for_delivery"];
+  const OrderStatusTracker = ({ status, isPickup }: { status: Doc<"orders">["status"]; isPickup: boolean }) => {
+    const statuses: Doc<"orders">["status"][] = ["confirmed", "preparing", isPickup ? "ready_for_pickup" : "out_for_delivery"];
     const currentStatusIndex = statuses.indexOf(status);
   
     if (currentStatusIndex === -1 || status === 'cancelled' || status === 'delivered') {
@@ -221,6 +233,34 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
     }
   };
 
+  const toggleTimeline = (orderId: Id<"orders">) => {
+    setExpandedTimelines(prev => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const handleCancelOrder = async () => {
+    if (!sessionToken || !cancellingOrder) return;
+    setIsCancelling(true);
+    try {
+      await cancelOrderMutation({
+        tokenIdentifier: sessionToken,
+        orderId: cancellingOrder._id,
+        reason: cancelReason || undefined,
+      });
+      toast.success(cancellingOrder.paymentMethod === 'cash' ? "Order cancelled." : "Order cancelled. Your refund is on its way.");
+      setCancellingOrder(null);
+      setCancelReason("");
+    } catch (error: any) {
+      toast.error("Failed to cancel order.", { description: error.data || error.message });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const handleReportIssue = (order: Doc<"orders">) => {
     setReportingOrder(order);
   };
@@ -241,6 +281,7 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
 
   const OrderCard = ({ order }: { order: Doc<"orders"> }) => {
     const hasReviewed = reviewedStoreIds.has(order.storeId);
+    const isPickup = order.fulfillmentType === 'pickup';
 
     return (
       <div key={order._id} className="bg-gray-800 rounded-2xl p-6 border border-gray-700">
@@ -248,7 +289,7 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
           <div>
             <h3 className="text-xl font-bold text-white">{order.storeName}</h3>
             <p className="text-sm text-gray-400 mt-1">
-              Delivering to: <span className="text-gray-300 font-medium">{order.deliveryAddress}</span>
+              {isPickup ? 'Pickup at: ' : 'Delivering to: '}<span className="text-gray-300 font-medium">{order.deliveryAddress}</span>
             </p>
             <p className="text-gray-400 text-sm">Order #{order._id.slice(-6).toUpperCase()}</p>
           </div>
@@ -286,18 +327,44 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
           ))}
         </div>
 
+        {order.deliveryFee > 0 && (
+          <div className="border-t border-dashed border-gray-700 pt-2 mt-2 space-y-1">
+            <div className="flex justify-between text-sm text-gray-300">
+              <span>Delivery Fee</span>
+              <span className="font-mono">{formatPiPrice(order.deliveryFee)}</span>
+            </div>
+            <DeliveryFeeBreakdown lines={order.deliveryFeeBreakdown} />
+          </div>
+        )}
+        {order.tipAmount !== undefined && order.tipAmount > 0 && (
+          <div className="flex justify-between text-sm text-gray-300 mt-1">
+            <span>Driver Tip</span>
+            <span className="font-mono">{formatPiPrice(order.tipAmount)}</span>
+          </div>
+        )}
         {order.discountAmount && order.discountAmount > 0 && (
           <div className="flex justify-between text-sm text-green-400 border-t border-dashed border-gray-700 pt-2 mt-2">
             <span>Discount Applied</span>
             <span className="font-mono">-{formatPiPrice(order.discountAmount)}</span>
           </div>
         )}
-        <OrderStatusTracker status={order.status} />
+        <OrderStatusTracker status={order.status} isPickup={isPickup} />
+
+        <button
+          onClick={() => toggleTimeline(order._id)}
+          className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors mt-4"
+        >
+          <History size={14} />
+          <span>{expandedTimelines.has(order._id) ? "Hide History" : "View History"}</span>
+        </button>
+        {expandedTimelines.has(order._id) && <OrderTimeline orderId={order._id} />}
+
+        {order.driverId && (order.status === 'delivered' || order.status === 'disputed') && <DriverRatingSection order={order} />}
 
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between pt-4 border-t border-gray-700 mt-4 gap-4">
           {order.status === 'delivered' || order.status === 'cancelled' || order.status === 'disputed' ? (
             <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto">
-              {order.status === 'delivered' && order.paymentStatus !== 'released' && !processingOrders.has(order._id) && (
+              {order.status === 'delivered' && order.paymentStatus !== 'released' && order.paymentStatus !== 'partially_refunded' && !processingOrders.has(order._id) && (
                 <div className="flex items-center gap-2 w-full sm:w-auto order-1 sm:order-2">
                   <button 
                     onClick={() => handleConfirmReceipt(order._id)}
@@ -340,10 +407,28 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
             </div>
           ) : (
             <div className="flex items-center space-x-4 text-gray-400 text-sm">
-              <div className="flex items-center space-x-1">
-                <Clock size={16} />
-                <span>{order.estimatedDeliveryTime}</span>
-              </div>
+              {(order.status === 'out_for_delivery' || order.status === 'ready_for_pickup') && order.handoverCode && (
+                <div className="flex items-center space-x-1 text-purple-300" title={isPickup ? "Show this code at the store to collect your order" : "Give this code to your driver at handover"}>
+                  <KeyRound size={16} />
+                  <span>{isPickup ? 'Pickup code' : 'Handover code'}: <strong className="font-mono tracking-widest">{order.handoverCode}</strong></span>
+                </div>
+              )}
+              {order.status === 'out_for_delivery' ? (
+                <OrderTracking orderId={order._id} fallbackEstimate={order.estimatedDeliveryTime} />
+              ) : (
+                <div className="flex items-center space-x-1">
+                  <Clock size={16} />
+                  <span>{order.scheduledFor ? `Scheduled for ${formatSlot(order.scheduledFor)}` : order.estimatedDeliveryTime}</span>
+                </div>
+              )}
+              {(order.status === 'pending' || order.status === 'confirmed') && (
+                <button
+                  onClick={() => setCancellingOrder(order)}
+                  className="bg-red-500/10 border border-red-500/30 text-red-400 hover:bg-red-500/20 px-3 py-1.5 rounded-lg text-sm font-medium transition-all"
+                >
+                  Cancel Order
+                </button>
+              )}
             </div>
           )}
           <div className="text-lg sm:text-xl font-bold text-white font-mono self-end sm:self-auto">
@@ -471,6 +556,38 @@ export function OrdersPage({ onNavigateToChat }: { onNavigateToChat?: (conversat
         </div>
       )}
 
+      {/* Cancel Order Dialog */}
+      <Dialog open={!!cancellingOrder} onOpenChange={(open) => !open && setCancellingOrder(null)}>
+        <DialogContent className="bg-gray-900 border-gray-700 text-white sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Cancel this order?</DialogTitle>
+            <DialogDescription className="text-gray-400">
+              {cancellingOrder?.paymentMethod === 'cash' ? (
+                "The store hasn't started preparing your order yet. Nothing has been charged for this cash order."
+              ) : (
+                <>
+                  The store hasn't started preparing your order yet, so you'll receive a full refund of{" "}
+                  {cancellingOrder ? formatPiPrice(cancellingOrder.totalAmount) : ""} to your Pi wallet.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <textarea
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+            placeholder="Reason for cancelling (optional)"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => setCancellingOrder(null)}>Keep Order</Button>
+            <Button onClick={handleCancelOrder} disabled={isCancelling} className="bg-red-600 hover:bg-red-700 text-white">
+              {isCancelling ? <Loader2 className="animate-spin h-4 w-4" /> : "Cancel & Refund"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Report Issue Dialog */}
       <Dialog open={!!reportingOrder} onOpenChange={(open) => !open && setReportingOrder(null)}>
         <DialogContent className="bg-gray-900 border-gray-700 text-white sm:max-w-[500px]">
@@ -10,6 +10,8 @@ interface PiPaymentProps {
   amount: number;
   memo: string;
   metadata: PaymentMetadata; // Use the specific type instead of 'any'
+  // Called when the customer starts paying; the amount and metadata it returns replace the props (e.g. a server-priced quote).
+  prepareCheckout?: () => Promise<{ amount: number; metadata: PaymentMetadata }>;
   onPaymentSuccess?: (paymentId: string, txid: string) => void;
   onPaymentCancel?: (paymentId: string) => void;
   onPaymentError?: (error: Error) => void;
@@ -21,6 +23,7 @@ export function PiPayment({
   amount,
   memo,
   metadata,
+  prepareCheckout,
   onPaymentSuccess,
   onPaymentCancel,
   onPaymentError,
@@ -120,13 +123,15 @@ export function PiPayment({
       setIsProcessing(true);
       setPaymentTimedOut(false);
       setIsConfirming(false);
+
+      const checkout = prepareCheckout ? await prepareCheckout() : { amount, metadata };
       
       await createPayment(
         {
-          amount,
+          amount: checkout.amount,
           memo,
           metadata: {
-            ...metadata,
+            ...checkout.metadata,
             timestamp: Date.now(),
           },
         },
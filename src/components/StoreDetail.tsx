@@ -8,8 +8,9 @@ import { ProductItemDetailModal } from "./ProductItemDetailModal";
 import { ShareButton } from "./ShareButton";
 import { toast } from "sonner";
 import { useState, useRef, useEffect, useMemo, useCallback } from "react";
-import { Doc, Id } from "../../convex/_generated/dataModel";import { ArrowLeft, Clock, Loader2, MapPin, Phone, Star, Tag, Truck, StarHalf, AlignJustify, Image as ImageIcon, Info, X, ExternalLink, ChevronLeft, ChevronRight, Heart, Bell, BellOff, Briefcase, MessageSquare } from "lucide-react";
+import { Doc, Id } from "../../convex/_generated/dataModel";import { ArrowLeft, Clock, Loader2, MapPin, Phone, Star, Tag, Truck, StarHalf, AlignJustify, Image as ImageIcon, Info, X, ExternalLink, ChevronLeft, ChevronRight, Heart, Bell, BellOff, Briefcase, MessageSquare, ShoppingBag } from "lucide-react";
 import { formatPiPrice } from "../lib/utils";
+import { FulfillmentToggle, storeOffersPickup } from "./FulfillmentToggle";
 
 interface StoreDetailProps {
   storeId: Id<"stores">;
@@ -536,6 +537,7 @@ export function StoreDetail({ storeId, onBack, onNavigateToChat }: StoreDetailPr
               <div className="flex items-start space-x-3"><MapPin size={18} className="text-purple-400 flex-shrink-0 mt-0.5" /><span className="text-sm">{store.address}</span></div>
               {store.phone && <div className="flex items-start space-x-3"><Phone size={18} className="text-purple-400 flex-shrink-0 mt-0.5" /><span className="text-sm">{store.phone}</span></div>}
               {store.hasDelivery && <div className="flex items-start space-x-3 text-green-400"><Truck size={18} className="flex-shrink-0 mt-0.5" /><span className="text-sm">Delivery Available</span></div>}
+              {storeOffersPickup(store) && <div className="flex items-start space-x-3 text-green-400"><ShoppingBag size={18} className="flex-shrink-0 mt-0.5" /><span className="text-sm">Pickup Available</span></div>}
               {store.dietaryOptions.length > 0 && (
                 <div className="flex items-start space-x-3 lg:col-span-2">
                   <Info size={18} className="text-purple-400 flex-shrink-0 mt-0.5" />
@@ -555,6 +557,10 @@ export function StoreDetail({ storeId, onBack, onNavigateToChat }: StoreDetailPr
                 <span className="text-sm font-semibold">More Store Info</span>
               </button>
             </div>
+
+            <div className="mt-6 max-w-xs">
+              <FulfillmentToggle store={store} />
+            </div>
             
             {/* Apply for Job Button */}
             {store.isRecruitingDrivers && (
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc } from "../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Star } from "lucide-react";
+import { useAuth } from "../hooks/useAuth";
+
+type Rating = { average: number; count: number } | null;
+
+/**
+ * A user's aggregate score, e.g. "★ 4.7 (12)".
+ */
+export function RatingSummary({ rating, emptyText = "No ratings yet" }: { rating: Rating; emptyText?: string }) {
+  if (!rating) {
+    return <span className="text-xs text-gray-500">{emptyText}</span>;
+  }
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-yellow-400" title={`${rating.count} ratings`}>
+      <Star size={12} className="fill-yellow-400" />
+      {rating.average.toFixed(1)}
+      <span className="text-gray-500">({rating.count})</span>
+    </span>
+  );
+}
+
+/**
+ * A compact star picker with an optional comment, for rating the other side of a delivery.
+ */
+export function RateUserForm({ title, onSubmit }: { title: string; onSubmit: (rating: number, comment: string) => Promise<void> }) {
+  const [rating, setRating] = useState(0);
+  const [hoveredRating, setHoveredRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (rating === 0) {
+      toast.error("Please select a rating");
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(rating, comment.trim());
+      toast.success("Thanks for your rating!");
+    } catch (error: any) {
+      toast.error("Failed to submit your rating.", { description: error.data || error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-300">{title}</p>
+      <div className="flex items-center gap-1">
+        {[1, 2, 3, 4, 5].map((i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => setRating(i)}
+            onMouseEnter={() => setHoveredRating(i)}
+            onMouseLeave={() => setHoveredRating(0)}
+            className="p-0.5 transition-transform hover:scale-125 focus:outline-none"
+            aria-label={`${i} stars`}
+          >
+            <Star size={20} className={i <= (hoveredRating || rating) ? "text-yellow-400 fill-yellow-400" : "text-gray-600"} />
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment (optional)"
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-xl px-3 py-1.5 text-sm text-white focus:border-purple-500 focus:ring-purple-500"
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={isSubmitting || rating === 0}
+          className="bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white px-3 py-1.5 rounded-xl text-sm font-medium"
+        >
+          Submit
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The driver's score on a customer's order, and a form to rate them once the customer has confirmed receipt.
+ */
+export function DriverRatingSection({ order }: { order: Doc<"orders"> }) {
+  const { sessionToken } = useAuth();
+  const ratings = useQuery(
+    api.ratings.getOrderRatings,
+    sessionToken && order.driverId ? { tokenIdentifier: sessionToken, orderId: order._id } : "skip"
+  );
+  const rateDriver = useMutation(api.ratings.rateDriver);
+
+  if (!ratings || !sessionToken) return null;
+  const canRate = order.status === "delivered" && (order.receiptConfirmedAt !== undefined || order.paymentStatus === "released");
+
+  return (
+    <div className="border-t border-gray-700 pt-3 mt-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm text-gray-300">
+        <span>Your driver</span>
+        <RatingSummary rating={ratings.driverRating} />
+      </div>
+      {ratings.myRating ? (
+        <p className="text-xs text-gray-400">You rated this delivery {ratings.myRating.rating}★{ratings.myRating.comment && ` · "${ratings.myRating.comment}"`}</p>
+      ) : canRate && (
+        <RateUserForm
+          title="How was your delivery?"
+          onSubmit={async (rating, comment) => {
+            await rateDriver({ tokenIdentifier: sessionToken, orderId: order._id, rating, comment });
+          }}
+        />
+      )}
+    </div>
+  );
+}
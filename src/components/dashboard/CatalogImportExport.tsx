@@ -0,0 +1,236 @@
+import { ChangeEvent, useState } from 'react';
+import { useConvex, useMutation, useQuery } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { ArrowLeft, Download, FileUp, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { CatalogRow, CATALOG_COLUMNS, catalogToCsv, catalogToJson, parseCatalogFile } from '../../lib/catalogFile';
+
+type ImportPreview = FunctionReturnType<typeof api.catalog.previewCatalogImport>;
+
+const EXPORT_PAGE_SIZE = 200;
+const MAX_PREVIEW_ROWS = 100;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports the store's full catalog as CSV or JSON, and imports a catalog file in the same format:
+ * the file is checked row by row first, then upserted in the background.
+ */
+export function CatalogImportExport({ storeId, onBack }: { storeId: Id<'stores'>; onBack: () => void }) {
+  const { sessionToken } = useAuth();
+  const convex = useConvex();
+  const startCatalogImport = useMutation(api.catalog.startCatalogImport);
+  const latestImport = useQuery(
+    api.catalog.getLatestCatalogImport,
+    sessionToken ? { tokenIdentifier: sessionToken, storeId } : "skip"
+  );
+
+  const [file, setFile] = useState<{ name: string; rows: CatalogRow[] } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<'csv' | 'json' | null>(null);
+
+  const isImportRunning = latestImport?.status === 'running';
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!sessionToken) return;
+    setExportingFormat(format);
+    try {
+      const rows: CatalogRow[] = [];
+      let cursor: string | null = null;
+      let isDone = false;
+      while (!isDone) {
+        const result: FunctionReturnType<typeof api.catalog.exportCatalogPage> = await convex.query(api.catalog.exportCatalogPage, {
+          tokenIdentifier: sessionToken,
+          storeId,
+          paginationOpts: { cursor, numItems: EXPORT_PAGE_SIZE },
+        });
+        rows.push(...result.page);
+        cursor = result.continueCursor;
+        isDone = result.isDone;
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === 'csv') downloadFile(catalogToCsv(rows), `catalog-${date}.csv`, 'text/csv');
+      else downloadFile(catalogToJson(rows), `catalog-${date}.json`, 'application/json');
+      toast.success(`Exported ${rows.length} products.`);
+    } catch (error: any) {
+      toast.error('Failed to export the catalog.', { description: error.data || error.message });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected || !sessionToken) return;
+
+    setFile(null);
+    setPreview(null);
+    setIsChecking(true);
+    try {
+      const rows = parseCatalogFile(selected.name, await selected.text());
+      setFile({ name: selected.name, rows });
+      setPreview(await convex.query(api.catalog.previewCatalogImport, { tokenIdentifier: sessionToken, storeId, rows }));
+    } catch (error: any) {
+      toast.error('Could not read the catalog file.', { description: error.data || error.message });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!sessionToken || !file) return;
+    setIsStarting(true);
+    try {
+      await startCatalogImport({ tokenIdentifier: sessionToken, storeId, rows: file.rows, fileName: file.name });
+      toast.success('Import started. Products are added in the background.');
+      setFile(null);
+      setPreview(null);
+    } catch (error: any) {
+      toast.error('Failed to start the import.', { description: error.data || error.message });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const rowsWithIssues = preview?.rows.filter((row) => row.errors.length > 0 || row.warnings.length > 0) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <button onClick={onBack} className="p-2 text-gray-400 hover:text-white transition-colors rounded-full hover:bg-gray-700/50">
+          <ArrowLeft size={20} />
+        </button>
+        <h3 className="text-xl font-bold text-white">Import & Export Catalog</h3>
+      </div>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle>Export</CardTitle>
+          <CardDescription className="text-gray-400">Download every product. Edit the file and import it again to update products in bulk.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-3">
+          {(['csv', 'json'] as const).map((format) => (
+            <Button key={format} variant="outline" onClick={() => handleExport(format)} disabled={exportingFormat !== null} className="border-gray-700">
+              {exportingFormat === format ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+              Export {format.toUpperCase()}
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gray-900/50 border-gray-800">
+        <CardHeader>
+          <CardTitle>Import</CardTitle>
+          <CardDescription className="text-gray-400">
+            Upload a CSV or JSON file with the columns <span className="font-mono text-gray-300">{CATALOG_COLUMNS.join(', ')}</span>.
+            Rows are matched to products by id, then by SKU; unmatched rows create new products. Empty cells leave a product's field unchanged,
+            and missing categories are created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className={`flex items-center justify-center gap-2 border-2 border-dashed border-gray-700 rounded-xl p-6 text-gray-400 ${isImportRunning ? 'opacity-60' : 'cursor-pointer hover:border-purple-500 hover:text-white'}`}>
+            {isChecking ? <Loader2 className="h-5 w-5 animate-spin" /> : <FileUp className="h-5 w-5" />}
+            <span>{isChecking ? 'Checking the file...' : file ? file.name : 'Choose a .csv or .json file'}</span>
+            <input type="file" accept=".csv,.json" onChange={handleFileChange} disabled={isChecking || isImportRunning} className="hidden" />
+          </label>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="outline" className="border-green-500/40 bg-green-500/10 text-green-400">{preview.toCreate} new</Badge>
+                <Badge variant="outline" className="border-blue-500/40 bg-blue-500/10 text-blue-400">{preview.toUpdate} to update</Badge>
+                {preview.errorCount > 0 && (
+                  <Badge variant="outline" className="border-red-500/40 bg-red-500/10 text-red-400">{preview.errorCount} with errors</Badge>
+                )}
+              </div>
+              {preview.newCategories.length > 0 && (
+                <p className="text-sm text-gray-400">New categories: {preview.newCategories.join(', ')}</p>
+              )}
+
+              {rowsWithIssues.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-b-gray-800 hover:bg-gray-900/30">
+                      <TableHead className="text-gray-400 font-semibold">Row</TableHead>
+                      <TableHead className="text-gray-400 font-semibold">Product</TableHead>
+                      <TableHead className="text-gray-400 font-semibold">Issues</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rowsWithIssues.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+                      <TableRow key={row.rowNumber} className="border-gray-800 hover:bg-gray-900/50">
+                        <TableCell className="font-mono text-gray-400">{row.rowNumber}</TableCell>
+                        <TableCell className="text-gray-100">
+                          {row.name || <span className="text-gray-500">Unnamed</span>}
+                          <p className="text-xs text-gray-500">{row.action === 'create' ? 'New product' : 'Update'}</p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.errors.map((error) => <p key={error} className="text-red-400">{error}</p>)}
+                          {row.warnings.map((warning) => <p key={warning} className="text-yellow-400">{warning}</p>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {rowsWithIssues.length > MAX_PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500">Showing the first {MAX_PREVIEW_ROWS} of {rowsWithIssues.length} rows with issues.</p>
+              )}
+
+              <Button
+                onClick={handleStartImport}
+                disabled={isStarting || isImportRunning || preview.errorCount > 0}
+                className="w-full bg-purple-600 hover:bg-purple-700"
+              >
+                {isStarting ? <Loader2 className="h-4 w-4 animate-spin" /> : preview.errorCount > 0
+                  ? 'Fix the errors to import'
+                  : `Import ${preview.toCreate + preview.toUpdate} products`}
+              </Button>
+            </div>
+          )}
+
+          {latestImport && (
+            <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-300">
+                  {isImportRunning ? 'Importing' : 'Last import'}{latestImport.fileName && `: ${latestImport.fileName}`}
+                </span>
+                <span className="text-gray-400 font-mono">{latestImport.processed} / {latestImport.total}</span>
+              </div>
+              <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-purple-500 transition-all"
+                  style={{ width: `${latestImport.total > 0 ? (latestImport.processed / latestImport.total) * 100 : 100}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500">
+                {latestImport.created} created · {latestImport.updated} updated · {latestImport.failedRows.length} failed
+                {latestImport.finishedAt && ` · finished ${new Date(latestImport.finishedAt).toLocaleString()}`}
+              </p>
+              {latestImport.failedRows.map((failed) => (
+                <p key={failed.rowNumber} className="text-xs text-red-400">Row {failed.rowNumber}: {failed.errors.join(' ')}</p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { useAuth } from "../../hooks/useAuth";
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500";
+
+type TierForm = { upToKm: string; perKmFee: string };
+type SurgeForm = { label: string; multiplier: string; startHour: string; endHour: string; isActive: boolean };
+
+const emptySurge: SurgeForm = { label: "", multiplier: "1.5", startHour: "", endHour: "", isActive: false };
+
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : parseFloat(value));
+const toInput = (value?: number) => (value === undefined ? "" : String(value));
+
+/**
+ * Lets a store owner set how delivery is priced: a base fee, per-km distance tiers,
+ * a small-order surcharge, a free-delivery threshold and surge multipliers.
+ * Delivery zones, when drawn, replace the base fee and distance rate.
+ */
+export function DeliveryPricingManager({ storeId }: { storeId: Id<"stores"> }) {
+  const { sessionToken } = useAuth();
+  const savedRules = useQuery(
+    api.deliveryPricing.getDeliveryPricing,
+    sessionToken ? { tokenIdentifier: sessionToken, storeId } : "skip"
+  );
+  const savePricing = useMutation(api.deliveryPricing.saveDeliveryPricing);
+
+  const [baseFee, setBaseFee] = useState("");
+  const [tiers, setTiers] = useState<TierForm[]>([{ upToKm: "", perKmFee: "" }]);
+  const [smallOrderThreshold, setSmallOrderThreshold] = useState("");
+  const [smallOrderSurcharge, setSmallOrderSurcharge] = useState("");
+  const [freeDeliveryThreshold, setFreeDeliveryThreshold] = useState("");
+  const [surges, setSurges] = useState<SurgeForm[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!savedRules) return;
+    setBaseFee(toInput(savedRules.baseFee));
+    setTiers(savedRules.distanceTiers.map((tier) => ({ upToKm: toInput(tier.upToKm), perKmFee: toInput(tier.perKmFee) })));
+    setSmallOrderThreshold(toInput(savedRules.smallOrderThreshold));
+    setSmallOrderSurcharge(toInput(savedRules.smallOrderSurcharge));
+    setFreeDeliveryThreshold(toInput(savedRules.freeDeliveryThreshold));
+    setSurges(savedRules.surges.map((surge) => ({
+      label: surge.label,
+      multiplier: toInput(surge.multiplier),
+      startHour: toInput(surge.startHour),
+      endHour: toInput(surge.endHour),
+      isActive: surge.isActive ?? false,
+    })));
+  }, [savedRules]);
+
+  const updateTier = (index: number, field: keyof TierForm, value: string) =>
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+
+  const updateSurge = <K extends keyof SurgeForm>(index: number, field: K, value: SurgeForm[K]) =>
+    setSurges((prev) => prev.map((surge, i) => (i === index ? { ...surge, [field]: value } : surge)));
+
+  const handleSave = async () => {
+    if (!sessionToken) {
+      toast.error("Authentication error. Please log in again.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await savePricing({
+        tokenIdentifier: sessionToken,
+        storeId,
+        baseFee: optionalNumber(baseFee) ?? 0,
+        distanceTiers: tiers
+          .filter((tier) => tier.perKmFee.trim() !== "")
+          .map((tier) => ({ upToKm: optionalNumber(tier.upToKm), perKmFee: parseFloat(tier.perKmFee) })),
+        smallOrderThreshold: optionalNumber(smallOrderThreshold),
+        smallOrderSurcharge: optionalNumber(smallOrderSurcharge),
+        freeDeliveryThreshold: optionalNumber(freeDeliveryThreshold),
+        surges: surges
+          .filter((surge) => surge.label.trim() !== "")
+          .map((surge) => {
+            const startHour = optionalNumber(surge.startHour);
+            const endHour = optionalNumber(surge.endHour);
+            return {
+              label: surge.label.trim(),
+              multiplier: parseFloat(surge.multiplier),
+              startHour,
+              endHour,
+              // Time windows apply on their own; the switch only matters for manual surges.
+              isActive: startHour === undefined && endHour === undefined ? surge.isActive : undefined,
+            };
+          }),
+        // Surge hours are entered in the owner's local time.
+        utcOffsetMinutes: -new Date().getTimezoneOffset(),
+      });
+      toast.success("Delivery pricing saved.");
+    } catch (error: any) {
+      toast.error("Failed to save delivery pricing.", { description: error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700 space-y-4">
+      <div>
+        <h4 className="text-white font-medium">Delivery Fee Rules</h4>
+        <p className="text-sm text-gray-400">
+          How delivery is priced outside your zones. Customers see each part of the fee at checkout.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input type="number" min="0" step="any" placeholder="Base fee (π)" value={baseFee} onChange={(e) => setBaseFee(e.target.value)} className={inputClassName} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-300">Distance tiers, nearest first. Leave "up to" empty on the last tier.</p>
+        {tiers.map((tier, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input type="number" min="0" step="any" placeholder="Up to (km)" value={tier.upToKm} onChange={(e) => updateTier(index, "upToKm", e.target.value)} className={inputClassName} />
+            <input type="number" min="0" step="any" placeholder="Fee per km (π)" value={tier.perKmFee} onChange={(e) => updateTier(index, "perKmFee", e.target.value)} className={inputClassName} />
+            <Button type="button" variant="ghost" size="sm" onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300 hover:bg-red-500/10">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setTiers((prev) => [...prev, { upToKm: "", perKmFee: "" }])} className="border-gray-600 text-gray-300">
+          <Plus className="mr-2 h-4 w-4" /> Add Tier
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <input type="number" min="0" step="any" placeholder="Small order under (π)" value={smallOrderThreshold} onChange={(e) => setSmallOrderThreshold(e.target.value)} className={inputClassName} />
+        <input type="number" min="0" step="any" placeholder="Small order surcharge (π)" value={smallOrderSurcharge} onChange={(e) => setSmallOrderSurcharge(e.target.value)} className={inputClassName} />
+        <input type="number" min="0" step="any" placeholder="Free delivery over (π)" value={freeDeliveryThreshold} onChange={(e) => setFreeDeliveryThreshold(e.target.value)} className={inputClassName} />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-300">Surges multiply the fee. Give hours (0–24, your local time) for a daily window, or leave them empty and switch the surge on by hand.</p>
+        {surges.map((surge, index) => (
+          <div key={index} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-center">
+            <input type="text" placeholder="Label, e.g. Rain" value={surge.label} onChange={(e) => updateSurge(index, "label", e.target.value)} className={`${inputClassName} col-span-2`} />
+            <input type="number" min="1" step="0.1" placeholder="×" value={surge.multiplier} onChange={(e) => updateSurge(index, "multiplier", e.target.value)} className={inputClassName} />
+            <input type="number" min="0" max="24" placeholder="From" value={surge.startHour} onChange={(e) => updateSurge(index, "startHour", e.target.value)} className={inputClassName} />
+            <input type="number" min="0" max="24" placeholder="To" value={surge.endHour} onChange={(e) => updateSurge(index, "endHour", e.target.value)} className={inputClassName} />
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-1 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={surge.isActive}
+                  disabled={surge.startHour !== "" || surge.endHour !== ""}
+                  onChange={(e) => updateSurge(index, "isActive", e.target.checked)}
+                  className="rounded border-gray-500 text-purple-600 focus:ring-purple-500 bg-gray-700"
+                />
+                On
+              </label>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSurges((prev) => prev.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300 hover:bg-red-500/10">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => setSurges((prev) => [...prev, emptySurge])} className="border-gray-600 text-gray-300">
+          <Plus className="mr-2 h-4 w-4" /> Add Surge
+        </Button>
+      </div>
+
+      <Button type="button" onClick={handleSave} disabled={isSaving} className="bg-purple-600 hover:bg-purple-700 text-white">
+        Save Delivery Pricing
+      </Button>
+    </div>
+  );
+}
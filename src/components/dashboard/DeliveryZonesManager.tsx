@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Plus, Trash2, Hexagon, Circle } from "lucide-react";
+import { Button } from "../ui/button";
+import { useAuth } from "../../hooks/useAuth";
+import { formatPiPrice } from "../../lib/utils";
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500";
+
+const emptyZone = {
+  name: "",
+  type: "radius" as "radius" | "polygon",
+  innerRadiusKm: "",
+  radiusKm: "",
+  points: "",
+  baseFee: "",
+  perKmFee: "",
+  minimumOrderValue: "",
+  maxDistanceKm: "",
+};
+
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : parseFloat(value));
+
+// One "latitude, longitude" pair per line.
+function parsePolygonPoints(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [latitude, longitude] = line.split(",").map((part) => parseFloat(part.trim()));
+      if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+        throw new Error(`"${line}" is not a valid "latitude, longitude" point.`);
+      }
+      return { latitude, longitude };
+    });
+}
+
+/**
+ * Lets a store owner draw delivery zones as polygons or as rings around the store, each with its own pricing.
+ */
+export function DeliveryZonesManager({ storeId }: { storeId: Id<"stores"> }) {
+  const { sessionToken } = useAuth();
+  const zones = useQuery(api.deliveryZones.getDeliveryZonesByStore, { storeId });
+  const createZone = useMutation(api.deliveryZones.createDeliveryZone);
+  const deleteZone = useMutation(api.deliveryZones.deleteDeliveryZone);
+  const [newZone, setNewZone] = useState(emptyZone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateField = (field: keyof typeof emptyZone) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+    setNewZone((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleAddZone = async () => {
+    if (!sessionToken) {
+      toast.error("Authentication error. Please log in again.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const shape = newZone.type === "polygon"
+        ? { type: "polygon" as const, points: parsePolygonPoints(newZone.points) }
+        : { type: "radius" as const, innerRadiusKm: optionalNumber(newZone.innerRadiusKm), radiusKm: parseFloat(newZone.radiusKm) };
+      await createZone({
+        tokenIdentifier: sessionToken,
+        storeId,
+        name: newZone.name,
+        shape,
+        baseFee: optionalNumber(newZone.baseFee) ?? 0,
+        perKmFee: optionalNumber(newZone.perKmFee) ?? 0,
+        minimumOrderValue: optionalNumber(newZone.minimumOrderValue),
+        maxDistanceKm: optionalNumber(newZone.maxDistanceKm),
+      });
+      toast.success(`Delivery zone "${newZone.name}" added.`);
+      setNewZone(emptyZone);
+    } catch (error: any) {
+      toast.error("Failed to add delivery zone.", { description: error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteZone = async (zoneId: Id<"deliveryZones">) => {
+    if (!sessionToken) return;
+    try {
+      await deleteZone({ tokenIdentifier: sessionToken, zoneId });
+      toast.success("Delivery zone removed.");
+    } catch (error: any) {
+      toast.error("Failed to remove delivery zone.", { description: error.data });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700 space-y-4">
+      <div>
+        <h4 className="text-white font-medium">Delivery Areas & Pricing</h4>
+        <p className="text-sm text-gray-400">
+          Draw the areas you deliver to. Once you add a zone, customers are matched on their address location instead of the city list above.
+        </p>
+      </div>
+
+      {zones && zones.length > 0 && (
+        <div className="space-y-2">
+          {zones.map((zone) => (
+            <div key={zone._id} className="flex items-center justify-between gap-3 p-3 bg-gray-900 rounded-lg">
+              <div className="flex items-start gap-3">
+                {zone.shape.type === "polygon" ? <Hexagon className="h-5 w-5 text-purple-400 mt-0.5" /> : <Circle className="h-5 w-5 text-purple-400 mt-0.5" />}
+                <div>
+                  <p className="text-white font-medium">{zone.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {zone.shape.type === "polygon"
+                      ? `Polygon with ${zone.shape.points.length} points`
+                      : `${zone.shape.innerRadiusKm ?? 0}–${zone.shape.radiusKm} km from the store`}
+                    {" · "}{formatPiPrice(zone.baseFee)} + {formatPiPrice(zone.perKmFee)}/km
+                    {zone.minimumOrderValue !== undefined && ` · Min. order ${formatPiPrice(zone.minimumOrderValue)}`}
+                    {zone.maxDistanceKm !== undefined && ` · Max. ${zone.maxDistanceKm} km`}
+                  </p>
+                </div>
+              </div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteZone(zone._id)} className="text-red-400 hover:text-red-300 hover:bg-red-500/10">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input type="text" placeholder="Zone name, e.g. Downtown" value={newZone.name} onChange={updateField("name")} className={inputClassName} />
+        <select value={newZone.type} onChange={updateField("type")} className={inputClassName}>
+          <option value="radius">Ring around the store</option>
+          <option value="polygon">Polygon</option>
+        </select>
+        {newZone.type === "radius" ? (
+          <>
+            <input type="number" min="0" step="any" placeholder="From (km, optional)" value={newZone.innerRadiusKm} onChange={updateField("innerRadiusKm")} className={inputClassName} />
+            <input type="number" min="0" step="any" placeholder="Up to (km)" value={newZone.radiusKm} onChange={updateField("radiusKm")} className={inputClassName} />
+          </>
+        ) : (
+          <textarea
+            rows={4}
+            placeholder={"One point per line: latitude, longitude\n30.0444, 31.2357\n30.0500, 31.2500\n30.0300, 31.2600"}
+            value={newZone.points}
+            onChange={updateField("points")}
+            className={`${inputClassName} md:col-span-2 font-mono text-sm`}
+          />
+        )}
+        <input type="number" min="0" step="any" placeholder="Base fee (π)" value={newZone.baseFee} onChange={updateField("baseFee")} className={inputClassName} />
+        <input type="number" min="0" step="any" placeholder="Fee per km (π)" value={newZone.perKmFee} onChange={updateField("perKmFee")} className={inputClassName} />
+        <input type="number" min="0" step="any" placeholder="Minimum order (π, optional)" value={newZone.minimumOrderValue} onChange={updateField("minimumOrderValue")} className={inputClassName} />
+        <input type="number" min="0" step="any" placeholder="Maximum distance (km, optional)" value={newZone.maxDistanceKm} onChange={updateField("maxDistanceKm")} className={inputClassName} />
+      </div>
+      <Button type="button" onClick={handleAddZone} disabled={isSaving || !newZone.name.trim()} className="bg-purple-600 hover:bg-purple-700 text-white">
+        <Plus className="mr-2 h-4 w-4" /> Add Zone
+      </Button>
+    </div>
+  );
+}
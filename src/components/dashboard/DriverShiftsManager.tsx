@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import { Id } from "../../../convex/_generated/dataModel";
+import { toast } from "sonner";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
+import { Button } from "../ui/button";
+import { useAuth } from "../../hooks/useAuth";
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500";
+
+const emptyShift = { date: "", startTime: "", endTime: "", slots: "1", note: "" };
+
+const formatShiftTime = (startsAt: number, endsAt: number) => {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  return `${start.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })} · ${time(start)}–${time(end)}`;
+};
+
+/**
+ * Lets a store owner publish shift slots for their drivers and see who took them.
+ */
+export function DriverShiftsManager({ storeId }: { storeId: Id<"stores"> }) {
+  const { sessionToken } = useAuth();
+  const shifts = useQuery(
+    api.driverShifts.getShiftsForStore,
+    sessionToken ? { tokenIdentifier: sessionToken, storeId } : "skip"
+  );
+  const createShift = useMutation(api.driverShifts.createShift);
+  const deleteShift = useMutation(api.driverShifts.deleteShift);
+  const [newShift, setNewShift] = useState(emptyShift);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateField = (field: keyof typeof emptyShift) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setNewShift((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleAddShift = async () => {
+    if (!sessionToken) {
+      toast.error("Authentication error. Please log in again.");
+      return;
+    }
+    const startsAt = new Date(`${newShift.date}T${newShift.startTime}`).getTime();
+    let endsAt = new Date(`${newShift.date}T${newShift.endTime}`).getTime();
+    // A shift ending at or before its start time runs past midnight.
+    if (endsAt <= startsAt) endsAt += 24 * 60 * 60 * 1000;
+
+    setIsSaving(true);
+    try {
+      await createShift({
+        tokenIdentifier: sessionToken,
+        storeId,
+        startsAt,
+        endsAt,
+        slots: parseInt(newShift.slots, 10),
+        note: newShift.note,
+      });
+      toast.success("Shift published.");
+      setNewShift(emptyShift);
+    } catch (error: any) {
+      toast.error("Failed to publish the shift.", { description: error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteShift = async (shiftId: Id<"driverShifts">) => {
+    if (!sessionToken) return;
+    try {
+      await deleteShift({ tokenIdentifier: sessionToken, shiftId });
+      toast.success("Shift removed.");
+    } catch (error: any) {
+      toast.error("Failed to remove the shift.", { description: error.data });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold text-purple-400"><CalendarClock className="h-5 w-5" /> Shift Schedule</CardTitle>
+        <CardDescription className="text-gray-400">Publish shifts and your drivers can sign up for them from their dashboard.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shifts && shifts.length > 0 && (
+          <div className="space-y-2">
+            {shifts.map((shift) => (
+              <div key={shift._id} className="flex items-center justify-between gap-3 p-3 bg-gray-800/50 rounded-lg border border-gray-700">
+                <div>
+                  <p className="text-white font-medium">{formatShiftTime(shift.startsAt, shift.endsAt)}</p>
+                  <p className="text-xs text-gray-400">
+                    {shift.driverIds.length}/{shift.slots} slots taken
+                    {shift.driverNames.length > 0 && ` · ${shift.driverNames.join(", ")}`}
+                    {shift.note && ` · ${shift.note}`}
+                  </p>
+                </div>
+                <Button type="button" variant="ghost" size="sm" onClick={() => handleDeleteShift(shift._id)} className="text-red-400 hover:text-red-300 hover:bg-red-500/10">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <input type="date" value={newShift.date} onChange={updateField("date")} className={`${inputClassName} col-span-2 md:col-span-1`} />
+          <input type="time" value={newShift.startTime} onChange={updateField("startTime")} className={inputClassName} aria-label="Shift start" />
+          <input type="time" value={newShift.endTime} onChange={updateField("endTime")} className={inputClassName} aria-label="Shift end" />
+          <input type="number" min="1" placeholder="Drivers" value={newShift.slots} onChange={updateField("slots")} className={inputClassName} aria-label="Driver slots" />
+          <input type="text" placeholder="Note (optional)" value={newShift.note} onChange={updateField("note")} className={inputClassName} />
+        </div>
+        <Button
+          type="button"
+          onClick={handleAddShift}
+          disabled={isSaving || !newShift.date || !newShift.startTime || !newShift.endTime}
+          className="bg-purple-600 hover:bg-purple-700 text-white"
+        >
+          <Plus className="mr-2 h-4 w-4" /> Publish Shift
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,20 +22,23 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "../ui/alert-dialog";
+import { DriverShiftsManager } from './DriverShiftsManager';
+import { RatingSummary } from '../UserRatings';
 
 // Extend the profile type to include the generated URL from the backend
 type ProfileWithImage = Doc<"userProfiles"> & { profileImageUrl: string | null };
 
-type DriverWithProfile = Doc<"storeDrivers"> & { profile: ProfileWithImage | null; name: string; };
+type DriverWithProfile = Doc<"storeDrivers"> & { profile: ProfileWithImage | null; name: string; load: number; maxConcurrentDeliveries: number; meetsMinRating: boolean; isAvailable: boolean; };
 
 interface DriverCardProps {
   driver: DriverWithProfile;
   onManage: (linkId: Id<"storeDrivers">, action: 'approve' | 'reject' | 'deactivate' | 'reactivate' | 'fire') => void;
   onStartChat: (driverId: Id<"users">) => void;
+  onSetCap: (linkId: Id<"storeDrivers">, maxConcurrentDeliveries: number) => void;
   isLoading: boolean;
 }
 
-function DriverCard({ driver, onManage, onStartChat, isLoading }: DriverCardProps) {
+function DriverCard({ driver, onManage, onStartChat, onSetCap, isLoading }: DriverCardProps) {
   const { status, profile } = driver;
 
   // Construct the full name from the profile, falling back to the user's name
@@ -59,12 +62,39 @@ function DriverCard({ driver, onManage, onStartChat, isLoading }: DriverCardProp
         <div>
           <p className="font-semibold text-white">{fullName}</p>
           <p className="text-sm text-gray-400">{profile?.piUsername ? `@${profile.piUsername}` : 'No Pi username'}</p>
+          <div className="flex items-center gap-2 mt-1">
+            <RatingSummary
+              rating={profile?.driverRatingCount ? { average: profile.driverRating ?? 0, count: profile.driverRatingCount } : null}
+              emptyText="Not rated yet"
+            />
+            {!driver.meetsMinRating && <span className="text-xs text-red-400">Below your minimum rating</span>}
+          </div>
           {profile?.phone && (
             <div className="flex items-center gap-1 text-sm text-gray-400 mt-1">
               <Phone className="h-3 w-3" />
               <a href={`tel:${profile.phone}`} className="hover:text-purple-400 transition-colors">{profile.phone}</a>
             </div>
           )}
+          {status === 'active' && (
+            <div className="flex items-center gap-2 mt-2 text-xs text-gray-400">
+              <Badge className={driver.isOnDuty ? 'bg-green-500/20 text-green-300 border-green-500/40' : 'bg-gray-700 text-gray-400 border-gray-600'}>
+                {driver.isOnDuty ? 'On duty' : 'Off duty'}
+              </Badge>
+              <span>{driver.load} of</span>
+              <input
+                type="number"
+                min="1"
+                defaultValue={driver.maxConcurrentDeliveries}
+                onBlur={(e) => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value !== driver.maxConcurrentDeliveries) onSetCap(driver._id, value);
+                }}
+                className="w-12 bg-gray-700 border border-gray-600 rounded px-1 text-white text-center"
+                aria-label="Maximum concurrent deliveries"
+              />
+              <span>deliveries at once</span>
+            </div>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-2 w-full sm:w-auto justify-end flex-wrap">
@@ -134,6 +164,7 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
   );
   const toggleRecruitment = useMutation(api.stores.toggleDriverRecruitment);
   const manageDriver = useMutation(api.drivers.manageDriverStatus);
+  const setDriverDeliveryCap = useMutation(api.drivers.setDriverDeliveryCap);
   const findOrCreateChat = useMutation(api.chat.findOrCreateDirectConversation);
   const [loadingDriver, setLoadingDriver] = useState<Id<"storeDrivers"> | null>(null);
 
@@ -165,6 +196,16 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
     }
   };
 
+  const handleSetCap = async (linkId: Id<"storeDrivers">, maxConcurrentDeliveries: number) => {
+    if (!sessionToken) return;
+    try {
+      await setDriverDeliveryCap({ tokenIdentifier: sessionToken, driverLinkId: linkId, maxConcurrentDeliveries });
+      toast.success("Delivery limit updated.");
+    } catch (error: any) {
+      toast.error("Failed to update the delivery limit.", { description: error.data || error.message });
+    }
+  };
+
   const handleRecruitmentToggle = async (isRecruiting: boolean) => {
     if (!sessionToken) return;
     const promise = toggleRecruitment({
@@ -209,6 +250,8 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
         </CardHeader>
       </Card>
 
+      <DriverShiftsManager storeId={store._id} />
+
       {/* Pending Applications */}
       <Card className="bg-gray-900/50 border-gray-800">
         <CardHeader>
@@ -218,7 +261,7 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
           {pendingDrivers.length > 0 ? (
             <div className="space-y-3">
               {pendingDrivers.map(driver => (
-                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} isLoading={loadingDriver === driver._id} />
+                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} onSetCap={handleSetCap} isLoading={loadingDriver === driver._id} />
               ))}
             </div>
           ) : <EmptyState title="No Pending Applications" description="New applications from drivers will appear here." icon={UserPlus} />}
@@ -234,7 +277,7 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
           {activeDrivers.length > 0 ? (
             <div className="space-y-3">
               {activeDrivers.map(driver => (
-                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} isLoading={loadingDriver === driver._id} />
+                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} onSetCap={handleSetCap} isLoading={loadingDriver === driver._id} />
               ))}
             </div>
           ) : <EmptyState title="No Active Drivers" description="Approved drivers will be listed here." icon={UserCheck} />}
@@ -250,7 +293,7 @@ export function DriversTabContent({ store, onNavigateToChat }: { store: Doc<"sto
           {inactiveDrivers.length > 0 ? (
             <div className="space-y-3">
               {inactiveDrivers.map(driver => (
-                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} isLoading={loadingDriver === driver._id} />
+                <DriverCard key={driver._id} driver={driver} onManage={handleManageDriver} onStartChat={handleStartChat} onSetCap={handleSetCap} isLoading={loadingDriver === driver._id} />
               ))}
             </div>
           ) : <EmptyState title="No Inactive Drivers" description="Deactivated drivers will be shown here." icon={UserX} />}
@@ -1,5 +1,6 @@
 import { useState, useMemo, DragEvent } from "react";
 import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { api } from "../../../convex/_generated/api"; // Corrected path
 import { Doc, Id } from "../../../convex/_generated/dataModel";
 import { toast } from "sonner";
@@ -7,7 +8,7 @@ import { Upload, Camera, ArrowLeft, Plus, Trash2, Settings, Check, X, Edit, Load
 import { Reorder } from "framer-motion";
 import { compressImage } from "../../lib/imageUtils";
 
-type ProductWithUrl = NonNullable<ReturnType<typeof useQuery<typeof api.products.getStoreProductsFlat>>>[number] & { imageUrls: string[] };
+type ProductWithUrl = FunctionReturnType<typeof api.products.getProductsByStore>["page"][number] & { imageUrls: string[] };
 
 interface EditProductFormProps {
   product: ProductWithUrl; // This object contains the storeId
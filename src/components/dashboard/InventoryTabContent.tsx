@@ -9,12 +9,14 @@ import { Button } from "../ui/button";
 import { Switch } from '../ui/switch';
 import { Skeleton } from '../ui/skeleton';
 import { toast } from 'sonner';
-import { Package, PackageCheck, PackageX, Search, Plus, Minus } from 'lucide-react';
+import { Package, PackageCheck, PackageX, Search, Plus, Minus, History } from 'lucide-react';
 import { Input } from '../ui/input';
 import { useDebounce } from '../../hooks/useDebounce';
 import { Tabs, TabsList, TabsTrigger } from '../ui/tabs';
 import { Drawer } from 'vaul';
 import { ManageOptionsInventory, ProductWithOptions } from './ManageOptionsInventory';
+import { StockHistoryDialog } from './StockHistoryDialog';
+import { StockOnDateCard } from './StockOnDateCard';
 
 interface InventoryTabContentProps {
   storeId: Id<'stores'>;
@@ -35,6 +37,7 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('all'); // 'all', 'available', 'unavailable'
   const [editingOptionsFor, setEditingOptionsFor] = useState<ProductWithOptions | null>(null);
+  const [historyFor, setHistoryFor] = useState<(typeof localItems)[number] | null>(null);
   const [debouncedItem, setDebouncedItem] = useState<{ productId: Id<"products">, quantity: number } | null>(null);
   const debouncedQuantityUpdate = useDebounce(debouncedItem, 500); // 500ms delay
 
@@ -183,6 +186,7 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                 <TableHead className="text-gray-400 font-semibold">Category</TableHead>
                 <TableHead className="text-gray-400 font-semibold">Options</TableHead>
                 <TableHead className="text-gray-400 font-semibold">{storeType === 'restaurant' ? 'Status' : 'Quantity'}</TableHead>
+                {storeType !== 'restaurant' && <TableHead className="text-gray-400 font-semibold">History</TableHead>}
                 <TableHead className="text-right text-gray-400 font-semibold">Toggle Availability</TableHead>
               </TableRow>
             </TableHeader>
@@ -193,7 +197,7 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                     key={item._id} 
                     className={`border-gray-800 hover:bg-gray-900/50 ${storeType !== 'restaurant' && item.options && item.options.length > 0 ? 'cursor-pointer' : ''}`}
                     onClick={() => handleRowClick(item)}
-                    title={storeType !== 'restaurant' && item.options && item.options.length > 0 ? 'Click to manage option stock' : ''}
+                    title={storeType !== 'restaurant' && item.options && item.options.length > 0 ? 'Click to manage variants and option stock' : ''}
                   >
                     <TableCell>
                       {item.image ? (
@@ -210,6 +214,9 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                       {item.options && item.options.length > 0 ? (
                         <div className="flex flex-wrap items-center gap-1.5">
                           {(() => {
+                            if (item.hasVariants) {
+                              return <Badge variant="outline" className="text-xs font-normal border-purple-500/40 bg-purple-500/10 text-purple-300">Stocked per variant</Badge>;
+                            }
                             const allChoices = item.options.flatMap(opt => opt.choices);
                             const displayChoices = allChoices.slice(0, 1);
                             const hasMore = allChoices.length > 1;
@@ -220,7 +227,10 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                                   <Badge key={idx} variant="outline" className="text-xs font-normal border-gray-700 bg-gray-800 text-gray-300">
                                     {choice.name}
                                     {storeType !== 'restaurant' && (
-                                      <>: <span className="font-mono ml-1.5 text-purple-300">{choice.quantity ?? 'N/A'}</span></>
+                                      <>
+                                        : <span className="font-mono ml-1.5 text-purple-300">{choice.quantity ?? 'N/A'}</span>
+                                        {choice.reserved > 0 && <span className="font-mono ml-1 text-orange-300" title="Held for payments in progress">({choice.reserved} reserved)</span>}
+                                      </>
                                     )}
                                   </Badge>
                                 ))}
@@ -240,21 +250,36 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                         </Badge>
                       ) : (
                         <div className="flex items-center gap-2">
-                          <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-gray-700" onClick={(e) => { e.stopPropagation(); handleQuantityChange(item._id, -1); }}>
+                          <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-gray-700" disabled={item.hasVariants} onClick={(e) => { e.stopPropagation(); handleQuantityChange(item._id, -1); }}>
                             <Minus className="h-4 w-4" />
                           </Button>
-                          <span className={`font-semibold w-20 text-center ${
-                            (item.quantity ?? 0) > 10 ? 'text-green-400' : 
-                            (item.quantity ?? 0) > 0 ? 'text-yellow-400' : 'text-red-400'
-                          }`}>
-                            {item.quantity ?? 0} in stock
-                          </span>
-                          <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-gray-700" onClick={(e) => { e.stopPropagation(); handleQuantityChange(item._id, 1); }}>
+                          <div className="w-20 text-center">
+                            <span className={`font-semibold ${
+                              (item.quantity ?? 0) > 10 ? 'text-green-400' : 
+                              (item.quantity ?? 0) > 0 ? 'text-yellow-400' : 'text-red-400'
+                            }`}>
+                              {item.quantity ?? 0} on hand
+                            </span>
+                            {item.reorderThreshold !== undefined && (item.quantity ?? 0) <= item.reorderThreshold && (
+                              <p className="text-xs text-red-300" title={`Reorder threshold: ${item.reorderThreshold}`}>Low stock</p>
+                            )}
+                            {item.reservedQuantity > 0 && (
+                              <p className="text-xs text-orange-300" title="Held for payments in progress; still on hand until their orders are created">{item.reservedQuantity} reserved</p>
+                            )}
+                          </div>
+                          <Button variant="ghost" size="icon" className="h-7 w-7 rounded-full hover:bg-gray-700" disabled={item.hasVariants} onClick={(e) => { e.stopPropagation(); handleQuantityChange(item._id, 1); }}>
                             <Plus className="h-4 w-4" />
                           </Button>
                         </div>
                       )}
                     </TableCell>
+                    {storeType !== 'restaurant' && (
+                      <TableCell>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 rounded-full hover:bg-gray-700" title="Stock history" onClick={(e) => { e.stopPropagation(); setHistoryFor(item); }}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
                     <TableCell className="text-right">
                       <div onClick={(e) => e.stopPropagation()}>
                         <Switch 
@@ -269,7 +294,7 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={5} className="h-24 text-center">
+                  <TableCell colSpan={storeType === 'restaurant' ? 6 : 7} className="h-24 text-center">
                     No items match your search or filter criteria.
                   </TableCell>
                 </TableRow>
@@ -284,6 +309,10 @@ export function InventoryTabContent({ storeId, storeType }: InventoryTabContentP
         </CardContent>
       </Card>
 
+      {storeType !== 'restaurant' && <StockOnDateCard storeId={storeId} />}
+
+      <StockHistoryDialog product={historyFor} onClose={() => setHistoryFor(null)} />
+
       {/* Drawer for Managing Option Quantities */}
       <Drawer.Root open={!!editingOptionsFor} onOpenChange={(isOpen) => !isOpen && setEditingOptionsFor(null)}>
         <Drawer.Portal>
@@ -7,6 +7,7 @@ import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Loader2, Save, Minus, Plus } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { VariantMatrixEditor } from './VariantMatrixEditor';
 
 export type ProductWithOptions = Doc<'products'> & {
   options: NonNullable<Doc<'products'>['options']>;
@@ -17,9 +18,21 @@ interface ManageOptionsInventoryProps {
   onClose: () => void;
 }
 
+/**
+ * Products with single-choice options, like size or color, are stocked per variant.
+ * Products with only add-on options keep stock on each choice.
+ */
 export function ManageOptionsInventory({ product, onClose }: ManageOptionsInventoryProps) {
+  if (product.options.some(option => option.type === 'single')) {
+    return <VariantMatrixEditor product={product} onClose={onClose} />;
+  }
+  return <ChoiceStockEditor product={product} onClose={onClose} />;
+}
+
+function ChoiceStockEditor({ product, onClose }: ManageOptionsInventoryProps) {
   const [optionQuantities, setOptionQuantities] = useState<Record<string, Record<string, number>>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [reason, setReason] = useState('');
   const { sessionToken } = useAuth();
   const updateQuantitiesMutation = useMutation(api.products.updateOptionQuantities);
 
@@ -76,6 +89,7 @@ export function ManageOptionsInventory({ product, onClose }: ManageOptionsInvent
         tokenIdentifier: sessionToken,
         productId: product._id,
         updates,
+        reason: reason.trim() || undefined,
       });
       toast.success(`Inventory for "${product.name}" updated successfully.`);
       onClose();
@@ -124,7 +138,13 @@ export function ManageOptionsInventory({ product, onClose }: ManageOptionsInvent
         ))}
       </div>
 
-      <div className="mt-6 p-4 border-t border-gray-700 bg-gray-800">
+      <div className="mt-6 p-4 border-t border-gray-700 bg-gray-800 space-y-3">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for the change (optional), e.g. delivery from supplier"
+          className="bg-gray-700 border-gray-600 text-white"
+        />
         <Button onClick={handleSave} disabled={isSaving} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3">
           {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <><Save className="h-5 w-5 mr-2" /> Save Changes</>}
         </Button>
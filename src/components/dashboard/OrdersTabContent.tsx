@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
@@ -17,11 +17,13 @@ import {
 } from "../ui/dialog";
 import { RadioGroup, RadioGroupItem } from "../ui/radio-group";
 import { Label } from "../ui/label";
-import { Loader2, User, Truck, TicketPercent, MapPin, Package, MessageSquare, Search, Phone } from 'lucide-react';
+import { Loader2, User, Truck, TicketPercent, MapPin, Package, MessageSquare, Search, Phone, History, Route, CalendarClock, ShoppingBag, KeyRound } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { NavigateFunction } from 'react-router-dom';
 import { Input } from '../ui/input';
 import { useDebounce } from '../../hooks/useDebounce';
+import { OrderTimeline } from '../OrderTimeline';
+import { RatingSummary } from '../UserRatings';
 
 function OrdersTabSkeleton() {
   return (
@@ -51,19 +53,54 @@ function OrdersTabSkeleton() {
   );
 }
 
+/**
+ * Time left until a scheduled order's slot, refreshed every 30 seconds.
+ */
+function ScheduledCountdown({ scheduledFor }: { scheduledFor: number }) {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const minutesLeft = Math.ceil((scheduledFor - now) / 60000);
+  const slotTime = new Date(scheduledFor).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const countdown = minutesLeft <= 0
+    ? 'due now'
+    : minutesLeft < 60 ? `in ${minutesLeft} min` : `in ${Math.floor(minutesLeft / 60)}h ${minutesLeft % 60}m`;
+
+  return (
+    <Badge variant="outline" className={`text-xs h-7 gap-1 ${minutesLeft <= 15 ? 'border-orange-500/50 text-orange-300' : 'border-blue-500/50 text-blue-300'}`}>
+      <CalendarClock className="h-3 w-3" />
+      {slotTime} · {countdown}
+    </Badge>
+  );
+}
+
 function OrderCard({
   order,
   onUpdateStatus,
   getNextActionText,
   onStartChat,
+  onReject,
   isActionable,
+  isSelectedForRun,
+  onToggleRunSelection,
 }: {
-  order: Doc<"orders"> & { customerName: string; customerPhone?: string };
-  onUpdateStatus: (orderId: Id<"orders">, currentStatus: Doc<"orders">["status"]) => void;
-  getNextActionText: (status: Doc<"orders">["status"]) => string;
-  isActionable: (status: Doc<"orders">["status"]) => boolean;
+  order: Doc<"orders"> & { customerName: string; customerPhone?: string; customerRating: { average: number; count: number } | null };
+  onUpdateStatus: (order: Doc<"orders">) => void;
+  getNextActionText: (order: Doc<"orders">) => string;
+  isActionable: (order: Doc<"orders">) => boolean;
   onStartChat: (orderId: Id<"orders">) => void;
+  onReject: (orderId: Id<"orders">) => void;
+  isSelectedForRun: boolean;
+  onToggleRunSelection: (orderId: Id<"orders">) => void;
 }) {
+  const [showTimeline, setShowTimeline] = useState(false);
+  const isPickup = order.fulfillmentType === 'pickup';
+  // Prepared orders no driver has taken yet can be grouped into a delivery run
+  const canJoinRun = order.status === 'preparing' && !order.driverId && !isPickup;
+
   return (
     <div key={order._id} className="bg-gray-800/50 rounded-2xl p-4 sm:p-6 border border-gray-700/60 transition-all hover:border-purple-500/30">
       <div className="flex flex-col sm:flex-row justify-between gap-4">
@@ -72,8 +109,19 @@ function OrderCard({
           <div className="flex items-start justify-between">
             <div>
               <div className="flex items-center gap-2 mb-1">
-                <User className="h-4 w-4 text-gray-400" />
+                {canJoinRun ? (
+                  <input
+                    type="checkbox"
+                    checked={isSelectedForRun}
+                    onChange={() => onToggleRunSelection(order._id)}
+                    aria-label="Add to delivery run"
+                    className="rounded border-gray-500 text-purple-600 focus:ring-purple-500 bg-gray-700"
+                  />
+                ) : (
+                  <User className="h-4 w-4 text-gray-400" />
+                )}
                 <p className="font-semibold text-lg text-white">{order.customerName}</p>
+                <RatingSummary rating={order.customerRating} emptyText="New customer" />
               </div>
               {order.customerPhone && (
                 <div className="flex items-center gap-2 mb-1 text-sm text-gray-400">
@@ -94,8 +142,8 @@ function OrderCard({
           </div>
 
           <div className="flex items-start gap-2 text-sm text-gray-400">
-            <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />
-            <p className="truncate">{order.deliveryAddress}</p>
+            {isPickup ? <ShoppingBag className="h-4 w-4 mt-0.5 flex-shrink-0" /> : <MapPin className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+            <p className="truncate">{isPickup ? 'Customer collects at the store' : order.deliveryAddress}</p>
           </div>
 
           <div className="border-t border-gray-700/50 pt-3">
@@ -108,11 +156,20 @@ function OrderCard({
                     {item.options && Object.values(item.options).some(v => (Array.isArray(v) ? v.length > 0 : !!v)) && (
                       <span className="text-xs text-gray-500 ml-2">({Object.values(item.options).flat().join(', ')})</span>
                     )}
+                    {item.sku && <span className="text-xs text-gray-500 font-mono ml-2">SKU {item.sku}</span>}
                   </div>
                 ))}
               </div>
             </div>
           </div>
+
+          <div className="border-t border-gray-700/50 pt-3">
+            <button onClick={() => setShowTimeline(prev => !prev)} className="flex items-center gap-2 text-sm text-gray-400 hover:text-purple-400 transition-colors">
+              <History className="h-4 w-4" />
+              {showTimeline ? 'Hide Timeline' : 'Show Timeline'}
+            </button>
+            {showTimeline && <OrderTimeline orderId={order._id} />}
+          </div>
         </div>
 
         {/* Right Side: Status & Actions */}
@@ -121,13 +178,22 @@ function OrderCard({
             {order.discountAmount && order.discountAmount > 0 && <span title={`Discount of ${order.discountAmount} applied`}><TicketPercent className="h-4 w-4 text-green-400" /></span>}
             <span className="font-semibold text-lg text-purple-400 font-mono">π{order.totalAmount.toFixed(7)}</span>
           </div>
+          {order.scheduledFor && !['delivered', 'cancelled', 'disputed'].includes(order.status) && <ScheduledCountdown scheduledFor={order.scheduledFor} />}
+          {isPickup && <Badge variant="outline" className="text-xs h-7 border-blue-500/50 text-blue-300">Pickup</Badge>}
+          {order.deliveryRunId && <Badge variant="outline" className="text-xs h-7 border-purple-500/50 text-purple-300">In Delivery Run</Badge>}
+          {order.paymentMethod === 'cash' && <Badge variant="outline" className="text-xs h-7 border-green-500/50 text-green-400">{isPickup ? 'Cash at Pickup' : 'Cash on Delivery'}</Badge>}
           <Badge variant={order.status === 'delivered' ? 'default' : order.status === 'preparing' ? 'secondary' : order.status === 'cancelled' ? 'destructive' : 'outline'} className="capitalize text-xs h-7">{order.status.replace(/_/g, ' ')}</Badge>
           <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
             <Button size="sm" variant="outline" onClick={() => onStartChat(order._id)} className="border-purple-500/50 text-purple-400 hover:bg-purple-500/10 hover:text-purple-300 w-full sm:w-auto">
               <MessageSquare className="h-4 w-4 mr-2" />
               Chat
             </Button>
-            <Button size="sm" onClick={() => onUpdateStatus(order._id, order.status)} disabled={!isActionable(order.status)} className="bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed w-full sm:w-auto">{getNextActionText(order.status)}</Button>
+            {(order.status === 'pending' || order.status === 'confirmed' || order.status === 'preparing' || order.status === 'ready_for_pickup') && (
+              <Button size="sm" variant="outline" onClick={() => onReject(order._id)} className="border-red-500/50 text-red-400 hover:bg-red-500/10 hover:text-red-300 w-full sm:w-auto">
+                Reject
+              </Button>
+            )}
+            <Button size="sm" onClick={() => onUpdateStatus(order)} disabled={!isActionable(order)} className="bg-purple-600 hover:bg-purple-700 text-white disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed w-full sm:w-auto">{getNextActionText(order)}</Button>
           </div>
         </div>
       </div>
@@ -147,28 +213,57 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
     api.drivers.getDriversForStore,
     sessionToken ? { storeId, tokenIdentifier: sessionToken } : "skip"
   );
+  const heldOrderCount = useQuery(
+    api.scheduledOrders.getHeldOrderCount,
+    sessionToken ? { storeId, tokenIdentifier: sessionToken } : "skip"
+  );
   const [isAssignDriverOpen, setIsAssignDriverOpen] = React.useState(false);
   const [orderToDispatch, setOrderToDispatch] = React.useState<Id<"orders"> | null>(null);
   const [selectedDriverId, setSelectedDriverId] = React.useState<Id<"users"> | null>(null);
+  const [runOrderIds, setRunOrderIds] = useState<Id<"orders">[]>([]);
+  const [isDispatchingRun, setIsDispatchingRun] = useState(false);
+  const createDeliveryRun = useMutation(api.deliveryRuns.createDeliveryRun);
 
   const updateOrderStatus = useMutation(api.orders.updateOrderStatus);
+  const rejectOrder = useMutation(api.orders.rejectOrder);
+  const [orderToReject, setOrderToReject] = useState<Id<"orders"> | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [orderToHandOver, setOrderToHandOver] = useState<Doc<"orders"> | null>(null);
+  const [pickupCode, setPickupCode] = useState("");
+  const [cashCollected, setCashCollected] = useState(false);
+  const [isHandingOver, setIsHandingOver] = useState(false);
   const findOrCreateChat = useMutation(api.chat.findOrCreateConversationForOrder);
 
-  const handleUpdateStatus = async (orderId: Id<"orders">, currentStatus: Doc<"orders">["status"]) => {
+  const handleUpdateStatus = async (order: Doc<"orders">) => {
+    const { _id: orderId, driverId } = order;
     let nextStatus: Doc<"orders">["status"] | '' = '';
-    switch (currentStatus) {
+    switch (order.status) {
+      case 'pending':
+        nextStatus = 'confirmed';
+        break;
       case 'confirmed':
         nextStatus = 'preparing';
         break;
       case 'preparing':
-        // Instead of directly changing status, open the driver assignment dialog
-        setOrderToDispatch(orderId);
-        setIsAssignDriverOpen(true);
+        // Pickup orders skip dispatch: the customer collects them with their pickup code
+        if (order.fulfillmentType === 'pickup') {
+          nextStatus = 'ready_for_pickup';
+          break;
+        }
         nextStatus = 'out_for_delivery';
+        // A driver who accepted an auto-dispatch offer is already assigned; otherwise open the driver assignment dialog
+        if (!driverId) {
+          setOrderToDispatch(orderId);
+          setIsAssignDriverOpen(true);
+        }
         break;
       case 'out_for_delivery':
         nextStatus = 'delivered';
         break;
+      case 'ready_for_pickup':
+        setOrderToHandOver(order);
+        return;
       default:
         return; // No action for other statuses
     }
@@ -177,8 +272,8 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
       return;
     }
 
-    // If the next step is not dispatching, update status directly.
-    if (nextStatus !== 'out_for_delivery') {
+    // If the next step is not dispatching to a driver still to be chosen, update status directly.
+    if (nextStatus !== 'out_for_delivery' || driverId) {
       try {
         await updateOrderStatus({ orderId, status: nextStatus, tokenIdentifier: sessionToken });
         toast.success(`Order status updated to "${nextStatus.replace(/_/g, ' ')}"`);
@@ -188,7 +283,60 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
     }
   };
 
+  const handleConfirmHandOver = async () => {
+    if (!orderToHandOver || !sessionToken) return;
+    setIsHandingOver(true);
+    try {
+      await updateOrderStatus({
+        orderId: orderToHandOver._id,
+        status: 'delivered',
+        handoverCode: pickupCode.trim(),
+        cashCollected: orderToHandOver.paymentMethod === 'cash' ? cashCollected : undefined,
+        tokenIdentifier: sessionToken,
+      });
+      toast.success("Order handed over to the customer.");
+      setOrderToHandOver(null);
+      setPickupCode("");
+      setCashCollected(false);
+    } catch (error: any) {
+      toast.error("Failed to hand over order.", { description: error.data?.message || error.data });
+    } finally {
+      setIsHandingOver(false);
+    }
+  };
+
+  const toggleRunSelection = (orderId: Id<"orders">) => {
+    setRunOrderIds(prev => (prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]));
+  };
+
+  const handleOpenRunDispatch = () => {
+    setIsDispatchingRun(true);
+    setIsAssignDriverOpen(true);
+  };
+
+  const handleConfirmRunDispatch = async () => {
+    if (!selectedDriverId || !sessionToken) {
+      toast.error("Please select a driver for the delivery run.");
+      return;
+    }
+
+    try {
+      await createDeliveryRun({ tokenIdentifier: sessionToken, storeId, orderIds: runOrderIds, driverId: selectedDriverId });
+      toast.success(`Delivery run with ${runOrderIds.length} stops dispatched!`);
+      setRunOrderIds([]);
+    } catch (error: any) {
+      toast.error("Failed to dispatch the delivery run.", { description: error.data?.message || error.data });
+    } finally {
+      setIsAssignDriverOpen(false);
+      setIsDispatchingRun(false);
+      setSelectedDriverId(null);
+    }
+  };
+
   const handleConfirmDispatch = async () => {
+    if (isDispatchingRun) {
+      return handleConfirmRunDispatch();
+    }
     if (!orderToDispatch || !selectedDriverId || !sessionToken) {
       toast.error("Please select a driver to dispatch the order.");
       return;
@@ -211,6 +359,25 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
     }
   };
 
+  const handleConfirmReject = async () => {
+    if (!orderToReject || !sessionToken) return;
+    if (!rejectReason.trim()) {
+      toast.error("Please provide a reason for rejecting the order.");
+      return;
+    }
+    setIsRejecting(true);
+    try {
+      await rejectOrder({ orderId: orderToReject, reason: rejectReason, tokenIdentifier: sessionToken });
+      toast.success("Order rejected and customer refunded.");
+      setOrderToReject(null);
+      setRejectReason("");
+    } catch (error: any) {
+      toast.error("Failed to reject order.", { description: error.data?.message || error.data });
+    } finally {
+      setIsRejecting(false);
+    }
+  };
+
   const handleStartChat = async (orderId: Id<"orders">) => {
     if (!sessionToken) {
       toast.error("Authentication error. Please log in again.");
@@ -227,21 +394,25 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
     }
   };
 
-  const getNextActionText = (status: Doc<"orders">["status"]) => {
-    switch (status) {
+  const getNextActionText = (order: Doc<"orders">) => {
+    switch (order.status) {
+      case 'pending':
+        return 'Accept Order';
       case 'confirmed':
         return 'Start Preparing';
       case 'preparing':
-        return 'Dispatch Order';
+        return order.fulfillmentType === 'pickup' ? 'Ready for Pickup' : 'Dispatch Order';
       case 'out_for_delivery':
         return 'Mark Delivered';
+      case 'ready_for_pickup':
+        return 'Hand Over';
       default:
         return 'Update';
     }
   };
 
-  const isActionable = (status: Doc<"orders">["status"]) => {
-    return ['confirmed', 'preparing', 'out_for_delivery'].includes(status);
+  const isActionable = (order: Doc<"orders">) => {
+    return ['pending', 'confirmed', 'preparing', 'out_for_delivery', 'ready_for_pickup'].includes(order.status);
   };
 
   if (recentOrders === undefined) {
@@ -254,8 +425,17 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
           <div>
             <CardTitle>Recent Orders</CardTitle>
-            <CardDescription>Manage your restaurant's incoming orders.</CardDescription>
+            <CardDescription>
+              Manage your restaurant's incoming orders.
+              {!!heldOrderCount && ` ${heldOrderCount} scheduled ${heldOrderCount === 1 ? 'order appears' : 'orders appear'} here shortly before their slot.`}
+            </CardDescription>
           </div>
+          {runOrderIds.length >= 2 && (
+            <Button onClick={handleOpenRunDispatch} className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto">
+              <Route className="h-4 w-4 mr-2" />
+              Create Delivery Run ({runOrderIds.length})
+            </Button>
+          )}
           <div className="relative w-full sm:w-64">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input placeholder="Search by name or order ID..." value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} className="pl-10 w-full bg-gray-800/60 border-gray-700 focus:ring-purple-500" />
@@ -270,13 +450,13 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
         ) : (
           <div className="space-y-4">
             {recentOrders.map((order) => (
-              <OrderCard key={order._id} order={order} onUpdateStatus={handleUpdateStatus} onStartChat={handleStartChat} getNextActionText={getNextActionText} isActionable={isActionable} />
+              <OrderCard key={order._id} order={order} onUpdateStatus={handleUpdateStatus} onStartChat={handleStartChat} onReject={setOrderToReject} getNextActionText={getNextActionText} isActionable={isActionable} isSelectedForRun={runOrderIds.includes(order._id)} onToggleRunSelection={toggleRunSelection} />
             ))}
           </div>
         )}
       </CardContent>
 
-      <Dialog open={isAssignDriverOpen} onOpenChange={setIsAssignDriverOpen}>
+      <Dialog open={isAssignDriverOpen} onOpenChange={(open) => { setIsAssignDriverOpen(open); if (!open) setIsDispatchingRun(false); }}>
         <DialogContent className="sm:max-w-[425px] bg-gray-900/90 border-gray-700/60 text-white rounded-2xl">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2 text-xl">
@@ -284,16 +464,20 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
               <span>Assign Driver</span>
             </DialogTitle>
             <DialogDescription className="text-gray-400 pt-2 pl-8">
-              Select an available driver to dispatch this order.
+              {isDispatchingRun
+                ? `Select an on-duty driver for this ${runOrderIds.length}-stop run. Stops are ordered into the shortest route.`
+                : 'Select an on-duty driver to dispatch this order.'} Drivers at their delivery limit are hidden.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4 max-h-[50vh] overflow-y-auto">
             {drivers === undefined ? (
               <div className="flex justify-center items-center h-24"><Loader2 className="h-6 w-6 animate-spin" /></div>
+            ) : !drivers.some(d => d.isAvailable) ? (
+              <p className="text-center text-sm text-gray-400 py-6">No drivers are on duty with room for another delivery right now.</p>
             ) : (
               <RadioGroup onValueChange={(value: string) => setSelectedDriverId(value as Id<"users">)}>
                 <div className="space-y-2">
-                  {drivers.filter(d => d.status === 'active').map(driver => {
+                  {drivers.filter(d => d.isAvailable).map(driver => {
                     // Construct the full name from the profile, falling back to the user's name
                     const fullName = [driver.profile?.firstName, driver.profile?.lastName].filter(Boolean).join(' ') || driver.name;
 
@@ -310,7 +494,10 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
                           <p className="text-xs text-gray-400">{driver.profile?.piUsername ? `@${driver.profile.piUsername}` : 'No Pi username'}</p>
                         </div>
                       </div>
-                      <RadioGroupItem value={driver.driverId} id={driver._id} />
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-gray-400">{driver.load}/{driver.maxConcurrentDeliveries} deliveries</span>
+                        <RadioGroupItem value={driver.driverId} id={driver._id} />
+                      </div>
                     </Label>
                     );
                   })}
@@ -324,6 +511,74 @@ export function OrdersTabContent({ storeId, onNavigateToChat }: { storeId: Id<"s
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!orderToHandOver} onOpenChange={(open) => { if (!open) { setOrderToHandOver(null); setPickupCode(""); setCashCollected(false); } }}>
+        <DialogContent className="sm:max-w-[425px] bg-gray-900/90 border-gray-700/60 text-white rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-xl">
+              <KeyRound className="h-6 w-6 text-purple-400" />
+              <span>Hand Over Order</span>
+            </DialogTitle>
+            <DialogDescription className="text-gray-400 pt-2 pl-8">
+              Ask the customer for the pickup code shown in their order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <Input
+              value={pickupCode}
+              onChange={(e) => setPickupCode(e.target.value)}
+              placeholder="Pickup code"
+              inputMode="numeric"
+              className="bg-gray-800 border-gray-700 text-white font-mono tracking-widest"
+            />
+            {orderToHandOver?.paymentMethod === 'cash' && (
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={cashCollected}
+                  onChange={(e) => setCashCollected(e.target.checked)}
+                  className="rounded border-gray-500 text-purple-600 focus:ring-purple-500 bg-gray-700"
+                />
+                I collected π{orderToHandOver.totalAmount.toFixed(7)} in cash
+              </label>
+            )}
+          </div>
+          <DialogFooter className="mt-4 sm:justify-end gap-2">
+            <Button variant="ghost" onClick={() => setOrderToHandOver(null)} className="text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors rounded-xl">Cancel</Button>
+            <Button
+              onClick={handleConfirmHandOver}
+              disabled={isHandingOver || !pickupCode.trim() || (orderToHandOver?.paymentMethod === 'cash' && !cashCollected)}
+              className="bg-purple-600 hover:bg-purple-700 text-white rounded-xl"
+            >
+              {isHandingOver ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Confirm Handover'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!orderToReject} onOpenChange={(open) => !open && setOrderToReject(null)}>
+        <DialogContent className="sm:max-w-[425px] bg-gray-900/90 border-gray-700/60 text-white rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-xl">Reject Order</DialogTitle>
+            <DialogDescription className="text-gray-400 pt-2">
+              The customer will be refunded in full and the ordered items returned to inventory.
+            </DialogDescription>
+          </DialogHeader>
+          <textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg p-2 text-white text-sm"
+            placeholder="Reason (required), e.g. item out of stock"
+            rows={3}
+          />
+          <DialogFooter className="mt-4 sm:justify-end gap-2">
+            <Button variant="ghost" onClick={() => setOrderToReject(null)} className="text-gray-400 hover:bg-gray-800 hover:text-gray-200 transition-colors rounded-xl">Cancel</Button>
+            <Button onClick={handleConfirmReject} disabled={isRejecting || !rejectReason.trim()} className="bg-red-600 hover:bg-red-700 text-white rounded-xl">
+              {isRejecting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Reject & Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
\ No newline at end of file
@@ -1,9 +1,10 @@
+import { useState } from 'react';
 import { useQuery, useAction, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { useAuth } from '../../hooks/useAuth';
 import { usePi } from '../../hooks/usePi';
 import { Id } from '../../../convex/_generated/dataModel';
-import { AlertCircle, CheckCircle2, ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { AlertCircle, CheckCircle2, ChevronDown, ChevronUp, Clock, ExternalLink, FileText, Loader2, RefreshCw } from 'lucide-react';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { Alert, AlertDescription, AlertTitle } from '../ui/alert';
@@ -21,7 +22,17 @@ export function PayoutsTabContent({ storeId }: PayoutsTabContentProps) {
     sessionToken ? { storeId, tokenIdentifier: sessionToken } : 'skip',
     { initialNumItems: 20 }
   );
+  const { results: statements } = usePaginatedQuery(
+    api.payoutStatements.getPayoutStatementsByStore,
+    sessionToken ? { storeId, tokenIdentifier: sessionToken } : 'skip',
+    { initialNumItems: 10 }
+  );
+  const [expandedStatementId, setExpandedStatementId] = useState<Id<'payoutStatements'> | null>(null);
   const retryPayout = useAction(api.paymentsActions.retryFailedPayout);
+  const cashCommissionOwed = useQuery(
+    api.ledger.getCashCommissionOwed,
+    sessionToken ? { storeId, tokenIdentifier: sessionToken } : 'skip'
+  );
 
   const handleRetryPayout = async (payout: { orderId: Id<"orders">, amount: number }) => {
     if (!sessionToken) {
@@ -42,7 +53,7 @@ export function PayoutsTabContent({ storeId }: PayoutsTabContentProps) {
     });
   };
 
-    const failedPayouts = payouts?.filter(p => p.status === 'failed' || p.status === 'pending');
+    const failedPayouts = payouts?.filter(p => (p.kind ?? 'store_payout') === 'store_payout' && (p.status === 'failed' || p.status === 'pending'));
   const linkPiAccount = useMutation(api.auth.linkPiAccount);
 
 
@@ -51,12 +62,23 @@ export function PayoutsTabContent({ storeId }: PayoutsTabContentProps) {
     return <div className="flex justify-center items-center h-40"><Loader2 className="h-8 w-8 animate-spin" /></div>;
   }
 
-  if (payouts.length === 0) {
+  if (payouts.length === 0 && !cashCommissionOwed) {
     return <p className="text-center text-gray-400">No payout history found.</p>;
   }
 
   return (
     <div className="space-y-8">
+      {/* Commission owed on cash-on-delivery orders */}
+      {cashCommissionOwed !== undefined && cashCommissionOwed > 0 && (
+        <Alert className="bg-yellow-900/30 border-yellow-500/50">
+          <AlertCircle className="h-4 w-4 text-yellow-400" />
+          <AlertTitle>Commission Owed on Cash Orders</AlertTitle>
+          <AlertDescription>
+            You owe <strong>π{cashCommissionOwed.toFixed(4)}</strong> in platform commission on cash-on-delivery orders.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Failed Payouts Section */}
       {failedPayouts && failedPayouts.length > 0 && (
         <div>
@@ -104,6 +126,62 @@ export function PayoutsTabContent({ storeId }: PayoutsTabContentProps) {
         </div>
       )}
 
+      {/* Batched Payout Statements */}
+      {statements && statements.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-white mb-4">Payout Statements</h3>
+          <div className="space-y-3">
+            {statements.map(statement => {
+              const isExpanded = expandedStatementId === statement._id;
+              return (
+                <div key={statement._id} className="rounded-lg border border-gray-700 bg-gray-800/50">
+                  <button
+                    onClick={() => setExpandedStatementId(isExpanded ? null : statement._id)}
+                    className="w-full flex items-center justify-between gap-4 p-4 text-left"
+                  >
+                    <div className="flex items-center gap-3">
+                      <FileText className="h-5 w-5 text-purple-400" />
+                      <div>
+                        <p className="text-sm font-medium text-white">
+                          {format(statement.periodStart, 'MMM d')} – {format(statement.periodEnd, 'MMM d, yyyy')}
+                        </p>
+                        <p className="text-xs text-gray-400">
+                          {statement.lines.length} orders · Commission π{statement.commissionAmount.toFixed(4)}
+                          {statement.refundAmount > 0 && ` · Refunds π${statement.refundAmount.toFixed(4)}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono text-sm text-white">π{statement.amount.toFixed(4)}</span>
+                      <span className={`text-xs capitalize ${statement.status === 'completed' ? 'text-green-400' : statement.status === 'failed' ? 'text-red-400' : 'text-yellow-400'}`}>{statement.status}</span>
+                      {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-400" /> : <ChevronDown className="h-4 w-4 text-gray-400" />}
+                    </div>
+                  </button>
+                  {isExpanded && (
+                    <div className="border-t border-gray-700 px-4 py-3 space-y-1">
+                      {statement.lines.map(line => (
+                        <div key={line.payoutId} className="flex justify-between text-xs text-gray-400">
+                          <span>
+                            Order #{line.orderId.slice(-6)}
+                            {line.refundAmount !== undefined && <span className="text-orange-400"> · refunded π{line.refundAmount.toFixed(4)}</span>}
+                            {line.commissionAmount !== undefined && <span> · commission π{line.commissionAmount.toFixed(4)}</span>}
+                          </span>
+                          <span className="font-mono text-gray-300">π{line.amount.toFixed(4)}</span>
+                        </div>
+                      ))}
+                      {statement.failureReason && <p className="text-xs text-red-400 pt-2">{statement.failureReason}</p>}
+                      {statement.txid && (
+                        <a href={`https://pi-blockchain.net/tx/${statement.txid}`} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 pt-2 text-xs text-purple-400 hover:text-purple-300">View transaction <ExternalLink className="h-3 w-3" /></a>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Payout History Section */}
       <div>
         <h3 className="text-lg font-semibold text-white mb-4">Payout History</h3>
@@ -123,10 +201,26 @@ export function PayoutsTabContent({ storeId }: PayoutsTabContentProps) {
                 <tr key={payout._id}>
                   <td className="whitespace-nowrap px-4 py-4 text-sm text-gray-400">{format(payout._creationTime, 'PPp')}</td>
                   <td className="whitespace-nowrap px-4 py-4 text-sm text-gray-400">#{payout.orderId.slice(-6)}</td>
-                  <td className="whitespace-nowrap px-4 py-4 text-sm text-gray-300">π{payout.amount.toFixed(4)}</td>
+                  <td className="whitespace-nowrap px-4 py-4 text-sm text-gray-300">
+                    {payout.kind === 'customer_refund' ? (
+                      <span className="text-orange-400">-π{payout.amount.toFixed(4)} <span className="text-xs text-gray-500">(refund)</span></span>
+                    ) : (
+                      <>
+                        π{payout.amount.toFixed(4)}
+                        {payout.commissionAmount !== undefined && (
+                          <span className="block text-xs text-gray-500">
+                            Commission: π{payout.commissionAmount.toFixed(4)}
+                            {payout.commissionRate !== undefined && ` (${(payout.commissionRate * 100).toFixed(2).replace(/\.?0+$/, '')}%)`}
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </td>
                   <td className="whitespace-nowrap px-4 py-4 text-sm">
                     {payout.status === 'completed' ? (
                       <span className="inline-flex items-center gap-x-1.5 rounded-md bg-green-500/10 px-2 py-1 text-xs font-medium text-green-400"><CheckCircle2 className="h-3 w-3" />Completed</span>
+                    ) : payout.status === 'pending_batch' || payout.statementId ? (
+                      <span className="inline-flex items-center gap-x-1.5 rounded-md bg-yellow-500/10 px-2 py-1 text-xs font-medium text-yellow-400"><Clock className="h-3 w-3" />Next Statement</span>
                     ) : (
                       <span className="inline-flex items-center gap-x-1.5 rounded-md bg-red-500/10 px-2 py-1 text-xs font-medium text-red-400"><AlertCircle className="h-3 w-3" />Failed</span>
                     )}
@@ -1,25 +1,31 @@
 import { useState, useMemo } from 'react';
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { api } from "../../../convex/_generated/api";
 import { Doc, Id } from "../../../convex/_generated/dataModel";
-import { Plus, Loader2, Trash2, Edit, Package } from "lucide-react";
+import { Plus, Loader2, Trash2, Edit, Package, FileUp } from "lucide-react";
 import { AddProductForm } from "./AddProductForm";
 import { EditProductForm } from "./EditProductForm";
+import { CatalogImportExport } from "./CatalogImportExport";
 import { toast } from "sonner";
 
-type ProductWithUrl = NonNullable<ReturnType<typeof useQuery<typeof api.products.getStoreProductsFlat>>>[number];
+type ProductWithUrl = FunctionReturnType<typeof api.products.getProductsByStore>["page"][number];
 
 interface ProductsProps {
   storeId: Id<"stores">;
 }
 
 export function Products({ storeId }: ProductsProps) {
-  const [view, setView] = useState<"list" | "add" | "edit">("list");
+  const [view, setView] = useState<"list" | "add" | "edit" | "import">("list");
   const [selectedProduct, setSelectedProduct] = useState<ProductWithUrl | null>(null);
   const sessionToken = useMemo(() => localStorage.getItem("sessionToken"), []);
 
   const store = useQuery(api.stores.getStoreById, { storeId });
-  const products = useQuery(api.products.getStoreProductsFlat, { storeId });
+  const { results: products, status, loadMore } = usePaginatedQuery(
+    api.products.getProductsByStore,
+    { storeId },
+    { initialNumItems: 50 }
+  );
   const deleteProduct = useMutation(api.products.deleteProduct);
 
   const handleDeleteProduct = async (product: ProductWithUrl) => {
@@ -37,7 +43,7 @@ export function Products({ storeId }: ProductsProps) {
     }
   };
 
-  if (products === undefined || !store) {
+  if (status === "LoadingFirstPage" || !store) {
     return (
       <div className="flex items-center justify-center p-8">
         <Loader2 className="w-8 h-8 animate-spin text-purple-400" />
@@ -53,18 +59,32 @@ export function Products({ storeId }: ProductsProps) {
     return <EditProductForm product={selectedProduct} storeType={store.storeType} onBack={() => setView("list")} />;
   }
 
+  if (view === "import") {
+    return <CatalogImportExport storeId={storeId} onBack={() => setView("list")} />;
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h3 className="text-xl font-bold text-white">Products</h3>
-        <button
-          aria-label="Add Item"
-          onClick={() => setView("add")}
-          className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all duration-200 font-semibold flex items-center space-x-2"
-        >
-          <Plus size={20} />
-          <span>Add Item</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            aria-label="Import or Export"
+            onClick={() => setView("import")}
+            className="bg-gray-700/50 text-gray-200 px-4 py-2 rounded-xl hover:bg-gray-600/50 transition-all duration-200 font-semibold flex items-center space-x-2"
+          >
+            <FileUp size={20} />
+            <span>Import / Export</span>
+          </button>
+          <button
+            aria-label="Add Item"
+            onClick={() => setView("add")}
+            className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-xl hover:from-purple-700 hover:to-pink-700 transition-all duration-200 font-semibold flex items-center space-x-2"
+          >
+            <Plus size={20} />
+            <span>Add Item</span>
+          </button>
+        </div>
       </div>
 
       {products.length === 0 ? (
@@ -98,6 +118,11 @@ export function Products({ storeId }: ProductsProps) {
               </div>
             </div>
           ))}
+          {status === "CanLoadMore" && (
+            <button onClick={() => loadMore(50)} className="w-full py-2 text-gray-300 border border-gray-700 rounded-xl hover:bg-gray-700/50 transition-colors">
+              Load More
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -4,7 +4,7 @@ import { api } from '../../../convex/_generated/api';
 import { Id } from '../../../convex/_generated/dataModel';
 import { useAuth } from '../../hooks/useAuth';
 import { toast } from 'sonner';
-import { Loader2, AlertTriangle, MessageSquare, X } from 'lucide-react';
+import { Loader2, AlertTriangle, MessageSquare, X, ShieldCheck } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -31,6 +31,24 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
   const [resolutionNote, setResolutionNote] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [zoomedImageUrl, setZoomedImageUrl] = useState<string | null>(null);
+  // Partial refund: quantity to refund per line item (keyed by item index), or a custom amount
+  const [refundQuantities, setRefundQuantities] = useState<Record<number, number>>({});
+  const [customRefundAmount, setCustomRefundAmount] = useState("");
+
+  const selectedRefundItems = Object.entries(refundQuantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([index, quantity]) => ({ index: Number(index), quantity }));
+  const itemsRefundTotal = selectedReport
+    ? selectedRefundItems.reduce((sum, { index, quantity }) => sum + selectedReport.orderItems[index].price * quantity, 0)
+    : 0;
+  const partialRefundTotal = selectedRefundItems.length > 0 ? itemsRefundTotal : parseFloat(customRefundAmount) || 0;
+
+  const resetResolutionForm = () => {
+    setSelectedReport(null);
+    setResolutionNote("");
+    setRefundQuantities({});
+    setCustomRefundAmount("");
+  };
 
   const handleChat = async (orderId: Id<"orders">) => {
     if (!sessionToken) return;
@@ -42,8 +60,12 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
     }
   };
 
-  const handleResolve = async (resolution: 'refund' | 'dismiss') => {
+  const handleResolve = async (resolution: 'refund' | 'partial_refund' | 'dismiss') => {
     if (!sessionToken || !selectedReport) return;
+    if (resolution === 'partial_refund' && partialRefundTotal <= 0) {
+      toast.error("Select items or enter an amount to refund.");
+      return;
+    }
     setIsSubmitting(true);
     try {
       await resolveReport({
@@ -51,10 +73,16 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
         reportId: selectedReport._id,
         resolution,
         note: resolutionNote,
+        ...(resolution === 'partial_refund' && (selectedRefundItems.length > 0
+          ? { refundItems: selectedRefundItems }
+          : { refundAmount: partialRefundTotal })),
       });
-      toast.success(resolution === 'refund' ? "Order refunded and report resolved." : "Report dismissed and payout released.");
-      setSelectedReport(null);
-      setResolutionNote("");
+      toast.success(
+        resolution === 'refund' ? "Order refunded and report resolved."
+          : resolution === 'partial_refund' ? `Refunded ${formatPiPrice(partialRefundTotal)} and released the remainder.`
+          : "Report dismissed and payout released."
+      );
+      resetResolutionForm();
     } catch (error) {
       toast.error("Failed to resolve report.");
       console.error(error);
@@ -116,6 +144,25 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
                     </div>
                   )}
 
+                  <div className="flex items-center gap-3 mb-4 text-sm">
+                    <ShieldCheck size={16} className={report.deliveryProof ? "text-green-400" : "text-gray-500"} />
+                    {report.deliveryProof ? (
+                      <span className="text-gray-300">
+                        Delivered with {report.deliveryProof.method === 'code' ? "the customer's handover code" : "a photo"} on {new Date(report.deliveryProof.recordedAt).toLocaleString()}
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">No proof of delivery was recorded.</span>
+                    )}
+                    {report.deliveryProof?.photoUrl && (
+                      <img
+                        src={report.deliveryProof.photoUrl}
+                        alt="Proof of delivery"
+                        onClick={() => setZoomedImageUrl(report.deliveryProof!.photoUrl)}
+                        className="h-12 w-12 object-cover rounded-lg border border-gray-700 cursor-pointer hover:opacity-80 transition-opacity"
+                      />
+                    )}
+                  </div>
+
                   {report.status === 'open' && (
                     <div className="flex flex-col sm:flex-row justify-end gap-2">
                       <Button variant="outline" size="sm" onClick={() => handleChat(report.orderId)} className="gap-2 w-full sm:w-auto">
@@ -123,7 +170,7 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
                       </Button>
                       <Dialog>
                         <DialogTrigger asChild>
-                          <Button variant="outline" size="sm" onClick={() => setSelectedReport(report)} className="w-full sm:w-auto">Resolve Dispute</Button>
+                          <Button variant="outline" size="sm" onClick={() => { resetResolutionForm(); setSelectedReport(report); }} className="w-full sm:w-auto">Resolve Dispute</Button>
                         </DialogTrigger>
                         <DialogContent className="bg-gray-900 border-gray-700 text-white">
                           <DialogHeader>
@@ -140,6 +187,43 @@ export function ReportsTabContent({ storeId, onNavigateToChat }: { storeId: Id<"
                               onChange={(e) => setResolutionNote(e.target.value)}
                               rows={3}
                             />
+                            <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-3 space-y-3">
+                              <p className="text-sm font-semibold text-gray-200">Partial refund</p>
+                              <div className="space-y-2">
+                                {report.orderItems.map((item, index) => (
+                                  <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                                    <span className="text-gray-300 truncate">{item.name} <span className="text-gray-500">({formatPiPrice(item.price)} each)</span></span>
+                                    <select
+                                      value={refundQuantities[index] ?? 0}
+                                      onChange={(e) => setRefundQuantities(prev => ({ ...prev, [index]: Number(e.target.value) }))}
+                                      className="bg-gray-900 border border-gray-700 rounded-md px-2 py-1 text-white"
+                                    >
+                                      {Array.from({ length: item.quantity + 1 }, (_, qty) => (
+                                        <option key={qty} value={qty}>{qty} / {item.quantity}</option>
+                                      ))}
+                                    </select>
+                                  </div>
+                                ))}
+                              </div>
+                              <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={customRefundAmount}
+                                onChange={(e) => setCustomRefundAmount(e.target.value)}
+                                disabled={selectedRefundItems.length > 0}
+                                placeholder="Or enter a custom amount"
+                                className="w-full bg-gray-900 border border-gray-700 rounded-md p-2 text-white text-sm disabled:opacity-50"
+                              />
+                              <Button
+                                variant="outline"
+                                onClick={() => handleResolve('partial_refund')}
+                                disabled={isSubmitting || partialRefundTotal <= 0}
+                                className="w-full"
+                              >
+                                Refund {formatPiPrice(partialRefundTotal)} & release the rest
+                              </Button>
+                            </div>
                             <div className="grid grid-cols-2 gap-4">
                               <Button 
                                 variant="destructive" 
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { useMutation, usePaginatedQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Doc } from '../../../convex/_generated/dataModel';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+
+type StockProduct = Pick<Doc<'products'>, '_id' | 'name' | 'quantity' | 'options' | 'reorderThreshold'>;
+
+const MOVEMENT_LABELS: Record<Doc<'stockMovements'>['type'], { label: string; className: string }> = {
+  restock: { label: 'Restock', className: 'border-green-500/40 bg-green-500/10 text-green-400' },
+  sale: { label: 'Sale', className: 'border-blue-500/40 bg-blue-500/10 text-blue-400' },
+  refund_restock: { label: 'Refund Restock', className: 'border-purple-500/40 bg-purple-500/10 text-purple-300' },
+  adjustment: { label: 'Adjustment', className: 'border-yellow-500/40 bg-yellow-500/10 text-yellow-400' },
+};
+
+interface StockHistoryDialogProps {
+  product: StockProduct | null;
+  onClose: () => void;
+}
+
+/**
+ * A product's stock movement history, with its reorder threshold and a form to record a counted restock or adjustment.
+ */
+export function StockHistoryDialog({ product, onClose }: StockHistoryDialogProps) {
+  const { sessionToken } = useAuth();
+  const { results: movements, status, loadMore } = usePaginatedQuery(
+    api.stockMovements.getStockMovements,
+    sessionToken && product ? { tokenIdentifier: sessionToken, productId: product._id } : "skip",
+    { initialNumItems: 20 }
+  );
+  const setReorderThreshold = useMutation(api.stockMovements.setReorderThreshold);
+  const setProductQuantity = useMutation(api.inventory.setProductQuantity);
+
+  const [threshold, setThreshold] = useState('');
+  const [newQuantity, setNewQuantity] = useState('');
+  const [movementType, setMovementType] = useState<'restock' | 'adjustment'>('restock');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setThreshold(product?.reorderThreshold?.toString() ?? '');
+    setNewQuantity(product?.quantity?.toString() ?? '');
+    setMovementType('restock');
+    setReason('');
+  }, [product]);
+
+  const hasOptions = !!product?.options && product.options.length > 0;
+
+  const handleSaveThreshold = async () => {
+    if (!sessionToken || !product) return;
+    setIsSaving(true);
+    try {
+      await setReorderThreshold({
+        tokenIdentifier: sessionToken,
+        productId: product._id,
+        threshold: threshold.trim() === '' ? undefined : Number(threshold),
+      });
+      toast.success(threshold.trim() === '' ? 'Low-stock alerts turned off.' : `You'll be notified when stock falls to ${threshold}.`);
+    } catch (error: any) {
+      toast.error('Failed to save reorder threshold.', { description: error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRecordChange = async () => {
+    if (!sessionToken || !product) return;
+    const quantity = parseInt(newQuantity, 10);
+    if (isNaN(quantity) || quantity < 0) {
+      toast.error('Enter the number of units on hand.');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await setProductQuantity({
+        tokenIdentifier: sessionToken,
+        productId: product._id,
+        newQuantity: quantity,
+        movementType,
+        reason: reason.trim() || undefined,
+      });
+      setReason('');
+      toast.success(`Stock for "${product.name}" set to ${quantity}.`);
+    } catch (error: any) {
+      toast.error('Failed to update stock.', { description: error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-gray-900 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History: {product?.name}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Every restock, sale, refund and manual adjustment of this product.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-3 space-y-2">
+            <label className="text-sm font-medium text-gray-300">Reorder threshold</label>
+            <p className="text-xs text-gray-500">Get a notification when stock falls to this level. Leave empty to turn alerts off.</p>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                placeholder="e.g. 5"
+                className="bg-gray-800 border-gray-700"
+              />
+              <Button onClick={handleSaveThreshold} disabled={isSaving} variant="outline" className="border-gray-700">Save</Button>
+            </div>
+          </div>
+
+          {!hasOptions && (
+            <div className="bg-gray-800/60 border border-gray-700 rounded-lg p-3 space-y-2">
+              <label className="text-sm font-medium text-gray-300">Record a stock count</label>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  value={newQuantity}
+                  onChange={(e) => setNewQuantity(e.target.value)}
+                  placeholder="Units on hand"
+                  className="bg-gray-800 border-gray-700"
+                />
+                <select
+                  value={movementType}
+                  onChange={(e) => setMovementType(e.target.value as 'restock' | 'adjustment')}
+                  className="bg-gray-800 border border-gray-700 rounded-md px-3 py-2 text-sm text-white"
+                >
+                  <option value="restock">Restock</option>
+                  <option value="adjustment">Adjustment</option>
+                </select>
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason (optional)"
+                  className="bg-gray-800 border-gray-700"
+                />
+              </div>
+              <Button onClick={handleRecordChange} disabled={isSaving} className="w-full bg-purple-600 hover:bg-purple-700">
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Stock Count'}
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {status === 'LoadingFirstPage' ? (
+              <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-gray-400" /></div>
+            ) : movements.length === 0 ? (
+              <p className="text-center text-sm text-gray-500 py-6">No stock movements recorded yet.</p>
+            ) : (
+              movements.map((movement) => (
+                <div key={movement._id} className="flex items-start justify-between gap-3 bg-gray-800/40 border border-gray-800 rounded-lg p-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline" className={MOVEMENT_LABELS[movement.type].className}>{MOVEMENT_LABELS[movement.type].label}</Badge>
+                      {movement.choiceName && <span className="text-xs text-gray-400">{movement.optionTitle}: {movement.choiceName}</span>}
+                      {movement.variantLabel && <span className="text-xs text-gray-400">{movement.variantLabel}</span>}
+                      {movement.orderId && <span className="text-xs text-gray-500">Order #{movement.orderId.slice(-6)}</span>}
+                    </div>
+                    {movement.reason && <p className="text-sm text-gray-300 truncate">{movement.reason}</p>}
+                    <p className="text-xs text-gray-500">
+                      {new Date(movement._creationTime).toLocaleString()}
+                      {movement.actorName && ` · ${movement.actorName}`}
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className={`font-mono font-semibold ${movement.change > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {movement.change > 0 ? '+' : ''}{movement.change}
+                    </p>
+                    <p className="text-xs text-gray-500">{movement.quantityAfter} after</p>
+                  </div>
+                </div>
+              ))
+            )}
+            {status === 'CanLoadMore' && (
+              <Button variant="outline" onClick={() => loadMore(20)} className="w-full text-gray-300 border-gray-700 hover:bg-gray-800">Load More</Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { usePaginatedQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Input } from '../ui/input';
+import { Button } from '../ui/button';
+import { CalendarDays, Loader2 } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+
+/**
+ * Shows what each product had in stock at the end of a chosen day, next to its stock today.
+ */
+export function StockOnDateCard({ storeId }: { storeId: Id<'stores'> }) {
+  const { sessionToken } = useAuth();
+  const [date, setDate] = useState('');
+  // The end of the chosen day in the owner's local time.
+  const endOfDay = date ? new Date(`${date}T23:59:59.999`).getTime() : null;
+  const { results: stock, status, loadMore } = usePaginatedQuery(
+    api.stockMovements.getStockOnDate,
+    sessionToken && endOfDay !== null ? { tokenIdentifier: sessionToken, storeId, date: endOfDay } : "skip",
+    { initialNumItems: 25 }
+  );
+
+  return (
+    <Card className="bg-gray-900/50 border-gray-800">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2"><CalendarDays className="h-5 w-5 text-purple-400" /> Stock on Date</CardTitle>
+        <Input
+          type="date"
+          value={date}
+          max={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => setDate(e.target.value)}
+          className="w-full sm:w-48 bg-gray-800/60 border-gray-700"
+        />
+      </CardHeader>
+      {date && (
+        <CardContent>
+          {status === 'LoadingFirstPage' ? (
+            <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-gray-400" /></div>
+          ) : stock.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">No products existed on this date.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-b-gray-800 hover:bg-gray-900/30">
+                  <TableHead className="text-gray-400 font-semibold">Name</TableHead>
+                  <TableHead className="text-gray-400 font-semibold">Category</TableHead>
+                  <TableHead className="text-right text-gray-400 font-semibold">On {new Date(endOfDay!).toLocaleDateString()}</TableHead>
+                  <TableHead className="text-right text-gray-400 font-semibold">Today</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stock.map((item) => (
+                  <TableRow key={item.productId} className="border-gray-800 hover:bg-gray-900/50">
+                    <TableCell className="text-gray-100">
+                      {item.name}
+                      {item.breakdown.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {item.breakdown.map((line) => `${line.label}: ${line.quantity}`).join(' · ')}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-gray-400">{item.category}</TableCell>
+                    <TableCell className="text-right font-mono text-gray-100">{item.quantity}</TableCell>
+                    <TableCell className="text-right font-mono text-gray-400">{item.currentQuantity}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {status === 'CanLoadMore' && (
+            <Button variant="outline" onClick={() => loadMore(25)} className="w-full mt-3 text-gray-300 border-gray-700 hover:bg-gray-800">Load More</Button>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
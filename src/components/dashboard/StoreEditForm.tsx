@@ -13,6 +13,8 @@ import { worldLocations } from "../../data/worldLocations";
 import { storeTypes, storeCategories } from "../../data/storeCategories";
 import { OpeningHoursInput } from './OpeningHoursInput';
 import { Switch } from "../ui/switch";
+import { DeliveryZonesManager } from "./DeliveryZonesManager";
+import { DeliveryPricingManager } from "./DeliveryPricingManager";
 
 type StoreWithImageUrl = Doc<"stores"> & { imageUrl: string | null; galleryImageUrls?: (string | null)[] };
 
@@ -48,12 +50,21 @@ export function StoreEditForm({ store }: StoreEditFormProps) {
     email: store.email || "",
     openingHours: store.openingHours, // This will now be an array of objects
     hasDelivery: store.hasDelivery,
+    offersPickup: store.offersPickup ?? !store.hasDelivery,
     dietaryOptions: store.dietaryOptions || [],
     hasOffer: store.hasOffer,
     offerText: store.offerText || "",
     logoImage: null as File | null,
     deliveryRegions: store.deliveryRegions || [],
     isDeliveryRegionsAllowList: store.isDeliveryRegionsAllowList ?? true,
+    acceptsCash: store.acceptsCash ?? false,
+    autoDispatch: store.autoDispatch ?? false,
+    requiresDeliveryProof: store.requiresDeliveryProof ?? false,
+    payoutSchedule: store.payoutSchedule ?? "per_order",
+    payoutMinimum: store.payoutMinimum,
+    driverFeePerDelivery: store.driverFeePerDelivery,
+    minDriverRating: store.minDriverRating,
+    scheduledSlotCapacity: store.scheduledSlotCapacity,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [galleryItems, setGalleryItems] = useState<GalleryItem[]>([]);
@@ -186,6 +197,8 @@ export function StoreEditForm({ store }: StoreEditFormProps) {
       await updateStore({
         storeId: store._id,
         ...formDataForMutation,
+        // Opening hours are entered in the owner's local time.
+        utcOffsetMinutes: -new Date().getTimezoneOffset(),
         logoImageId: logoImageId,
         galleryImageIds: finalGalleryImageIds,
         tokenIdentifier: sessionToken,
@@ -444,6 +457,10 @@ export function StoreEditForm({ store }: StoreEditFormProps) {
         </div>
       )}
 
+      {formState.hasDelivery && <DeliveryZonesManager storeId={store._id} />}
+
+      {formState.hasDelivery && <DeliveryPricingManager storeId={store._id} />}
+
       {/* Address */}
       <div>
         <label className="block text-sm font-medium text-gray-300 mb-2">Address *</label>
@@ -502,14 +519,98 @@ export function StoreEditForm({ store }: StoreEditFormProps) {
             <input type="checkbox" id="hasDelivery-edit" name="hasDelivery" checked={formState.hasDelivery} onChange={handleCheckboxChange} className="w-5 h-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
             <label htmlFor="hasDelivery-edit" className="text-gray-300">Offers delivery service</label>
           </div>
+          <div className="flex items-center space-x-3 ml-6">
+            <input type="checkbox" id="offersPickup-edit" name="offersPickup" checked={formState.offersPickup} onChange={handleCheckboxChange} className="w-5 h-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            <label htmlFor="offersPickup-edit" className="text-gray-300">Offers pickup</label>
+          </div>
         </div>
       </div>
 
       {formState.hasDelivery && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center space-x-3">
+            <input type="checkbox" id="acceptsCash-edit" name="acceptsCash" checked={formState.acceptsCash} onChange={handleCheckboxChange} className="w-5 h-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            <label htmlFor="acceptsCash-edit" className="text-gray-300">Accept cash on delivery</label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <input type="checkbox" id="autoDispatch-edit" name="autoDispatch" checked={formState.autoDispatch} onChange={handleCheckboxChange} className="w-5 h-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            <label htmlFor="autoDispatch-edit" className="text-gray-300">Offer preparing orders to drivers automatically</label>
+          </div>
+          <div className="flex items-center space-x-3">
+            <input type="checkbox" id="requiresDeliveryProof-edit" name="requiresDeliveryProof" checked={formState.requiresDeliveryProof} onChange={handleCheckboxChange} className="w-5 h-5 text-purple-600 bg-gray-700 border-gray-600 rounded focus:ring-purple-500" />
+            <label htmlFor="requiresDeliveryProof-edit" className="text-gray-300">Require proof of delivery (handover code or photo)</label>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Driver fee per delivery (π, paid from your earnings)</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              name="driverFeePerDelivery"
+              value={formState.driverFeePerDelivery ?? ""}
+              onChange={(e) => setFormState(prev => ({ ...prev, driverFeePerDelivery: e.target.value === "" ? undefined : parseFloat(e.target.value) }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Minimum driver rating (1–5, leave empty for none)</label>
+            <input
+              type="number"
+              min="1"
+              max="5"
+              step="0.1"
+              name="minDriverRating"
+              value={formState.minDriverRating ?? ""}
+              onChange={(e) => setFormState(prev => ({ ...prev, minDriverRating: e.target.value === "" ? undefined : parseFloat(e.target.value) }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Scheduled orders per 30-minute slot (leave empty to only take orders for now)</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              name="scheduledSlotCapacity"
+              value={formState.scheduledSlotCapacity ?? ""}
+              onChange={(e) => setFormState(prev => ({ ...prev, scheduledSlotCapacity: e.target.value === "" ? undefined : parseInt(e.target.value, 10) }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+            />
+          </div>
         </div>
       )}
 
+      {/* Payouts */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Payout Schedule</label>
+          <select
+            name="payoutSchedule"
+            value={formState.payoutSchedule}
+            onChange={(e) => setFormState(prev => ({ ...prev, payoutSchedule: e.target.value as typeof prev.payoutSchedule }))}
+            className="w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+          >
+            <option value="per_order">Pay each order separately</option>
+            <option value="daily">Daily statement</option>
+            <option value="weekly">Weekly statement</option>
+          </select>
+        </div>
+        {formState.payoutSchedule !== "per_order" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Pay early once balance reaches (π, optional)</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              name="payoutMinimum"
+              value={formState.payoutMinimum ?? ""}
+              onChange={(e) => setFormState(prev => ({ ...prev, payoutMinimum: e.target.value === "" ? undefined : parseFloat(e.target.value) }))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl px-4 py-2 text-white focus:border-purple-500 focus:ring-purple-500"
+            />
+          </div>
+        )}
+      </div>
+
       {/* Offers */}
       <div>
         <div className="flex items-center space-x-3 mb-3">
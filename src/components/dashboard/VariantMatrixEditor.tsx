@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Checkbox } from '../ui/checkbox';
+import { Loader2, Save } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { formatPiPrice } from '../../lib/utils';
+import type { ProductWithOptions } from './ManageOptionsInventory';
+
+type OptionValue = { title: string; choice: string };
+
+interface VariantRow {
+  enabled: boolean;
+  sku: string;
+  barcode: string;
+  price: string;
+  quantity: string;
+  imageId: string;
+}
+
+const getKey = (optionValues: OptionValue[]) => JSON.stringify(optionValues.map((v) => [v.title, v.choice]));
+
+/**
+ * Every combination of the product's single-choice options, in option order.
+ */
+const getCombinations = (product: ProductWithOptions) =>
+  product.options
+    .filter((option) => option.type === 'single')
+    .reduce<OptionValue[][]>(
+      (combos, option) => combos.flatMap((combo) => option.choices.map((choice) => [...combo, { title: option.title, choice: choice.name }])),
+      [[]]
+    );
+
+/**
+ * Edits a product's variants: one row per combination of its single-choice options, each with its own
+ * SKU, barcode, price, stock and image. Unticked combinations are not sold.
+ */
+export function VariantMatrixEditor({ product, onClose }: { product: ProductWithOptions; onClose: () => void }) {
+  const { sessionToken } = useAuth();
+  const matrix = useQuery(
+    api.productVariants.getVariantMatrix,
+    sessionToken ? { tokenIdentifier: sessionToken, productId: product._id } : "skip"
+  );
+  const saveVariantMatrix = useMutation(api.productVariants.saveVariantMatrix);
+  const combinations = useMemo(() => getCombinations(product), [product]);
+  const [rows, setRows] = useState<Record<string, VariantRow>>({});
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!matrix) return;
+    const variantsByKey = new Map(matrix.variants.map((variant) => [getKey(variant.optionValues), variant]));
+    const singleOptions = product.options.filter((option) => option.type === 'single');
+    const initialRows: Record<string, VariantRow> = {};
+    for (const combo of combinations) {
+      const key = getKey(combo);
+      const variant = variantsByKey.get(key);
+      // The first time, stock kept on a lone option's choices carries over to its variants.
+      const choiceQuantity = singleOptions.length === 1
+        ? singleOptions[0].choices.find((c) => c.name === combo[0].choice)?.quantity ?? 0
+        : 0;
+      initialRows[key] = {
+        enabled: variant ? true : !product.hasVariants,
+        sku: variant?.sku ?? '',
+        barcode: variant?.barcode ?? '',
+        price: variant?.price?.toString() ?? '',
+        quantity: (variant?.quantity ?? (product.hasVariants ? 0 : choiceQuantity)).toString(),
+        imageId: variant?.imageId ?? '',
+      };
+    }
+    setRows(initialRows);
+  }, [matrix, combinations, product]);
+
+  const updateRow = (key: string, changes: Partial<VariantRow>) =>
+    setRows((prev) => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+
+  // The price a variant sells for without its own price: the product price plus its choices' increments.
+  const getDefaultPrice = (combo: OptionValue[]) =>
+    combo.reduce((price, { title, choice }) => {
+      const option = product.options.find((o) => o.title === title);
+      return price + (option?.choices.find((c) => c.name === choice)?.price_increment ?? 0);
+    }, product.price);
+
+  const handleSave = async () => {
+    if (!sessionToken) {
+      toast.error("Authentication error.");
+      return;
+    }
+    const variants = combinations
+      .filter((combo) => rows[getKey(combo)]?.enabled)
+      .map((combo) => {
+        const row = rows[getKey(combo)];
+        return {
+          optionValues: combo,
+          sku: row.sku.trim() || undefined,
+          barcode: row.barcode.trim() || undefined,
+          price: row.price.trim() === '' ? undefined : Number(row.price),
+          quantity: parseInt(row.quantity, 10) || 0,
+          imageId: row.imageId ? (row.imageId as Id<'_storage'>) : undefined,
+        };
+      });
+
+    setIsSaving(true);
+    try {
+      await saveVariantMatrix({ tokenIdentifier: sessionToken, productId: product._id, variants, reason: reason.trim() || undefined });
+      toast.success(variants.length > 0 ? `Variants for "${product.name}" saved.` : `Variants for "${product.name}" turned off.`);
+      onClose();
+    } catch (error: any) {
+      toast.error("Failed to save variants.", { description: error.data?.message || error.data || error.message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (matrix === undefined) {
+    return <div className="flex-1 flex items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-gray-400" /></div>;
+  }
+
+  const reservedByKey = new Map(matrix.variants.map((variant) => [getKey(variant.optionValues), variant.reserved]));
+
+  return (
+    <div className="h-full flex flex-col bg-gray-800">
+      <div className="mx-auto w-12 h-1.5 flex-shrink-0 rounded-full bg-gray-600 my-3" />
+      <div className="p-4 pt-0 flex-shrink-0">
+        <h3 className="text-lg font-bold text-white mb-1">Variants for: {product.name}</h3>
+        <p className="text-sm text-gray-400">Each combination has its own SKU, barcode, price, stock and image. Leave the price empty to use the product price plus the choices' increments.</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 space-y-3">
+        {combinations.map((combo) => {
+          const key = getKey(combo);
+          const row = rows[key];
+          if (!row) return null;
+          const reserved = reservedByKey.get(key) ?? 0;
+          return (
+            <div key={key} className={`bg-gray-900/50 p-3 rounded-lg border border-gray-700/50 space-y-3 ${row.enabled ? '' : 'opacity-60'}`}>
+              <label className="flex items-center gap-3 cursor-pointer">
+                <Checkbox checked={row.enabled} onCheckedChange={(checked) => updateRow(key, { enabled: checked === true })} />
+                <span className="font-semibold text-gray-100">{combo.map((value) => value.choice).join(' / ')}</span>
+                {reserved > 0 && <span className="text-xs text-orange-300">{reserved} reserved</span>}
+              </label>
+              {row.enabled && (
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                  <Input value={row.sku} onChange={(e) => updateRow(key, { sku: e.target.value })} placeholder="SKU" className="bg-gray-700 border-gray-600 text-white font-mono" />
+                  <Input value={row.barcode} onChange={(e) => updateRow(key, { barcode: e.target.value })} placeholder="Barcode" className="bg-gray-700 border-gray-600 text-white font-mono" />
+                  <Input type="number" min={0} step="any" value={row.price} onChange={(e) => updateRow(key, { price: e.target.value })} placeholder={formatPiPrice(getDefaultPrice(combo))} className="bg-gray-700 border-gray-600 text-white" />
+                  <Input type="number" min={0} value={row.quantity} onChange={(e) => updateRow(key, { quantity: e.target.value })} placeholder="Stock" className="bg-gray-700 border-gray-600 text-white text-center font-mono" />
+                  <select
+                    value={row.imageId}
+                    onChange={(e) => updateRow(key, { imageId: e.target.value })}
+                    className="col-span-2 sm:col-span-1 bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-white"
+                  >
+                    <option value="">Product image</option>
+                    {matrix.images.map((image, index) => (
+                      <option key={image.id} value={image.id}>Image {index + 1}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 p-4 border-t border-gray-700 bg-gray-800 space-y-3">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for stock changes (optional), e.g. delivery from supplier"
+          className="bg-gray-700 border-gray-600 text-white"
+        />
+        <Button onClick={handleSave} disabled={isSaving} className="w-full bg-purple-600 hover:bg-purple-700 text-white font-semibold py-3">
+          {isSaving ? <Loader2 className="h-5 w-5 animate-spin" /> : <><Save className="h-5 w-5 mr-2" /> Save Variants</>}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { useAuth } from '../hooks/useAuth';
 export interface CartItem {
   id: string; // Unique ID for the cart item, e.g., `${productId}-${JSON.stringify(options)}`
   productId: Id<'products'>; // The actual ID of the product
+  variantId?: Id<'productVariants'>; // The variant the chosen options pick, for products with variants
   name: string;
   price: number;
   quantity: number;
@@ -17,6 +18,8 @@ export interface CartItem {
   specialInstructions?: string;
 }
 
+export type FulfillmentType = 'delivery' | 'pickup';
+
 interface CartContextType {
   items: CartItem[];
   pendingItem: CartItem | null;
@@ -28,6 +31,8 @@ interface CartContextType {
   cancelAddItem: () => void;
   getTotalItems: () => number;
   getTotalPrice: () => number;
+  fulfillmentType: FulfillmentType;
+  setFulfillmentType: (fulfillmentType: FulfillmentType) => void;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -44,6 +49,8 @@ export const useCart = () => {
 
 export const CartProvider = ({ children }: { children: ReactNode }) => {  const [items, setItems] = useState<CartItem[]>([]);
   const [pendingItem, setPendingItem] = useState<CartItem | null>(null);
+  // Chosen on the store page or in the cart; only applies when the store offers both.
+  const [fulfillmentType, setFulfillmentType] = useState<FulfillmentType>('delivery');
   const { sessionToken } = useAuth();
 
   // Fetch cart items from the database
@@ -61,6 +68,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {  const
       const mappedItems = dbCartItems.map(item => ({
         id: item._id, // Use the database ID as the unique cart item ID
         productId: item.productId, // Pass the product ID
+        variantId: item.variantId,
         name: item.name,
         price: item.price,
         quantity: item.quantity,
@@ -85,7 +93,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {  const
       return Promise.reject(new Error("Confirmation required to clear cart."));
     }
 
-    return addItemMutation({ tokenIdentifier: sessionToken, productId: item.productId, storeId: item.storeId, quantity: item.quantity, options: item.options });
+    return addItemMutation({ tokenIdentifier: sessionToken, productId: item.productId, variantId: item.variantId, storeId: item.storeId, quantity: item.quantity, options: item.options });
   };
 
   const proceedWithNewItem = async () => {
@@ -96,6 +104,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {  const
     const result = await addItemMutation({
       tokenIdentifier: sessionToken,
       productId: pendingItem.productId,
+      variantId: pendingItem.variantId,
       storeId: pendingItem.storeId,
       quantity: pendingItem.quantity,
       options: pendingItem.options,
@@ -142,7 +151,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {  const
   const getTotalItems = () => items.reduce((sum, item) => sum + item.quantity, 0);
   const getTotalPrice = () => items.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
-  const value = { items, pendingItem, addItem, removeItem, updateQuantity, clearCart, proceedWithNewItem, cancelAddItem, getTotalItems, getTotalPrice };
+  const value = { items, pendingItem, addItem, removeItem, updateQuantity, clearCart, proceedWithNewItem, cancelAddItem, getTotalItems, getTotalPrice, fulfillmentType, setFulfillmentType };
 
   return <CartContext.Provider value={value}>{children}</CartContext.Provider>;
 };
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+
+/**
+ * Loads a product's variants and finds the one the customer's chosen options pick.
+ * `hasVariants` is false, and nothing is selected, for products without variants.
+ */
+export function useProductVariant(productId: Id<'products'>, selectedOptions: Record<string, string | string[]>) {
+  const variants = useQuery(api.productVariants.getProductVariants, { productId });
+
+  return useMemo(() => {
+    const list = variants ?? [];
+    const variantTitles = new Set(list.flatMap((variant) => variant.optionValues.map((value) => value.title)));
+    const selectedVariant = list.find((variant) =>
+      variant.optionValues.every(({ title, choice }) => selectedOptions[title] === choice)
+    ) ?? null;
+
+    return {
+      hasVariants: list.length > 0,
+      selectedVariant,
+      // Options the variant is picked by; their choices' own stock and price increments don't apply.
+      isVariantOption: (title: string) => variantTitles.has(title),
+      // Whether any variant with this choice is in stock.
+      isChoiceInStock: (title: string, choice: string) =>
+        list.some((variant) => variant.available > 0 && variant.optionValues.some((v) => v.title === title && v.choice === choice)),
+      totalAvailable: list.reduce((sum, variant) => sum + variant.available, 0),
+    };
+  }, [variants, selectedOptions]);
+}
@@ -0,0 +1,153 @@
+import type { FunctionArgs } from "convex/server";
+import { api } from "../../convex/_generated/api";
+
+export type CatalogRow = FunctionArgs<typeof api.catalog.previewCatalogImport>["rows"][number];
+
+/**
+ * The columns of a catalog file, in export order. Import matches headers and JSON keys to them ignoring case.
+ */
+export const CATALOG_COLUMNS = [
+  "id",
+  "sku",
+  "name",
+  "description",
+  "category",
+  "price",
+  "quantity",
+  "isAvailable",
+  "spiceLevel",
+  "dietaryInfo",
+  "options",
+] as const;
+
+type CatalogColumn = typeof CATALOG_COLUMNS[number];
+
+const findColumn = (header: string) =>
+  CATALOG_COLUMNS.find((column) => column.toLowerCase() === header.trim().toLowerCase());
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas, line breaks and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) throw new Error("The CSV file has a quoted cell that is never closed.");
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no product.
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Reads a JSON value into a catalog row, keeping only the catalog's columns.
+ */
+function toCatalogRow(record: Record<string, unknown>): CatalogRow {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const column = findColumn(key);
+    if (!column || value === null || value === undefined) continue;
+    if (column === "dietaryInfo" || column === "options") {
+      row[column] = Array.isArray(value) ? value : String(value);
+    } else if (column === "price" || column === "quantity") {
+      row[column] = typeof value === "number" ? value : String(value);
+    } else if (column === "isAvailable") {
+      row[column] = typeof value === "boolean" ? value : String(value);
+    } else {
+      row[column] = String(value);
+    }
+  }
+  // dietaryInfo arrays must hold strings; anything else is left for the server to report.
+  if (Array.isArray(row.dietaryInfo)) row.dietaryInfo = (row.dietaryInfo as unknown[]).map(String);
+  return row as CatalogRow;
+}
+
+/**
+ * Reads a catalog file: CSV with a header row, or JSON with a list of products (or `{ "products": [...] }`).
+ * @throws Error if the file can't be read as a catalog.
+ */
+export function parseCatalogFile(fileName: string, text: string): CatalogRow[] {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("The JSON file is not valid JSON.");
+    }
+    const products = Array.isArray(data) ? data : (data as { products?: unknown })?.products;
+    if (!Array.isArray(products)) throw new Error('The JSON file must hold a list of products, or an object with a "products" list.');
+    return products.map((product, index) => {
+      if (typeof product !== "object" || product === null || Array.isArray(product)) {
+        throw new Error(`Product ${index + 1} of the JSON file is not an object.`);
+      }
+      return toCatalogRow(product as Record<string, unknown>);
+    });
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(findColumn);
+  if (!columns.includes("name") && !columns.includes("id") && !columns.includes("sku")) {
+    throw new Error("The CSV file needs a header row with at least a name, id or sku column.");
+  }
+  return lines.map((cells) => {
+    const row: Partial<Record<CatalogColumn, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && cells[index] !== undefined) row[column] = cells[index];
+    });
+    return row as CatalogRow;
+  });
+}
+
+const escapeCsvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Writes catalog rows as CSV. Dietary info is "; "-separated and options are JSON text.
+ */
+export function catalogToCsv(rows: CatalogRow[]) {
+  const lines = rows.map((row) =>
+    CATALOG_COLUMNS.map((column) => {
+      const value = row[column];
+      if (value === undefined) return "";
+      if (column === "dietaryInfo" && Array.isArray(value)) return escapeCsvCell(value.join("; "));
+      if (column === "options" && Array.isArray(value)) return escapeCsvCell(value.length > 0 ? JSON.stringify(value) : "");
+      return escapeCsvCell(String(value));
+    }).join(",")
+  );
+  return [CATALOG_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
+export function catalogToJson(rows: CatalogRow[]) {
+  return JSON.stringify(rows, null, 2);
+}
@@ -4,6 +4,7 @@ export interface PaymentMetadata {
   storeId: Id<"stores">;
   items: {
     id: string; // The original product ID
+    variantId?: Id<"productVariants">;
     quantity: number;
     price: number;
     options?: Record<string, any>;
@@ -13,5 +14,6 @@ export interface PaymentMetadata {
   discount?: { code: string; amount: number };
   deliveryFee: number;
   total: number;
+  quoteId?: Id<"checkoutQuotes">; // Server-priced checkout the payment must match
   timestamp?: number;
 }
\ No newline at end of file